@@ -1,13 +1,35 @@
 #!/usr/bin/env node
 import { buildApplication, buildRouteMap } from "@stricli/core";
 import { run } from "@stricli/core";
+import { configRoutes } from "./commands/config/index.js";
 import { generateRoutes } from "./commands/generate/index.js";
+import { initCommand } from "./commands/init.js";
 import { loginCommand } from "./commands/login.js";
+import { manifestRoutes } from "./commands/manifest/index.js";
+import { mcpCommand } from "./commands/mcp.js";
+import { migrateLayoutCommand } from "./commands/migrate-layout.js";
+import { queueRoutes } from "./commands/queue/index.js";
+import { reprocessCommand } from "./commands/reprocess.js";
+import { retentionCommand } from "./commands/retention.js";
+import { runCommand } from "./commands/run.js";
+import { searchCommand } from "./commands/search.js";
+import { serveCommand } from "./commands/serve.js";
 
 const routes = buildRouteMap({
 	routes: {
+		init: initCommand,
 		login: loginCommand,
 		generate: generateRoutes,
+		config: configRoutes,
+		queue: queueRoutes,
+		manifest: manifestRoutes,
+		reprocess: reprocessCommand,
+		retention: retentionCommand,
+		"migrate-layout": migrateLayoutCommand,
+		search: searchCommand,
+		mcp: mcpCommand,
+		serve: serveCommand,
+		run: runCommand,
 	},
 	docs: {
 		brief: "Greptor CLI - Transform unstructured text into grep-friendly data",
@@ -19,6 +41,12 @@ export const app = buildApplication(routes, {
 	versionInfo: {
 		currentVersion: "0.6.0",
 	},
+	scanner: {
+		caseStyle: "allow-kebab-for-camel",
+	},
+	documentation: {
+		caseStyle: "convert-camel-to-kebab",
+	},
 });
 
 await run(app, process.argv.slice(2), {
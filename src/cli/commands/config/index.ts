@@ -0,0 +1,11 @@
+import { buildRouteMap } from "@stricli/core";
+import { validateCommand } from "./validate.js";
+
+export const configRoutes = buildRouteMap({
+	routes: {
+		validate: validateCommand,
+	},
+	docs: {
+		brief: "Check and migrate the workspace config",
+	},
+});
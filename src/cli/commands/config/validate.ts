@@ -0,0 +1,126 @@
+import path from "node:path";
+import { buildCommand } from "@stricli/core";
+import {
+	CONFIG_KEY,
+	CONFIG_VERSION,
+	LEGACY_CONFIG_KEY,
+	formatConfigIssues,
+	migrateConfigFile,
+	validateConfig,
+} from "../../../lib/config.js";
+import { createFsStorageBackend } from "../../../lib/storage/fs-backend.js";
+import { findWorkspace } from "../../utils/workspace.js";
+
+interface ValidateFlags {
+	migrate?: boolean;
+}
+
+/** Base directory of a workspace directory or of a current or pre-0.7 config file. */
+async function resolveBaseDir(target: string | undefined): Promise<string> {
+	if (!target) {
+		return (await findWorkspace())?.basePath ?? ".";
+	}
+	if (!target.endsWith(".yaml")) {
+		return target;
+	}
+
+	const dir = path.dirname(target);
+	return path.basename(dir) === ".greptor" ? path.dirname(dir) : dir;
+}
+
+/**
+ * Validates the workspace config and reports issues as `file:line:column`,
+ * with a non-zero exit code, e.g. for CI.
+ */
+async function validateWorkspaceConfig(
+	flags: ValidateFlags,
+	target?: string,
+): Promise<void> {
+	try {
+		const baseDir = await resolveBaseDir(target);
+		const backend = createFsStorageBackend(baseDir);
+
+		let key = CONFIG_KEY;
+		let content = await backend.read(key);
+		if (content === undefined) {
+			key = LEGACY_CONFIG_KEY;
+			content = await backend.read(key);
+		}
+		const file = path.join(baseDir, key);
+		if (content === undefined) {
+			throw new Error(
+				`No config found at ${path.join(baseDir, CONFIG_KEY)}. Run: greptor init`,
+			);
+		}
+
+		const result = validateConfig(content);
+		if (!result.success) {
+			process.stderr.write(`${formatConfigIssues(file, result.issues)}\n`);
+			process.exitCode = 1;
+			return;
+		}
+
+		const pending = [
+			...(key === LEGACY_CONFIG_KEY
+				? [`move ${LEGACY_CONFIG_KEY} to ${CONFIG_KEY}`]
+				: []),
+			...(result.migratedFrom.length > 0
+				? [
+						`upgrade from version ${result.migratedFrom[0]} to ${CONFIG_VERSION}`,
+					]
+				: []),
+		];
+
+		process.stdout.write(
+			`${file}: valid (version ${CONFIG_VERSION}, ${result.config.tagSchema.length} tag fields)\n`,
+		);
+		if (pending.length === 0) {
+			return;
+		}
+
+		if (!flags.migrate) {
+			process.stdout.write(
+				`Pending migrations: ${pending.join(", ")}. Apply them with: greptor config validate --migrate\n`,
+			);
+			return;
+		}
+		for (const action of await migrateConfigFile(backend)) {
+			process.stdout.write(`${action}\n`);
+		}
+	} catch (error) {
+		process.stderr.write(
+			`${error instanceof Error ? error.message : String(error)}\n`,
+		);
+		process.exitCode = 1;
+	}
+}
+
+export const validateCommand = buildCommand({
+	func: validateWorkspaceConfig,
+	parameters: {
+		flags: {
+			migrate: {
+				kind: "boolean",
+				brief:
+					"Apply pending migrations: move a pre-0.7 config and upgrade older versions",
+				optional: true,
+			},
+		},
+		positional: {
+			kind: "tuple",
+			parameters: [
+				{
+					brief:
+						"Workspace directory or config file (default: the workspace in the current directory)",
+					placeholder: "path",
+					parse: String,
+					optional: true,
+				},
+			],
+		},
+	},
+	docs: {
+		brief:
+			"Validate the workspace config, reporting issues with their YAML line",
+	},
+});
@@ -1,4 +1,4 @@
-import { readFile, readdir } from "node:fs/promises";
+import { readdir } from "node:fs/promises";
 import path from "node:path";
 import {
 	cancel,
@@ -18,6 +18,11 @@ import {
 	PROCESSED_DIR_NAME,
 	RAW_DIR_NAME,
 } from "../../../../lib/storage/file-storage.js";
+import { createFsStorageBackend } from "../../../../lib/storage/fs-backend.js";
+import {
+	type DocumentLayout,
+	createDocumentLayout,
+} from "../../../../lib/storage/layout.js";
 
 async function findGreptorPaths(workspacePath: string): Promise<GreptorPaths> {
 	let rawPath: string | undefined;
@@ -65,17 +70,20 @@ async function findGreptorPaths(workspacePath: string): Promise<GreptorPaths> {
 	};
 }
 
-async function findSources(processedPath: string): Promise<string[]> {
-	const entries = await readdir(processedPath, { withFileTypes: true });
-	const sources: string[] = [];
+async function findSources(
+	processedPath: string,
+	layout: DocumentLayout,
+): Promise<string[]> {
+	const sources = new Set<string>();
 
-	for (const entry of entries) {
-		if (entry.isDirectory()) {
-			sources.push(entry.name);
+	for (const ref of await createFsStorageBackend(processedPath).list("")) {
+		const source = layout.parse(ref)?.source;
+		if (source) {
+			sources.add(source);
 		}
 	}
 
-	return sources;
+	return [...sources].sort();
 }
 
 async function generateSkillsCommand(): Promise<void> {
@@ -131,7 +139,11 @@ async function generateSkillsCommand(): Promise<void> {
 
 		// Step 5: Find content sources from the processed content
 		s.start("Finding content sources for the skill...");
-		const sources = await findSources(greptorPaths.processedContentPath);
+		const layout = createDocumentLayout(config.layout);
+		const sources = await findSources(
+			greptorPaths.processedContentPath,
+			layout,
+		);
 		s.stop(`Found ${sources.length} sources`);
 
 		// Step 6: Generate skills
@@ -142,6 +154,7 @@ async function generateSkillsCommand(): Promise<void> {
 			sources,
 			basePath: ".",
 			greptorPaths: greptorPaths,
+			layout,
 			tagsSchema: config.tagSchema,
 			agent,
 		});
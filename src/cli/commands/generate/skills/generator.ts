@@ -88,6 +88,55 @@ function sanitizePathSegment(name: string, maxLength = 50): string {
 	return sanitized || "unknown";
 }
 
+const PLACEHOLDER_DISPLAY: Record<string, string> = {
+	yyyy: "YYYY",
+	mm: "MM",
+	dd: "DD",
+	date: "YYYY-MM-DD",
+	week: "YYYY-Www",
+	slug: "label",
+};
+
+const BUILT_IN_PLACEHOLDERS = new Set([
+	...Object.keys(PLACEHOLDER_DISPLAY),
+	"source",
+	"id",
+]);
+
+/**
+ * Directory tree of the layout template, one line per path segment, e.g.
+ * `{source}/` > `{publisher}/` > `YYYY-MM/` > `YYYY-MM-DD-label.md`.
+ */
+function buildLayoutTree(template: string, exampleSource: string): string {
+	const segments = template.split("/");
+
+	return segments
+		.map((segment, index) => {
+			const names: string[] = [];
+			const display = segment.replace(
+				/\{([a-z_][a-z0-9_]*)(?::\d+)?\}/gi,
+				(_, name: string) => {
+					names.push(name.toLowerCase());
+					return PLACEHOLDER_DISPLAY[name.toLowerCase()] ?? `{${name}}`;
+				},
+			);
+			const isFile = index === segments.length - 1;
+			const line = `│   ${"    ".repeat(index)}└── ${display}${isFile ? "" : "/"}`;
+
+			const optional =
+				/^\{[^}]+\}$/.test(segment) &&
+				names[0] !== undefined &&
+				!BUILT_IN_PLACEHOLDERS.has(names[0]);
+			const comment = names.includes("source")
+				? `# e.g., ${exampleSource}`
+				: optional && !isFile
+					? `# Optional ${names[0]} subdirectory`
+					: undefined;
+			return comment ? `${line.padEnd(34)}${comment}` : line;
+		})
+		.join("\n");
+}
+
 function resolveContentPath(
 	basePath: string,
 	contentPath: string | undefined,
@@ -146,6 +195,9 @@ async function generateSkillContent(
 		"data/raw",
 	);
 
+	const { layout } = options;
+	const december = { yyyy: "2025", mm: "12" };
+
 	return renderSkillTemplate({
 		frontmatter: generateFrontmatter(options),
 		sourcesDisplay,
@@ -153,6 +205,13 @@ async function generateSkillContent(
 		processedPath,
 		rawPath,
 		exampleSource,
+		layoutTree: buildLayoutTree(layout.template, exampleSource),
+		sourceScope: layout.template.startsWith("{source}/")
+			? `${processedPath}/${exampleSource}/`
+			: `${processedPath}/ --glob "${layout.glob({ source: exampleSource })}"`,
+		monthGlob: layout.glob(december),
+		quarterGlob: layout.glob({ yyyy: "2025", mm: "1[0-2]" }),
+		sourceMonthGlob: layout.glob({ ...december, source: exampleSource }),
 		exampleFields: buildExampleFields(tagsSchema, 4),
 		tagReferenceList: buildTagReferenceList(tagsSchema),
 	});
@@ -10,6 +10,14 @@ export interface SkillTemplateData {
 	processedPath: string;
 	rawPath: string;
 	exampleSource: string;
+	/** Directory tree lines below the processed directory */
+	layoutTree: string;
+	/** rg path arguments that limit a search to the example source */
+	sourceScope: string;
+	/** Globs for December 2025, Q4 2025, and the example source in December 2025 */
+	monthGlob: string;
+	quarterGlob: string;
+	sourceMonthGlob: string;
 	exampleFields: readonly SkillTemplateField[];
 	tagReferenceList: string;
 }
@@ -56,10 +64,7 @@ All content from ${data.sourcesDisplay} is processed through this pipeline:
 
 \`\`\`text
 ├── ${data.processedPath}/          # Search-optimized content with tags
-│   └── {source}/                 # e.g., ${data.exampleSource}
-│       └── {publisher}/          # Optional publisher subdirectory
-│           └── YYYY-MM/
-│               └── YYYY-MM-DD-label.md
+${data.layoutTree}
 └── ${data.rawPath}/                # Original content (mirrors ${data.processedPath}/)
 \`\`\`
 
@@ -132,13 +137,13 @@ Narrow the search space using file paths before applying content filters:
 
 \`\`\`bash
 # Search within a specific source
-rg "query" ${data.processedPath}/${data.exampleSource}/
+rg "query" ${data.sourceScope}
 
 # Search within a specific month
-rg "query" ${data.processedPath}/ --glob "**/2025-12/*.md"
+rg "query" ${data.processedPath}/ --glob "${data.monthGlob}"
 
 # Combine source and date constraints
-rg "query" ${data.processedPath}/${data.exampleSource}/ --glob "**/2025-12/*.md"
+rg "query" ${data.processedPath}/ --glob "${data.sourceMonthGlob}"
 \`\`\`
 
 ### Step 2: Filter by Tags
@@ -169,6 +174,12 @@ rg -l "${fieldName1}=${val1}" ${data.processedPath}/ | xargs rg -n -C 6 "${field
 rg -n -C 6 "${fieldName1}=${val1}" ${data.processedPath}/ | rg "${fieldName2}"
 \`\`\`
 
+\`rg -l ... | xargs rg\` matches files, so the tags may come from different chunks. When the \`greptor\` CLI is available, \`greptor search\` matches all tags on the same chunk and prints \`path:line\` like \`rg -n\`:
+
+\`\`\`bash
+greptor search --tag "${fieldName1}=${val1}" --tag "${fieldName2}=${val2}" --format rg
+\`\`\`
+
 ### Step 4: Inspect Matched Chunks
 
 Once you identify a relevant chunk:
@@ -194,17 +205,17 @@ rg -n -C 6 "${fieldName2}=" ${data.processedPath}/
 rg -i -n -C 6 "${val3}" ${data.processedPath}/
 
 # Search within a specific source directory
-rg -n -C 6 "${fieldName3}=${val3}" ${data.processedPath}/${data.exampleSource}/
+rg -n -C 6 "${fieldName3}=${val3}" ${data.sourceScope}
 \`\`\`
 
 ### Filtered by Date
 
 \`\`\`bash
 # Content from December 2025
-rg -n -C 6 "${fieldName1}=${val1}" ${data.processedPath}/ --glob "**/2025-12/*.md"
+rg -n -C 6 "${fieldName1}=${val1}" ${data.processedPath}/ --glob "${data.monthGlob}"
 
 # Content from Q4 2025
-rg -n -C 6 "${fieldName2}=${val2}" ${data.processedPath}/ --glob "**/2025-1[0-2]/*.md"
+rg -n -C 6 "${fieldName2}=${val2}" ${data.processedPath}/ --glob "${data.quarterGlob}"
 \`\`\`
 
 ### Combined Tag Filters
@@ -1,4 +1,5 @@
 import type { TagSchema } from "../../../../lib/config.js";
+import type { DocumentLayout } from "../../../../lib/storage/layout.js";
 
 export type AgentType = "claude-code" | "codex" | "opencode";
 
@@ -14,5 +15,7 @@ export interface SkillGeneratorOptions {
 	tagsSchema: TagSchema;
 	basePath: string;
 	greptorPaths: GreptorPaths;
+	/** Path layout of the documents, to describe the directory structure */
+	layout: DocumentLayout;
 	agent: AgentType;
 }
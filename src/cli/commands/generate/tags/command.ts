@@ -2,8 +2,8 @@ import {
 	cancel,
 	intro,
 	isCancel,
+	log,
 	outro,
-	select,
 	spinner,
 	text,
 } from "@clack/prompts";
@@ -11,8 +11,9 @@ import { buildCommand } from "@stricli/core";
 import YAML from "yaml";
 import { findConfigFile, readConfig } from "../../../../lib/config.js";
 import { resolveModel } from "../../../../lib/llm/llm-factory.js";
-import type { ModelConfig } from "../../../../lib/types.js";
 import { readAuthStore } from "../../../utils/auth.js";
+import { toModelConfig } from "../../../utils/model.js";
+import { selectAuthProfile } from "../../../utils/prompts.js";
 import { generateTagSchema } from "./generator.js";
 
 async function loadDefaultDomain(): Promise<string> {
@@ -51,67 +52,20 @@ async function generateTagsCommand(): Promise<void> {
 	try {
 		s.start("Loading auth profiles...");
 		const authStore = await readAuthStore();
-		const authIds = Object.keys(authStore).sort();
-		if (authIds.length === 0) {
-			s.stop("No auth profile found");
-			cancel("No auth profile found. Run: greptor login");
-			return;
-		}
+		s.stop(`Found ${Object.keys(authStore).length} auth profiles`);
 
-		const firstAuthId = authIds[0];
-		if (!firstAuthId) {
-			s.stop("No auth profile found");
-			cancel("No auth profile found. Run: greptor login");
+		const profile = await selectAuthProfile(authStore);
+		if (!profile) {
+			cancel("Cancelled");
 			return;
 		}
-
-		let authId = firstAuthId;
-		if (authIds.length > 1) {
-			s.stop(`Found ${authIds.length} auth profiles`);
-
-			const selected = await select<string>({
-				message: "Select an auth profile:",
-				options: authIds.map((id) => {
-					const auth = authStore[id];
-					return {
-						value: id,
-						label: id,
-						hint: auth ? `${auth.provider} / ${auth.model}` : "",
-					};
-				}),
-			});
-
-			if (isCancel(selected)) {
-				cancel("Cancelled");
-				return;
-			}
-
-			authId = selected;
-			s.start("Using selected auth profile...");
-		}
-
-		const auth = authStore[authId];
-		if (!auth) {
-			s.stop("No auth profile found");
-			cancel("No auth profile found. Run: greptor login");
-			return;
-		}
-		s.stop(`Using auth profile: ${authId} (${auth.provider} / ${auth.model})`);
-
-		const options: Record<string, unknown> = { apiKey: auth.apiKey };
-		if (auth.baseUrl?.trim()) {
-			options.baseURL = auth.baseUrl;
-			options.baseUrl = auth.baseUrl;
-		}
-
-		const modelConfig: ModelConfig = {
-			provider: auth.provider,
-			model: auth.model,
-			options,
-		};
+		const { id: authId, auth } = profile;
+		log.info(
+			`Using auth profile: ${authId} (${auth.provider} / ${auth.model})`,
+		);
 
 		s.start("Resolving model...");
-		const model = await resolveModel(modelConfig);
+		const model = await resolveModel(toModelConfig(auth));
 		s.stop("Model ready");
 
 		s.start("Generating tag schema...");
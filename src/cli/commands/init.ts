@@ -0,0 +1,397 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+	cancel,
+	confirm,
+	intro,
+	isCancel,
+	log,
+	note,
+	outro,
+	select,
+	spinner,
+	text,
+} from "@clack/prompts";
+import { buildCommand } from "@stricli/core";
+import YAML from "yaml";
+import { z } from "zod";
+import {
+	type GreptorConfig,
+	type TagSchema,
+	TagSchemaSchema,
+	getConfigPath,
+	writeConfig,
+} from "../../lib/config.js";
+import { resolveModel } from "../../lib/llm/llm-factory.js";
+import {
+	PROCESSED_DIR_NAME,
+	RAW_DIR_NAME,
+} from "../../lib/storage/file-storage.js";
+import { createDocumentLayout } from "../../lib/storage/layout.js";
+import { fileExists } from "../../lib/utils/file.js";
+import { readAuthStore } from "../utils/auth.js";
+import { toModelConfig } from "../utils/model.js";
+import { editInEditor, selectAuthProfile } from "../utils/prompts.js";
+import { generateSkill } from "./generate/skills/generator.js";
+import type { AgentType } from "./generate/skills/types.js";
+import { generateTagSchema } from "./generate/tags/generator.js";
+
+const STARTER_SCRIPT_NAME = "ingest.ts";
+
+const TAG_SCHEMA_TEMPLATE = `# Tag fields extracted from every chunk, see "Tag Schemas" in the README.
+# Types: string, string[], number, number[], boolean, enum, enum[], date
+- name: company
+  type: string[]
+  description: Companies discussed in the chunk
+  enumValues: null
+- name: sentiment
+  type: enum
+  description: Overall sentiment of the chunk
+  enumValues: [positive, neutral, negative]
+`;
+
+type TagSchemaSource = "generate" | "edit" | "import";
+
+/**
+ * Parses and validates tag schema YAML: a list of fields, a generated
+ * `tags` list (optionally in a code fence) or a whole config.
+ */
+function parseTagSchema(content: string): TagSchema {
+	const yaml = content.replace(
+		/^\s*```(?:ya?ml)?\s*\n([\s\S]*?)\n\s*```\s*$/,
+		"$1",
+	);
+	const parsed: unknown = YAML.parse(yaml);
+	let fields = parsed;
+	if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+		fields =
+			"tagSchema" in parsed
+				? parsed.tagSchema
+				: (parsed as { tags?: unknown }).tags;
+	}
+
+	const result = TagSchemaSchema.safeParse(fields);
+	if (!result.success) {
+		throw new Error(`Invalid tag schema:\n${z.prettifyError(result.error)}`);
+	}
+	return result.data;
+}
+
+/**
+ * Opens the schema in the editor until it is valid. Returns undefined when
+ * the user gives up.
+ */
+async function editTagSchema(content: string): Promise<TagSchema | undefined> {
+	let current = content;
+	for (;;) {
+		current = await editInEditor(current, "tag-schema.yaml");
+		try {
+			return parseTagSchema(current);
+		} catch (error) {
+			log.error(error instanceof Error ? error.message : String(error));
+			const retry = await confirm({ message: "Edit the tag schema again?" });
+			if (isCancel(retry) || !retry) {
+				return undefined;
+			}
+		}
+	}
+}
+
+function renderStarterScript(basePath: string): string {
+	const relativeBasePath = `./${path.relative(".", basePath)}`.replace(
+		/\/$/,
+		"",
+	);
+	return `import { createGreptor, readConfig } from "greptor";
+
+// Adds documents to the workspace. Process them with \`npx greptor run\`.
+const basePath = "${relativeBasePath}";
+const config = await readConfig(basePath);
+if (!config?.model) {
+	throw new Error("Missing workspace config. Run: npx greptor init");
+}
+
+// Credentials come from the provider's environment variables, e.g. OPENAI_API_KEY.
+const { domain, retention, ...options } = config;
+const greptor = await createGreptor({
+	...options,
+	basePath,
+	topic: domain,
+	model: config.model,
+	...(retention ? { retention: { rules: retention } } : {}),
+	// Keep your edits of the config file.
+	writeConfig: false,
+});
+
+// Replace with documents from your fetcher (RSS, Reddit, YouTube, ...).
+const result = await greptor.eat({
+	id: "example-1",
+	format: "text",
+	label: "Example document",
+	source: "example",
+	publisher: "example-author",
+	creationDate: new Date(),
+	content: "Replace this with the text of a real document.",
+});
+console.log(result.message);
+`;
+}
+
+async function initWorkspace(
+	_flags: Record<string, never>,
+	directory = ".",
+): Promise<void> {
+	console.clear();
+	intro("Initialize a Greptor workspace");
+
+	const s = spinner();
+
+	try {
+		const configPath = getConfigPath(directory);
+		if (await fileExists(configPath)) {
+			const overwrite = await confirm({
+				message: `${configPath} already exists. Overwrite it?`,
+				initialValue: false,
+			});
+			if (isCancel(overwrite) || !overwrite) {
+				cancel("Cancelled");
+				return;
+			}
+		}
+
+		// Step 1: Topic
+		const topic = await text({
+			message: "What is the topic of the content?",
+			placeholder:
+				"e.g., Investing, stock market, financial, and macroeconomics",
+			validate: (v) => (!v?.trim() ? "Topic is required" : undefined),
+		});
+		if (isCancel(topic)) {
+			cancel("Cancelled");
+			return;
+		}
+
+		// Step 2: Processing model
+		const profile = await selectAuthProfile(await readAuthStore());
+		if (!profile) {
+			cancel("Cancelled");
+			return;
+		}
+		const { id: authId, auth } = profile;
+		log.info(
+			`Using auth profile: ${authId} (${auth.provider} / ${auth.model})`,
+		);
+
+		// Step 3: Tag schema
+		const schemaSource = await select<TagSchemaSource>({
+			message: "How do you want to create the tag schema?",
+			options: [
+				{
+					value: "generate",
+					label: "Generate",
+					hint: "The model suggests fields for the topic",
+				},
+				{
+					value: "edit",
+					label: "Write",
+					hint: "Start from an example in your editor",
+				},
+				{
+					value: "import",
+					label: "Import",
+					hint: "A YAML file with the fields or a Greptor config",
+				},
+			],
+		});
+		if (isCancel(schemaSource)) {
+			cancel("Cancelled");
+			return;
+		}
+
+		let tagSchema: TagSchema | undefined;
+		if (schemaSource === "generate") {
+			s.start("Generating tag schema...");
+			const model = await resolveModel(toModelConfig(auth));
+			const generated = await generateTagSchema(topic.trim(), model);
+
+			let parsed: TagSchema | undefined;
+			try {
+				parsed = parseTagSchema(generated);
+				s.stop(`Generated ${parsed.length} tag fields`);
+			} catch (error) {
+				s.stop("The generated tag schema is invalid");
+				log.error(error instanceof Error ? error.message : String(error));
+			}
+
+			if (parsed) {
+				note(
+					parsed
+						.map((field) =>
+							field.enumValues?.length
+								? `${field.name} (${field.type}): ${field.enumValues.join(", ")}`
+								: `${field.name} (${field.type})`,
+						)
+						.join("\n"),
+					"Tag schema",
+				);
+
+				const edit = await confirm({
+					message: "Edit the tag schema?",
+					initialValue: false,
+				});
+				if (isCancel(edit)) {
+					cancel("Cancelled");
+					return;
+				}
+				tagSchema = edit ? await editTagSchema(YAML.stringify(parsed)) : parsed;
+			} else {
+				tagSchema = await editTagSchema(generated);
+			}
+		} else if (schemaSource === "edit") {
+			tagSchema = await editTagSchema(TAG_SCHEMA_TEMPLATE);
+		} else {
+			const importPath = await text({
+				message: "Path of the YAML file:",
+				validate: (v) => (!v?.trim() ? "Path is required" : undefined),
+			});
+			if (isCancel(importPath)) {
+				cancel("Cancelled");
+				return;
+			}
+			tagSchema = parseTagSchema(await readFile(importPath.trim(), "utf8"));
+		}
+
+		if (!tagSchema) {
+			cancel("Cancelled");
+			return;
+		}
+
+		// Step 4: Agent skill
+		const agent = await select<AgentType | "none">({
+			message: "Generate a skill for your agent?",
+			options: [
+				{
+					value: "claude-code",
+					label: "Claude Code",
+					hint: "Anthropic Claude Code agent",
+				},
+				{ value: "codex", label: "Codex", hint: "OpenAI Codex CLI agent" },
+				{ value: "opencode", label: "OpenCode", hint: "OpenCode agent" },
+				{
+					value: "none",
+					label: "None",
+					hint: "Later: greptor generate skills",
+				},
+			],
+		});
+		if (isCancel(agent)) {
+			cancel("Cancelled");
+			return;
+		}
+
+		let sources: string[] = [];
+		if (agent !== "none") {
+			const sourceList = await text({
+				message: "Sources you'll ingest (comma-separated):",
+				placeholder: "e.g., reddit, youtube",
+				validate: (v) =>
+					!v?.trim() ? "At least one source is required" : undefined,
+			});
+			if (isCancel(sourceList)) {
+				cancel("Cancelled");
+				return;
+			}
+			sources = sourceList
+				.split(",")
+				.map((source) => source.trim())
+				.filter(Boolean);
+		}
+
+		// Step 5: Starter script
+		const scriptPath = path.resolve(STARTER_SCRIPT_NAME);
+		let writeScript = false;
+		if (await fileExists(scriptPath)) {
+			log.warn(
+				`${STARTER_SCRIPT_NAME} already exists, skipping the starter script`,
+			);
+		} else {
+			const answer = await confirm({
+				message: `Create a starter ingestion script (${STARTER_SCRIPT_NAME})?`,
+			});
+			if (isCancel(answer)) {
+				cancel("Cancelled");
+				return;
+			}
+			writeScript = answer;
+		}
+
+		// Step 6: Write the workspace
+		s.start("Writing workspace...");
+		const config: GreptorConfig = {
+			domain: topic.trim(),
+			tagSchema,
+			model: { provider: auth.provider, model: auth.model },
+		};
+		await writeConfig(directory, config);
+		const rawPath = path.join(directory, RAW_DIR_NAME);
+		const processedPath = path.join(directory, PROCESSED_DIR_NAME);
+		await mkdir(rawPath, { recursive: true });
+		await mkdir(processedPath, { recursive: true });
+		s.stop(`Config written to ${configPath}`);
+
+		const created = [configPath, `${rawPath}/`, `${processedPath}/`];
+		if (writeScript) {
+			await writeFile(scriptPath, renderStarterScript(directory), "utf8");
+			created.push(STARTER_SCRIPT_NAME);
+		}
+
+		if (agent !== "none") {
+			const { skillPath } = await generateSkill({
+				domain: config.domain,
+				sources,
+				basePath: ".",
+				greptorPaths: {
+					configPath,
+					rawContentPath: rawPath,
+					processedContentPath: processedPath,
+				},
+				layout: createDocumentLayout(),
+				tagsSchema: tagSchema,
+				agent,
+			});
+			created.push(path.relative(process.cwd(), skillPath));
+		}
+
+		note(created.join("\n"), "Created");
+		outro(
+			writeScript
+				? `Next: add documents with \`npx tsx ${STARTER_SCRIPT_NAME}\`, then process them with \`greptor run\``
+				: "Next: add documents with createGreptor(), then process them with `greptor run`",
+		);
+	} catch (error) {
+		s.stop("Error");
+		cancel(error instanceof Error ? error.message : String(error));
+	}
+}
+
+export const initCommand = buildCommand({
+	func: initWorkspace,
+	parameters: {
+		flags: {},
+		positional: {
+			kind: "tuple",
+			parameters: [
+				{
+					brief: "Workspace directory (default: current directory)",
+					placeholder: "directory",
+					parse: String,
+					optional: true,
+				},
+			],
+		},
+	},
+	docs: {
+		brief:
+			"Create a workspace: config with topic, model and tag schema, content directories and optional skill",
+	},
+});
@@ -0,0 +1,11 @@
+import { buildRouteMap } from "@stricli/core";
+import { rebuildCommand } from "./rebuild.js";
+
+export const manifestRoutes = buildRouteMap({
+	routes: {
+		rebuild: rebuildCommand,
+	},
+	docs: {
+		brief: "Manage the document manifest",
+	},
+});
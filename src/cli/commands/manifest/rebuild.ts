@@ -0,0 +1,54 @@
+import { cancel, intro, outro, spinner } from "@clack/prompts";
+import { buildCommand } from "@stricli/core";
+import { createProcessingQueue } from "../../../lib/processing/queue.js";
+import { createFileStorage } from "../../../lib/storage/file-storage.js";
+import { findWorkspace } from "../../utils/workspace.js";
+
+async function rebuildManifestCommand(): Promise<void> {
+	intro("Rebuild the document manifest");
+
+	const s = spinner();
+
+	try {
+		const workspace = await findWorkspace();
+		if (!workspace) {
+			cancel("The current directory doesn't contain greptor content.");
+			return;
+		}
+
+		s.start("Indexing raw and processed documents...");
+		const storage = await createFileStorage(workspace.basePath);
+		const count = await storage.rebuildManifest();
+
+		// Dead letters live in the queue, not in the document files.
+		const queue = await createProcessingQueue({ baseDir: workspace.basePath });
+		for (const entry of queue.getDeadLetters()) {
+			await storage.setDocumentStatus(entry.ref, "failed", entry.lastError);
+		}
+		s.stop(`Indexed ${count} documents`);
+
+		const counts = await storage.getDocumentCounts();
+		outro(
+			Object.entries(counts)
+				.map(
+					([source, { fetched, processed }]) =>
+						`${source}: ${processed}/${fetched} processed`,
+				)
+				.join("\n") || "No documents",
+		);
+	} catch (error) {
+		s.stop("Error");
+		cancel(error instanceof Error ? error.message : String(error));
+	}
+}
+
+export const rebuildCommand = buildCommand({
+	func: rebuildManifestCommand,
+	parameters: {
+		flags: {},
+		positional: { kind: "tuple", parameters: [] },
+	},
+	docs: {
+		brief: "Rebuild .greptor/manifest.jsonl from the raw and processed files",
+	},
+});
@@ -0,0 +1,56 @@
+import path from "node:path";
+import { buildCommand } from "@stricli/core";
+import { readConfig } from "../../lib/config.js";
+import { serveJsonRpc } from "../../lib/mcp/protocol.js";
+import { createMcpServer } from "../../lib/mcp/server.js";
+import { createFileStorage } from "../../lib/storage/file-storage.js";
+import { findWorkspace } from "../utils/workspace.js";
+
+/**
+ * Serves MCP over stdio. Stdout carries the protocol, so messages go to
+ * stderr.
+ */
+async function serveMcp(): Promise<void> {
+	try {
+		const workspace = await findWorkspace();
+		if (!workspace) {
+			throw new Error("The current directory doesn't contain greptor content.");
+		}
+
+		const config = await readConfig(workspace.configPath);
+		if (!config) {
+			throw new Error("Invalid configuration");
+		}
+
+		const storage = await createFileStorage(workspace.basePath, {
+			layout: config.layout,
+		});
+		const server = createMcpServer({
+			storage,
+			tagSchema: config.tagSchema,
+			domain: config.domain,
+		});
+
+		process.stderr.write(
+			`Greptor MCP server for ${path.resolve(workspace.basePath)} on stdio\n`,
+		);
+		await serveJsonRpc(server, process.stdin, process.stdout);
+	} catch (error) {
+		process.stderr.write(
+			`${error instanceof Error ? error.message : String(error)}\n`,
+		);
+		process.exitCode = 1;
+	}
+}
+
+export const mcpCommand = buildCommand({
+	func: serveMcp,
+	parameters: {
+		flags: {},
+		positional: { kind: "tuple", parameters: [] },
+	},
+	docs: {
+		brief:
+			"Serve the workspace as Model Context Protocol tools (search, read, list) over stdio",
+	},
+});
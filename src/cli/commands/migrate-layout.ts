@@ -0,0 +1,99 @@
+import { cancel, intro, log, outro, spinner } from "@clack/prompts";
+import { buildCommand } from "@stricli/core";
+import { readConfig, writeConfig } from "../../lib/config.js";
+import { createProcessingQueue } from "../../lib/processing/queue.js";
+import { createFileStorage } from "../../lib/storage/file-storage.js";
+import { createDocumentLayout } from "../../lib/storage/layout.js";
+import { migrateLayout } from "../../lib/storage/migrate-layout.js";
+import { findWorkspace } from "../utils/workspace.js";
+
+interface MigrateLayoutFlags {
+	dryRun?: boolean;
+}
+
+async function relocateDocuments(
+	flags: MigrateLayoutFlags,
+	template: string,
+): Promise<void> {
+	intro("Migrate the document layout");
+
+	const s = spinner();
+
+	try {
+		const workspace = await findWorkspace();
+		if (!workspace) {
+			cancel("The current directory doesn't contain greptor content.");
+			return;
+		}
+
+		const config = await readConfig(workspace.configPath);
+		if (!config) {
+			cancel("Invalid configuration");
+			return;
+		}
+
+		const layout = createDocumentLayout(template);
+
+		s.start(flags.dryRun ? "Planning moves..." : "Moving documents...");
+		const storage = await createFileStorage(workspace.basePath, {
+			layout: layout.template,
+		});
+		const queue = await createProcessingQueue({ baseDir: workspace.basePath });
+		const moves = await migrateLayout({
+			storage,
+			queue,
+			layout,
+			dryRun: flags.dryRun,
+		});
+		s.stop(
+			`${moves.length} documents ${flags.dryRun ? "would move" : "moved"}`,
+		);
+
+		for (const move of moves) {
+			log.info(`${move.from}\n→ ${move.to}`);
+		}
+
+		if (flags.dryRun) {
+			outro("Dry run, nothing was changed.");
+			return;
+		}
+
+		await writeConfig(workspace.basePath, {
+			...config,
+			layout: layout.template,
+		});
+		outro(
+			`Done. Set \`layout: "${layout.template}"\` in the Greptor options so new documents use it too.`,
+		);
+	} catch (error) {
+		s.stop("Error");
+		cancel(error instanceof Error ? error.message : String(error));
+	}
+}
+
+export const migrateLayoutCommand = buildCommand({
+	func: relocateDocuments,
+	parameters: {
+		flags: {
+			dryRun: {
+				kind: "boolean",
+				brief: "List the moves without changing anything",
+				optional: true,
+			},
+		},
+		positional: {
+			kind: "tuple",
+			parameters: [
+				{
+					brief:
+						"New layout template, e.g. '{source}/{yyyy}/{mm}/{dd}/{slug}.md'",
+					placeholder: "layout",
+					parse: String,
+				},
+			],
+		},
+	},
+	docs: {
+		brief: "Move all documents to a new path layout",
+	},
+});
@@ -0,0 +1,44 @@
+import { cancel, intro, log, outro } from "@clack/prompts";
+import { buildCommand } from "@stricli/core";
+import { createProcessingQueue } from "../../../lib/processing/queue.js";
+import { findWorkspace } from "../../utils/workspace.js";
+
+async function listDeadLettersCommand(): Promise<void> {
+	intro("Dead-lettered documents");
+
+	try {
+		const workspace = await findWorkspace();
+		if (!workspace) {
+			cancel("The current directory doesn't contain greptor content.");
+			return;
+		}
+
+		const queue = await createProcessingQueue({ baseDir: workspace.basePath });
+		const deadLetters = queue.getDeadLetters();
+
+		for (const entry of deadLetters) {
+			log.error(
+				`${entry.ref}\n${entry.attempts} attempts, last failed ${entry.failedAt}\n${entry.lastError}`,
+			);
+		}
+
+		outro(
+			deadLetters.length === 0
+				? "No dead-lettered documents"
+				: `${deadLetters.length} dead-lettered documents. Re-queue with: greptor queue requeue`,
+		);
+	} catch (error) {
+		cancel(error instanceof Error ? error.message : String(error));
+	}
+}
+
+export const deadLettersCommand = buildCommand({
+	func: listDeadLettersCommand,
+	parameters: {
+		flags: {},
+		positional: { kind: "tuple", parameters: [] },
+	},
+	docs: {
+		brief: "List documents that failed processing on every retry",
+	},
+});
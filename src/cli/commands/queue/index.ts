@@ -0,0 +1,13 @@
+import { buildRouteMap } from "@stricli/core";
+import { deadLettersCommand } from "./dead-letters.js";
+import { requeueCommand } from "./requeue.js";
+
+export const queueRoutes = buildRouteMap({
+	routes: {
+		"dead-letters": deadLettersCommand,
+		requeue: requeueCommand,
+	},
+	docs: {
+		brief: "Inspect and manage the processing queue",
+	},
+});
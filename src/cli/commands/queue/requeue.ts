@@ -0,0 +1,69 @@
+import { cancel, intro, log, outro } from "@clack/prompts";
+import { buildCommand } from "@stricli/core";
+import { readConfig } from "../../../lib/config.js";
+import { createWorkspaceGreptor } from "../../utils/greptor.js";
+import { resolveWorkspaceModel } from "../../utils/model.js";
+import { findWorkspace } from "../../utils/workspace.js";
+
+async function requeueDeadLettersCommand(
+	_flags: Record<string, never>,
+	...refs: string[]
+): Promise<void> {
+	intro("Re-queue dead-lettered documents");
+
+	try {
+		const workspace = await findWorkspace();
+		if (!workspace) {
+			cancel("The current directory doesn't contain greptor content.");
+			return;
+		}
+
+		const config = await readConfig(workspace.configPath);
+		if (!config) {
+			cancel("Invalid configuration");
+			return;
+		}
+
+		// The model is never called, but the storage layout and lock settings
+		// come from the config like for a running instance.
+		const { model } = await resolveWorkspaceModel(config);
+		const greptor = await createWorkspaceGreptor(workspace, config, { model });
+		const requeued = await greptor.requeueDeadLetters(
+			refs.length > 0 ? refs : undefined,
+		);
+
+		for (const ref of requeued) {
+			log.info(ref);
+		}
+
+		const missing = refs.filter((ref) => !requeued.includes(ref));
+		if (missing.length > 0) {
+			log.warn(`Not in the dead-letter list:\n${missing.join("\n")}`);
+		}
+
+		outro(
+			`${requeued.length} documents re-queued. They are processed on the next greptor start.`,
+		);
+	} catch (error) {
+		cancel(error instanceof Error ? error.message : String(error));
+	}
+}
+
+export const requeueCommand = buildCommand({
+	func: requeueDeadLettersCommand,
+	parameters: {
+		flags: {},
+		positional: {
+			kind: "array",
+			parameter: {
+				brief:
+					"Document refs to re-queue (all dead-lettered documents when omitted)",
+				placeholder: "ref",
+				parse: String,
+			},
+		},
+	},
+	docs: {
+		brief: "Move dead-lettered documents back to the processing queue",
+	},
+});
@@ -0,0 +1,148 @@
+import { cancel, intro, log, outro, spinner } from "@clack/prompts";
+import { buildCommand } from "@stricli/core";
+import { readConfig } from "../../lib/config.js";
+import { createProcessingFingerprint } from "../../lib/processing/fingerprint.js";
+import { createProcessingQueue } from "../../lib/processing/queue.js";
+import { findStaleDocuments } from "../../lib/processing/reprocess.js";
+import { createFileStorage } from "../../lib/storage/file-storage.js";
+import { findWorkspace } from "../utils/workspace.js";
+
+interface ReprocessFlags {
+	source?: string;
+	publisher?: string;
+	from?: Date;
+	to?: Date;
+	all?: boolean;
+	dryRun?: boolean;
+}
+
+function parseDate(value: string): Date {
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(`Invalid date '${value}', expected YYYY-MM-DD`);
+	}
+	return date;
+}
+
+/** Plain dates include the whole day. */
+function parseEndDate(value: string): Date {
+	const date = parseDate(value);
+	if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+		date.setUTCDate(date.getUTCDate() + 1);
+		date.setUTCMilliseconds(-1);
+	}
+	return date;
+}
+
+async function reprocessStaleDocuments(flags: ReprocessFlags): Promise<void> {
+	intro("Reprocess stale documents");
+
+	const s = spinner();
+
+	try {
+		const workspace = await findWorkspace();
+		if (!workspace) {
+			cancel("The current directory doesn't contain greptor content.");
+			return;
+		}
+
+		const config = await readConfig(workspace.configPath);
+		const model = config?.model;
+		if (!config || !model) {
+			cancel(
+				"The config doesn't record the model. Start Greptor once with the current version to update it.",
+			);
+			return;
+		}
+
+		s.start("Looking for stale documents...");
+		const storage = await createFileStorage(workspace.basePath);
+		const stale = await findStaleDocuments({
+			storage,
+			filter: {
+				...(flags.source ? { source: flags.source } : {}),
+				...(flags.publisher ? { publisher: flags.publisher } : {}),
+				...(flags.from ? { from: flags.from } : {}),
+				...(flags.to ? { to: flags.to } : {}),
+				...(flags.all ? { all: true } : {}),
+			},
+			getFingerprint: (source) =>
+				createProcessingFingerprint({
+					domain: config.domain,
+					tagSchema: config.tagSchema,
+					model,
+					outputMode: config.outputMode,
+					customProcessingPrompt: source
+						? config.customProcessingPrompts?.[source]
+						: undefined,
+				}),
+		});
+		s.stop(`Found ${stale.length} stale documents`);
+
+		for (const ref of stale) {
+			log.info(ref);
+		}
+
+		if (flags.dryRun || stale.length === 0) {
+			outro(flags.dryRun ? "Dry run, nothing was queued." : "Nothing to do.");
+			return;
+		}
+
+		const queue = await createProcessingQueue({ baseDir: workspace.basePath });
+		const queued = await queue.enqueueMany(stale);
+
+		outro(
+			`${queued.length} documents queued. They are processed on the next greptor start.`,
+		);
+	} catch (error) {
+		s.stop("Error");
+		cancel(error instanceof Error ? error.message : String(error));
+	}
+}
+
+export const reprocessCommand = buildCommand({
+	func: reprocessStaleDocuments,
+	parameters: {
+		flags: {
+			source: {
+				kind: "parsed",
+				parse: String,
+				brief: "Only documents from this source",
+				optional: true,
+			},
+			publisher: {
+				kind: "parsed",
+				parse: String,
+				brief: "Only documents from this publisher",
+				optional: true,
+			},
+			from: {
+				kind: "parsed",
+				parse: parseDate,
+				brief: "Only documents created on or after this date (YYYY-MM-DD)",
+				optional: true,
+			},
+			to: {
+				kind: "parsed",
+				parse: parseEndDate,
+				brief: "Only documents created on or before this date (YYYY-MM-DD)",
+				optional: true,
+			},
+			all: {
+				kind: "boolean",
+				brief: "Include documents that are up to date",
+				optional: true,
+			},
+			dryRun: {
+				kind: "boolean",
+				brief: "List stale documents without queueing them",
+				optional: true,
+			},
+		},
+		positional: { kind: "tuple", parameters: [] },
+	},
+	docs: {
+		brief:
+			"Re-queue documents processed with an older tag schema, prompt or model",
+	},
+});
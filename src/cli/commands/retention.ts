@@ -0,0 +1,81 @@
+import { cancel, intro, log, outro, spinner } from "@clack/prompts";
+import { buildCommand } from "@stricli/core";
+import { readConfig } from "../../lib/config.js";
+import { createProcessingQueue } from "../../lib/processing/queue.js";
+import { applyRetention } from "../../lib/processing/retention.js";
+import { createFileStorage } from "../../lib/storage/file-storage.js";
+import { findWorkspace } from "../utils/workspace.js";
+
+interface RetentionFlags {
+	dryRun?: boolean;
+}
+
+async function sweepExpiredDocuments(flags: RetentionFlags): Promise<void> {
+	intro(flags.dryRun ? "Retention report" : "Apply retention rules");
+
+	const s = spinner();
+
+	try {
+		const workspace = await findWorkspace();
+		if (!workspace) {
+			cancel("The current directory doesn't contain greptor content.");
+			return;
+		}
+
+		const config = await readConfig(workspace.configPath);
+		const rules = config?.retention;
+		if (!rules || Object.keys(rules).length === 0) {
+			cancel(
+				"The config has no retention rules. Set `retention` in the Greptor options.",
+			);
+			return;
+		}
+
+		s.start("Looking for expired documents...");
+		const storage = await createFileStorage(workspace.basePath);
+		const queue = await createProcessingQueue({ baseDir: workspace.basePath });
+		const report = await applyRetention({
+			storage,
+			queue,
+			rules,
+			dryRun: flags.dryRun,
+		});
+		s.stop(`Found ${report.documents.length} expired documents`);
+
+		for (const document of report.documents) {
+			log.info(
+				`${document.action === "archive" ? "archive" : "delete "}  ${document.ref} (${document.reason}, created ${document.createdAt.slice(0, 10)})`,
+			);
+		}
+
+		if (report.dryRun) {
+			outro("Dry run, nothing was changed.");
+			return;
+		}
+
+		outro(
+			`${report.archived.length} documents archived, ${report.deleted.length} deleted.`,
+		);
+	} catch (error) {
+		s.stop("Error");
+		cancel(error instanceof Error ? error.message : String(error));
+	}
+}
+
+export const retentionCommand = buildCommand({
+	func: sweepExpiredDocuments,
+	parameters: {
+		flags: {
+			dryRun: {
+				kind: "boolean",
+				brief: "List expired documents without archiving or deleting them",
+				optional: true,
+			},
+		},
+		positional: { kind: "tuple", parameters: [] },
+	},
+	docs: {
+		brief:
+			"Archive or delete documents that exceed the retention rules in the config",
+	},
+});
@@ -0,0 +1,191 @@
+import { type FSWatcher, watch } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+import { buildCommand } from "@stricli/core";
+import { readConfig } from "../../lib/config.js";
+import { RAW_DIR_NAME } from "../../lib/storage/file-storage.js";
+import type { GreptorHooks } from "../../lib/types.js";
+import { parsePositiveInteger, parseSeconds } from "../utils/flags.js";
+import { createWorkspaceGreptor } from "../utils/greptor.js";
+import { resolveWorkspaceModel } from "../utils/model.js";
+import { waitForShutdownSignal } from "../utils/signals.js";
+import { findWorkspace } from "../utils/workspace.js";
+
+const DEFAULT_INTERVAL_SECONDS = 300;
+/** Wait for a burst of writes to `raw/` to end before scanning. */
+const WATCH_DEBOUNCE_MS = 1000;
+
+interface RunFlags {
+	auth?: string;
+	workers?: number;
+	interval?: number;
+}
+
+function log(message: string): void {
+	process.stderr.write(`${new Date().toISOString()} ${message}\n`);
+}
+
+const loggingHooks: GreptorHooks = {
+	onDocumentProcessingCompleted: (event) => {
+		if (event.success) {
+			log(
+				`Processed ${event.source}: ${event.label} (${event.totalTokens} tokens, ${(event.elapsedMs / 1000).toFixed(1)}s)`,
+			);
+		} else {
+			log(
+				`Failed ${event.source}: ${event.label} (attempt ${event.attempts}${event.willRetry ? ", will retry" : ", dead-lettered"}): ${event.error}`,
+			);
+		}
+	},
+	onRateLimited: (event) => {
+		log(`Rate limited (${event.reason}), waiting ${event.waitMs}ms`);
+	},
+	onDocumentsRemoved: (event) => {
+		log(`Removed ${event.refs.length} documents`);
+	},
+};
+
+/**
+ * Watches `raw/` for new files. Returns undefined where recursive watching
+ * isn't supported, the interval scans find new files then.
+ */
+async function watchRawFiles(
+	basePath: string,
+	onChange: () => void,
+): Promise<FSWatcher | undefined> {
+	const rawPath = path.join(basePath, RAW_DIR_NAME);
+	try {
+		await mkdir(rawPath, { recursive: true });
+		const watcher = watch(rawPath, { recursive: true }, onChange);
+		watcher.on("error", () => watcher.close());
+		return watcher;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Processes the workspace from its config until SIGINT or SIGTERM: the
+ * backlog first, then raw files added by fetchers, other instances or hand.
+ * Scans run when `raw/` changes and every interval.
+ */
+async function runWorkspace(flags: RunFlags): Promise<void> {
+	try {
+		const workspace = await findWorkspace();
+		if (!workspace) {
+			throw new Error("The current directory doesn't contain greptor content.");
+		}
+
+		const config = await readConfig(workspace.configPath);
+		if (!config) {
+			throw new Error("Invalid configuration");
+		}
+
+		const { model, description } = await resolveWorkspaceModel(
+			config,
+			flags.auth,
+		);
+		const greptor = await createWorkspaceGreptor(workspace, config, {
+			model,
+			workers: flags.workers,
+			hooks: loggingHooks,
+		});
+
+		log(
+			`Processing ${path.resolve(workspace.basePath)} with ${model.provider}/${model.model} via ${description}`,
+		);
+		await greptor.start();
+		log(`${greptor.getQueueSize()} documents in the queue`);
+
+		let scanning = false;
+		/** Set by the watcher, cleared by a scan that lists `raw/`. */
+		let rawChanged = false;
+		let debounce: ReturnType<typeof setTimeout> | undefined;
+		const scan = async (full: boolean) => {
+			if (scanning) return;
+			scanning = true;
+			const rawFiles = full || rawChanged;
+			rawChanged = false;
+			try {
+				const added = await greptor.scan({ rawFiles });
+				if (added.length > 0) {
+					log(`Queued ${added.length} new documents`);
+				}
+			} catch (error) {
+				// Retried on the next change or interval.
+				rawChanged ||= rawFiles;
+				log(
+					`Scan failed: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			} finally {
+				scanning = false;
+			}
+			if (rawChanged) {
+				scheduleScan();
+			}
+		};
+		const scheduleScan = () => {
+			clearTimeout(debounce);
+			debounce = setTimeout(() => void scan(false), WATCH_DEBOUNCE_MS);
+		};
+
+		const watcher = await watchRawFiles(workspace.basePath, () => {
+			rawChanged = true;
+			scheduleScan();
+		});
+		const intervalSeconds = flags.interval ?? DEFAULT_INTERVAL_SECONDS;
+		if (!watcher) {
+			log(
+				`Can't watch ${RAW_DIR_NAME}/, scanning it every ${intervalSeconds} seconds`,
+			);
+		}
+		// Also catches what the watcher misses, e.g. on network filesystems,
+		// and documents eaten by other instances.
+		const timer = setInterval(() => void scan(true), intervalSeconds * 1000);
+
+		const signal = await waitForShutdownSignal();
+		log(`${signal} received, finishing current documents...`);
+		clearInterval(timer);
+		clearTimeout(debounce);
+		watcher?.close();
+		await greptor.stop();
+		log("Stopped");
+	} catch (error) {
+		process.stderr.write(
+			`${error instanceof Error ? error.message : String(error)}\n`,
+		);
+		process.exitCode = 1;
+	}
+}
+
+export const runCommand = buildCommand({
+	func: runWorkspace,
+	parameters: {
+		flags: {
+			auth: {
+				kind: "parsed",
+				parse: String,
+				brief:
+					"Auth profile for the processing model (default: the profile matching the config's model)",
+				optional: true,
+			},
+			workers: {
+				kind: "parsed",
+				parse: parsePositiveInteger,
+				brief: "Number of processing workers (default: the config's workers)",
+				optional: true,
+			},
+			interval: {
+				kind: "parsed",
+				parse: parseSeconds,
+				brief: `Seconds between full scans, new raw files are picked up as they appear (default: ${DEFAULT_INTERVAL_SECONDS})`,
+				optional: true,
+			},
+		},
+		positional: { kind: "tuple", parameters: [] },
+	},
+	docs: {
+		brief:
+			"Process the workspace from its config and keep watching for new raw files until stopped",
+	},
+});
@@ -0,0 +1,222 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { buildCommand } from "@stricli/core";
+import { readConfig } from "../../lib/config.js";
+import { isChunkHeading } from "../../lib/processing/chunks.js";
+import { parseTagFilters, searchChunks } from "../../lib/search/search.js";
+import {
+	PROCESSED_DIR_NAME,
+	createFileStorage,
+} from "../../lib/storage/file-storage.js";
+import type { SearchResult } from "../../lib/types.js";
+import { findWorkspace } from "../utils/workspace.js";
+
+type OutputFormat = "table" | "json" | "jsonl" | "rg";
+
+interface SearchFlags {
+	tag?: string[];
+	not?: string[];
+	text?: string;
+	source?: string;
+	publisher?: string;
+	from?: string;
+	to?: string;
+	limit?: number;
+	format: OutputFormat;
+}
+
+const TITLE_WIDTH = 60;
+
+function parseLimit(value: string): number {
+	const limit = Number(value);
+	if (!Number.isInteger(limit) || limit < 1) {
+		throw new Error(`Invalid limit '${value}', expected a positive integer`);
+	}
+	return limit;
+}
+
+function truncate(value: string, width: number): string {
+	return value.length > width ? `${value.slice(0, width - 1)}…` : value;
+}
+
+function formatTable(results: SearchResult[]): string {
+	const rows = results.map((result) => [
+		result.createdAt.slice(0, 10),
+		`${result.ref}#${String(result.chunk).padStart(2, "0")}`,
+		truncate(result.title, TITLE_WIDTH),
+	]);
+	const header = ["DATE", "CHUNK", "TITLE"];
+	const widths = header.map((title, column) =>
+		Math.max(title.length, ...rows.map((row) => row[column]?.length ?? 0)),
+	);
+
+	return [header, ...rows]
+		.map((row) =>
+			row
+				.map((cell, column) => cell.padEnd(widths[column] ?? 0))
+				.join("  ")
+				.trimEnd(),
+		)
+		.join("\n");
+}
+
+/** `path:line:heading` lines, like `rg -n` prints them. */
+async function formatRgLines(
+	results: SearchResult[],
+	processedPath: string,
+): Promise<string> {
+	const lines: string[] = [];
+	const files = new Map<string, string[]>();
+
+	for (const result of results) {
+		const filePath = path.join(processedPath, result.ref);
+		let fileLines = files.get(filePath);
+		if (!fileLines) {
+			fileLines = (await readFile(filePath, "utf8")).split("\n");
+			files.set(filePath, fileLines);
+		}
+
+		const index = fileLines.findIndex(
+			(line) =>
+				isChunkHeading(line.trim()) &&
+				Number.parseInt(line.trim().replace(/^##\s+/, ""), 10) === result.chunk,
+		);
+		lines.push(
+			`${path.relative(process.cwd(), filePath)}:${index + 1}:${fileLines[index] ?? ""}`,
+		);
+	}
+
+	return lines.join("\n");
+}
+
+async function searchWorkspace(flags: SearchFlags): Promise<void> {
+	try {
+		const workspace = await findWorkspace();
+		if (!workspace) {
+			throw new Error("The current directory doesn't contain greptor content.");
+		}
+
+		const config = await readConfig(workspace.configPath);
+		if (!config) {
+			throw new Error("Invalid configuration");
+		}
+
+		const storage = await createFileStorage(workspace.basePath, {
+			layout: config.layout,
+		});
+		const results = await searchChunks({
+			storage,
+			tagSchema: config.tagSchema,
+			query: {
+				tags: parseTagFilters(flags.tag ?? []),
+				excludeTags: parseTagFilters(flags.not ?? []),
+				...(flags.text ? { text: flags.text } : {}),
+				...(flags.source ? { source: flags.source } : {}),
+				...(flags.publisher ? { publisher: flags.publisher } : {}),
+				...(flags.from ? { from: flags.from } : {}),
+				...(flags.to ? { to: flags.to } : {}),
+				...(flags.limit ? { limit: flags.limit } : {}),
+			},
+		});
+
+		let output: string;
+		switch (flags.format) {
+			case "json":
+				output = JSON.stringify(results, null, 2);
+				break;
+			case "jsonl":
+				output = results.map((result) => JSON.stringify(result)).join("\n");
+				break;
+			case "rg":
+				output = await formatRgLines(
+					results,
+					path.join(workspace.basePath, PROCESSED_DIR_NAME),
+				);
+				break;
+			default:
+				output =
+					results.length === 0
+						? "No matching chunks"
+						: `${formatTable(results)}\n\n${results.length} chunks`;
+		}
+
+		if (output) {
+			process.stdout.write(`${output}\n`);
+		}
+	} catch (error) {
+		// Errors go to stderr, so scripts can parse the output.
+		process.stderr.write(
+			`${error instanceof Error ? error.message : String(error)}\n`,
+		);
+		process.exitCode = 1;
+	}
+}
+
+export const searchCommand = buildCommand({
+	func: searchWorkspace,
+	parameters: {
+		flags: {
+			tag: {
+				kind: "parsed",
+				parse: String,
+				brief:
+					"Tag filter name=value, comma-separated values match any. Repeat to require several tags",
+				variadic: true,
+				optional: true,
+			},
+			not: {
+				kind: "parsed",
+				parse: String,
+				brief: "Exclude chunks with this tag value (name=value). Repeatable",
+				variadic: true,
+				optional: true,
+			},
+			text: {
+				kind: "parsed",
+				parse: String,
+				brief: "Case-insensitive text in the chunk title or content",
+				optional: true,
+			},
+			source: {
+				kind: "parsed",
+				parse: String,
+				brief: "Only documents from this source",
+				optional: true,
+			},
+			publisher: {
+				kind: "parsed",
+				parse: String,
+				brief: "Only documents from this publisher",
+				optional: true,
+			},
+			from: {
+				kind: "parsed",
+				parse: String,
+				brief: "Only documents created on or after this date (e.g. 2025-10)",
+				optional: true,
+			},
+			to: {
+				kind: "parsed",
+				parse: String,
+				brief: "Only documents created on or before this date (e.g. 2025-12)",
+				optional: true,
+			},
+			limit: {
+				kind: "parsed",
+				parse: parseLimit,
+				brief: "Maximum number of chunks (default: 100)",
+				optional: true,
+			},
+			format: {
+				kind: "enum",
+				values: ["table", "json", "jsonl", "rg"],
+				brief: "Output format, rg prints path:line like `rg -n`",
+				default: "table",
+			},
+		},
+		positional: { kind: "tuple", parameters: [] },
+	},
+	docs: {
+		brief: "Search processed chunks by tags, text, source and date",
+	},
+});
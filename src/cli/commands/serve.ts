@@ -0,0 +1,124 @@
+import path from "node:path";
+import { buildCommand } from "@stricli/core";
+import { readConfig } from "../../lib/config.js";
+import { createHookBroadcaster } from "../../lib/server/events.js";
+import { createHttpServer } from "../../lib/server/http.js";
+import { parsePositiveInteger } from "../utils/flags.js";
+import { createWorkspaceGreptor } from "../utils/greptor.js";
+import { resolveWorkspaceModel } from "../utils/model.js";
+import { waitForShutdownSignal } from "../utils/signals.js";
+import { findWorkspace } from "../utils/workspace.js";
+
+const DEFAULT_PORT = 4100;
+const DEFAULT_HOST = "127.0.0.1";
+
+interface ServeFlags {
+	port?: number;
+	host?: string;
+	token?: string;
+	auth?: string;
+	workers?: number;
+}
+
+/**
+ * Serves the HTTP API until SIGINT or SIGTERM. Processing runs in the same
+ * process, so documents posted to the API are processed right away.
+ */
+async function serveWorkspace(flags: ServeFlags): Promise<void> {
+	try {
+		const workspace = await findWorkspace();
+		if (!workspace) {
+			throw new Error("The current directory doesn't contain greptor content.");
+		}
+
+		const config = await readConfig(workspace.configPath);
+		if (!config) {
+			throw new Error("Invalid configuration");
+		}
+
+		const { model, description } = await resolveWorkspaceModel(
+			config,
+			flags.auth,
+		);
+		const events = createHookBroadcaster();
+		const greptor = await createWorkspaceGreptor(workspace, config, {
+			model,
+			workers: flags.workers,
+			hooks: events.hooks,
+		});
+		await greptor.start();
+
+		const token = flags.token ?? process.env.GREPTOR_TOKEN;
+		const server = createHttpServer({ greptor, events, token });
+		const host = flags.host ?? DEFAULT_HOST;
+		const port = flags.port ?? DEFAULT_PORT;
+
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(port, host, () => {
+				server.off("error", reject);
+				resolve();
+			});
+		});
+		process.stderr.write(
+			`Greptor API for ${path.resolve(workspace.basePath)} on http://${host}:${port} (${model.provider}/${model.model} via ${description}${token ? ", token required" : ""})\n`,
+		);
+
+		await waitForShutdownSignal();
+		process.stderr.write("Shutting down...\n");
+		// Event streams never end by themselves.
+		server.closeAllConnections();
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+		await greptor.stop();
+	} catch (error) {
+		process.stderr.write(
+			`${error instanceof Error ? error.message : String(error)}\n`,
+		);
+		process.exitCode = 1;
+	}
+}
+
+export const serveCommand = buildCommand({
+	func: serveWorkspace,
+	parameters: {
+		flags: {
+			port: {
+				kind: "parsed",
+				parse: parsePositiveInteger,
+				brief: `Port to listen on (default: ${DEFAULT_PORT})`,
+				optional: true,
+			},
+			host: {
+				kind: "parsed",
+				parse: String,
+				brief: `Interface to listen on (default: ${DEFAULT_HOST})`,
+				optional: true,
+			},
+			token: {
+				kind: "parsed",
+				parse: String,
+				brief:
+					"Require this bearer token on every request (default: GREPTOR_TOKEN)",
+				optional: true,
+			},
+			auth: {
+				kind: "parsed",
+				parse: String,
+				brief:
+					"Auth profile for the processing model (default: the profile matching the config's model)",
+				optional: true,
+			},
+			workers: {
+				kind: "parsed",
+				parse: parsePositiveInteger,
+				brief: "Number of processing workers",
+				optional: true,
+			},
+		},
+		positional: { kind: "tuple", parameters: [] },
+	},
+	docs: {
+		brief:
+			"Serve an HTTP API to ingest documents, search chunks and stream processing events",
+	},
+});
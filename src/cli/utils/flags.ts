@@ -0,0 +1,21 @@
+export function parsePositiveInteger(value: string): number {
+	const number = Number(value);
+	if (!Number.isInteger(number) || number < 1) {
+		throw new Error(`Invalid value '${value}', expected a positive integer`);
+	}
+	return number;
+}
+
+/** Timers fire right away when the delay doesn't fit in 32 bits. */
+const MAX_TIMER_SECONDS = Math.floor((2 ** 31 - 1) / 1000);
+
+/** A positive number of seconds that fits in a timer. */
+export function parseSeconds(value: string): number {
+	const seconds = parsePositiveInteger(value);
+	if (seconds > MAX_TIMER_SECONDS) {
+		throw new Error(
+			`Invalid value '${value}', expected at most ${MAX_TIMER_SECONDS} seconds`,
+		);
+	}
+	return seconds;
+}
@@ -0,0 +1,46 @@
+import type { GreptorConfig } from "../../lib/config.js";
+import { type Greptor, createGreptor } from "../../lib/greptor.js";
+import type { GreptorHooks, ModelConfig } from "../../lib/types.js";
+import type { Workspace } from "./workspace.js";
+
+export interface WorkspaceGreptorOptions {
+	model: ModelConfig;
+	/** Overrides the config's workers */
+	workers?: number | undefined;
+	hooks?: GreptorHooks | undefined;
+}
+
+/**
+ * Greptor instance for a workspace, configured from its config file. Only
+ * the credentials and hooks come from the caller. The config file is left
+ * as it is.
+ */
+export function createWorkspaceGreptor(
+	workspace: Workspace,
+	config: GreptorConfig,
+	options: WorkspaceGreptorOptions,
+): Promise<Greptor> {
+	const workers = options.workers ?? config.workers;
+	return createGreptor({
+		basePath: workspace.basePath,
+		topic: config.domain,
+		tagSchema: config.tagSchema,
+		model: options.model,
+		writeConfig: false,
+		...(workers ? { workers } : {}),
+		...(options.hooks ? { hooks: options.hooks } : {}),
+		...(config.customProcessingPrompts
+			? { customProcessingPrompts: config.customProcessingPrompts }
+			: {}),
+		...(config.outputMode ? { outputMode: config.outputMode } : {}),
+		...(config.layout ? { layout: config.layout } : {}),
+		...(config.retention ? { retention: { rules: config.retention } } : {}),
+		...(config.retry ? { retry: config.retry } : {}),
+		...(config.rateLimit ? { rateLimit: config.rateLimit } : {}),
+		...(config.maxSegmentTokens
+			? { maxSegmentTokens: config.maxSegmentTokens }
+			: {}),
+		...(config.keepHistory ? { keepHistory: true } : {}),
+		...(config.leaseTtlMs ? { leaseTtlMs: config.leaseTtlMs } : {}),
+	});
+}
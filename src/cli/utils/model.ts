@@ -0,0 +1,74 @@
+import type { GreptorConfig } from "../../lib/config.js";
+import type { ModelConfig } from "../../lib/types.js";
+import type { AuthEntry } from "../types.js";
+import { readAuthStore } from "./auth.js";
+
+/** Model config with the credentials of an auth profile. */
+export function toModelConfig(auth: AuthEntry): ModelConfig {
+	const options: Record<string, unknown> = { apiKey: auth.apiKey };
+	if (auth.baseUrl?.trim()) {
+		options.baseURL = auth.baseUrl;
+		options.baseUrl = auth.baseUrl;
+	}
+
+	return {
+		provider: auth.provider,
+		model: auth.model,
+		options,
+	};
+}
+
+/**
+ * Model for long-running commands: the given auth profile, else the profile
+ * matching the config's model, else the config's model with credentials
+ * from the provider's environment variables, else the first profile.
+ */
+export async function resolveWorkspaceModel(
+	config: GreptorConfig,
+	authId?: string,
+): Promise<{ model: ModelConfig; description: string }> {
+	const authStore = await readAuthStore();
+
+	if (authId) {
+		const auth = authStore[authId];
+		if (!auth) {
+			throw new Error(`Unknown auth profile '${authId}'. Run: greptor login`);
+		}
+		return {
+			model: toModelConfig(auth),
+			description: `auth profile ${authId}`,
+		};
+	}
+
+	const configured = config.model;
+	if (configured) {
+		const match = Object.entries(authStore).find(
+			([, auth]) =>
+				auth.provider === configured.provider &&
+				auth.model === configured.model,
+		);
+		if (match) {
+			return {
+				model: toModelConfig(match[1]),
+				description: `auth profile ${match[0]}`,
+			};
+		}
+		return {
+			model: { provider: configured.provider, model: configured.model },
+			description: "provider environment variables",
+		};
+	}
+
+	const [first] = Object.entries(authStore).sort(([a], [b]) =>
+		a.localeCompare(b),
+	);
+	if (!first) {
+		throw new Error(
+			"The config has no model and there is no auth profile. Run: greptor login",
+		);
+	}
+	return {
+		model: toModelConfig(first[1]),
+		description: `auth profile ${first[0]}`,
+	};
+}
@@ -0,0 +1,71 @@
+import { spawnSync } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { isCancel, select } from "@clack/prompts";
+import type { AuthEntry, AuthStore } from "../types.js";
+
+/**
+ * Lets the user pick an auth profile, without asking when there is only one.
+ * Returns undefined when cancelled.
+ */
+export async function selectAuthProfile(
+	authStore: AuthStore,
+): Promise<{ id: string; auth: AuthEntry } | undefined> {
+	const authIds = Object.keys(authStore).sort();
+	const [firstAuthId] = authIds;
+	if (!firstAuthId) {
+		throw new Error("No auth profile found. Run: greptor login");
+	}
+
+	let authId = firstAuthId;
+	if (authIds.length > 1) {
+		const selected = await select<string>({
+			message: "Select an auth profile:",
+			options: authIds.map((id) => {
+				const auth = authStore[id];
+				return {
+					value: id,
+					label: id,
+					hint: auth ? `${auth.provider} / ${auth.model}` : "",
+				};
+			}),
+		});
+
+		if (isCancel(selected)) {
+			return undefined;
+		}
+		authId = selected;
+	}
+
+	const auth = authStore[authId];
+	if (!auth) {
+		throw new Error("No auth profile found. Run: greptor login");
+	}
+	return { id: authId, auth };
+}
+
+/** Opens the text in `$VISUAL` or `$EDITOR` (vi otherwise) and returns the result. */
+export async function editInEditor(
+	content: string,
+	fileName = "greptor.yaml",
+): Promise<string> {
+	const dir = await mkdtemp(path.join(tmpdir(), "greptor-"));
+	const filePath = path.join(dir, fileName);
+
+	try {
+		await writeFile(filePath, content, "utf8");
+		const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+		// Through the shell, so editors with arguments like `code --wait` work.
+		const result = spawnSync(`${editor} "${filePath}"`, {
+			shell: true,
+			stdio: "inherit",
+		});
+		if (result.error || result.status !== 0) {
+			throw new Error(`Editor '${editor}' exited with an error`);
+		}
+		return await readFile(filePath, "utf8");
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
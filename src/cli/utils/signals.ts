@@ -0,0 +1,12 @@
+/** Resolves on the first SIGINT or SIGTERM. */
+export function waitForShutdownSignal(): Promise<NodeJS.Signals> {
+	return new Promise((resolve) => {
+		const shutdown = (signal: NodeJS.Signals) => {
+			process.off("SIGINT", shutdown);
+			process.off("SIGTERM", shutdown);
+			resolve(signal);
+		};
+		process.on("SIGINT", shutdown);
+		process.on("SIGTERM", shutdown);
+	});
+}
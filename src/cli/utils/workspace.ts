@@ -0,0 +1,28 @@
+import path from "node:path";
+import { findConfigFile } from "../../lib/config.js";
+
+export interface Workspace {
+	/** Greptor base path holding `.greptor/`, `raw/` and `processed/` */
+	basePath: string;
+	configPath: string;
+}
+
+/**
+ * Locates the Greptor workspace in or below the current directory.
+ */
+export async function findWorkspace(): Promise<Workspace | undefined> {
+	const configPath = await findConfigFile(".");
+	if (!configPath) {
+		return undefined;
+	}
+
+	// A pre-0.7 config sits in the base path itself.
+	const configDir = path.dirname(configPath);
+	return {
+		basePath:
+			path.basename(configDir) === ".greptor"
+				? path.dirname(configDir)
+				: configDir,
+		configPath,
+	};
+}
@@ -1,7 +1,17 @@
-import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import { readFile, readdir } from "node:fs/promises";
 import path from "node:path";
 import YAML from "yaml";
 import { z } from "zod";
+import type { StorageBackend } from "./storage/backend.js";
+import { createFsStorageBackend } from "./storage/fs-backend.js";
+import type {
+	GreptorOptions,
+	ModelConfig,
+	OutputMode,
+	RateLimitOptions,
+	RetentionRules,
+	RetryOptions,
+} from "./types.js";
 import { fileExists } from "./utils/file.js";
 
 export const TagFieldSchema = z.object({
@@ -25,42 +35,471 @@ export const TagFieldSchema = z.object({
 		.describe("Full list of enum values for enum types."),
 });
 
+export const TagSchemaSchema = z
+	.array(TagFieldSchema.strict())
+	.min(1, "At least one tag field is required");
+
 export type TagSchemaItem = z.infer<typeof TagFieldSchema>;
 export type TagSchema = TagSchemaItem[];
 
+/** Version of the config format written by this release. */
+export const CONFIG_VERSION = 1;
+
 export interface GreptorConfig {
+	/** Config format version, set by {@link writeConfig} */
+	version?: number;
 	domain: string;
 	tagSchema: TagSchema;
 	customProcessingPrompts?: Record<string, string>;
+	/** Provider and model ID only, provider options may hold secrets */
+	model?: Pick<ModelConfig, "provider" | "model">;
+	outputMode?: OutputMode;
+	retention?: RetentionRules;
+	/** Path template of the documents */
+	layout?: string;
+	workers?: number;
+	retry?: RetryOptions;
+	rateLimit?: RateLimitOptions;
+	maxSegmentTokens?: number;
+	keepHistory?: boolean;
+	leaseTtlMs?: number;
+}
+
+const positiveInteger = z.number().int().positive();
+const nonNegative = z.number().nonnegative();
+
+/** Timers fire right away when the delay doesn't fit in 32 bits. */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const RetentionRulesSchema = z.record(
+	z.string(),
+	z.strictObject({
+		maxAgeDays: z.number().positive().optional(),
+		maxDocumentsPerPublisher: positiveInteger.optional(),
+		action: z.enum(["archive", "delete"]).optional(),
+	}),
+);
+
+/** Options stored the same way in the config and in {@link GreptorOptions}. */
+const sharedOptionsShape = {
+	tagSchema: TagSchemaSchema,
+	customProcessingPrompts: z.record(z.string(), z.string()).optional(),
+	outputMode: z.enum(["text", "structured"]).optional(),
+	layout: z.string().min(1).optional(),
+	workers: positiveInteger.optional(),
+	retry: z
+		.strictObject({
+			maxAttempts: positiveInteger.optional(),
+			baseDelayMs: nonNegative.optional(),
+			maxDelayMs: nonNegative.optional(),
+		})
+		.optional(),
+	rateLimit: z
+		.strictObject({
+			requestsPerMinute: z.number().positive().optional(),
+			tokensPerMinute: z.number().positive().optional(),
+			maxRetries: z.number().int().nonnegative().optional(),
+			baseDelayMs: nonNegative.optional(),
+			maxDelayMs: nonNegative.optional(),
+		})
+		.optional(),
+	maxSegmentTokens: positiveInteger.optional(),
+	keepHistory: z.boolean().optional(),
+	leaseTtlMs: positiveInteger.optional(),
+};
+
+export const GreptorConfigSchema = z.strictObject({
+	version: z.literal(CONFIG_VERSION),
+	domain: z.string().trim().min(1, "The domain is required"),
+	model: z
+		.strictObject({ provider: z.string().min(1), model: z.string().min(1) })
+		.optional(),
+	retention: RetentionRulesSchema.optional(),
+	...sharedOptionsShape,
+});
+
+/**
+ * The serializable part of {@link GreptorOptions}. Storage, hooks and
+ * provider options are checked where they are used.
+ */
+const GreptorOptionsSchema = z.object({
+	topic: z.string().trim().min(1, "The topic is required"),
+	model: z.object({ provider: z.string().min(1), model: z.string().min(1) }),
+	retention: z
+		.strictObject({
+			rules: RetentionRulesSchema,
+			sweepIntervalMs: z
+				.number()
+				.int()
+				.min(0)
+				.max(MAX_TIMER_DELAY_MS, "At most 2147483647 ms (about 24.8 days)")
+				.optional(),
+		})
+		.optional(),
+	...sharedOptionsShape,
+});
+
+type ConfigData = Record<string, unknown>;
+
+/**
+ * Upgrades by the version they start from. Configs written before
+ * versioning are version 0.
+ */
+const CONFIG_MIGRATIONS: Record<number, (config: ConfigData) => ConfigData> = {
+	0: (config) => ({ ...config, version: 1 }),
+};
+
+/** A problem in a config file, located in the YAML source when possible. */
+export interface ConfigIssue {
+	/** Path of the value, e.g. `tagSchema[2].type` */
+	path: string;
+	message: string;
+	line?: number;
+	column?: number;
 }
 
+export type ConfigError = Error & { file: string; issues: ConfigIssue[] };
+
+export type ConfigValidationResult =
+	| {
+			success: true;
+			config: GreptorConfig;
+			/** Versions the config was upgraded from, oldest first */
+			migratedFrom: number[];
+	  }
+	| { success: false; issues: ConfigIssue[] };
+
 export function getConfigPath(baseDir: string): string {
 	return path.join(baseDir, ".greptor", "config.yaml");
 }
 
+/** Storage key of the config file. */
+export const CONFIG_KEY = ".greptor/config.yaml";
+
+/** Location of the config before 0.7, directly in the base directory. */
+export const LEGACY_CONFIG_KEY = "config.yaml";
+
+function formatIssuePath(segments: PropertyKey[]): string {
+	return segments
+		.map((segment, index) =>
+			typeof segment === "number"
+				? `[${segment}]`
+				: `${index === 0 ? "" : "."}${String(segment)}`,
+		)
+		.join("");
+}
+
+/**
+ * Offset of the value at the path, or of its key for `key: true`. Falls
+ * back to the closest parent that exists, e.g. for missing fields.
+ */
+function findOffset(
+	document: YAML.Document,
+	segments: PropertyKey[],
+	key = false,
+): number | undefined {
+	let node: unknown = document.contents;
+	let offset = YAML.isNode(node) ? node.range?.[0] : undefined;
+
+	for (const [index, segment] of segments.entries()) {
+		let next: unknown;
+		let keyNode: unknown;
+		if (YAML.isMap(node)) {
+			const pair = node.items.find(
+				(item) => YAML.isScalar(item.key) && item.key.value === segment,
+			);
+			next = pair?.value;
+			keyNode = pair?.key;
+		} else if (YAML.isSeq(node) && typeof segment === "number") {
+			next = node.items[segment];
+		} else {
+			break;
+		}
+
+		const target = key && index === segments.length - 1 ? keyNode : next;
+		if (!YAML.isNode(target) && !YAML.isNode(keyNode)) {
+			break;
+		}
+		offset = YAML.isNode(target)
+			? target.range?.[0]
+			: (keyNode as YAML.Node).range?.[0];
+		node = next;
+	}
+
+	return offset;
+}
+
+/** One issue per problem, and per unknown field. */
+function toConfigIssues(
+	error: z.ZodError,
+	locate: (
+		segments: PropertyKey[],
+		key: boolean,
+	) => { line?: number; column?: number } = () => ({}),
+): ConfigIssue[] {
+	return error.issues.flatMap((issue): ConfigIssue[] => {
+		if (issue.code === "unrecognized_keys") {
+			return issue.keys.map((key) => ({
+				path: formatIssuePath([...issue.path, key]),
+				message: "Unknown field",
+				...locate([...issue.path, key], true),
+			}));
+		}
+		return [
+			{
+				path: formatIssuePath(issue.path),
+				message: issue.message,
+				...locate(issue.path, false),
+			},
+		];
+	});
+}
+
+/** Brings config data written by older versions to {@link CONFIG_VERSION}. */
+export function migrateConfig(data: ConfigData): {
+	data: ConfigData;
+	migratedFrom: number[];
+} {
+	const migratedFrom: number[] = [];
+	let current = data;
+	let version = typeof current.version === "number" ? current.version : 0;
+
+	while (version < CONFIG_VERSION) {
+		const migrate = CONFIG_MIGRATIONS[version];
+		if (!migrate) break;
+		current = migrate(current);
+		migratedFrom.push(version);
+		version = current.version as number;
+	}
+
+	return { data: current, migratedFrom };
+}
+
+/**
+ * Parses, migrates and validates config YAML. Issues point to the line and
+ * column of the offending value.
+ */
+export function validateConfig(content: string): ConfigValidationResult {
+	const lineCounter = new YAML.LineCounter();
+	const document = YAML.parseDocument(content, { lineCounter });
+	const locate = (offset: number | undefined) => {
+		if (offset === undefined) return {};
+		const { line, col } = lineCounter.linePos(offset);
+		return { line, column: col };
+	};
+
+	if (document.errors.length > 0) {
+		return {
+			success: false,
+			issues: document.errors.map((error) => ({
+				path: "",
+				message: (error.message.split("\n")[0] ?? error.message).replace(
+					/ at line \d+, column \d+:?$/,
+					"",
+				),
+				...locate(error.pos[0]),
+			})),
+		};
+	}
+
+	const data: unknown = document.toJS();
+	if (!data || typeof data !== "object" || Array.isArray(data)) {
+		return {
+			success: false,
+			issues: [{ path: "", message: "The config must be a YAML mapping" }],
+		};
+	}
+
+	const version = (data as ConfigData).version;
+	if (typeof version === "number" && version > CONFIG_VERSION) {
+		return {
+			success: false,
+			issues: [
+				{
+					path: "version",
+					message: `Version ${version} is newer than this Greptor supports (${CONFIG_VERSION}). Update greptor.`,
+					...locate(findOffset(document, ["version"])),
+				},
+			],
+		};
+	}
+
+	const { data: migrated, migratedFrom } = migrateConfig(data as ConfigData);
+	const result = GreptorConfigSchema.safeParse(migrated);
+	if (!result.success) {
+		return {
+			success: false,
+			issues: toConfigIssues(result.error, (segments, key) =>
+				locate(findOffset(document, segments, key)),
+			),
+		};
+	}
+
+	return {
+		success: true,
+		config: result.data as GreptorConfig,
+		migratedFrom,
+	};
+}
+
+export function formatConfigIssues(
+	file: string,
+	issues: ConfigIssue[],
+): string {
+	return issues
+		.map((issue) => {
+			const location =
+				issue.line === undefined
+					? file
+					: `${file}:${issue.line}:${issue.column ?? 1}`;
+			return `${location} ${issue.path ? `${issue.path}: ` : ""}${issue.message}`;
+		})
+		.join("\n");
+}
+
+function createConfigError(file: string, issues: ConfigIssue[]): ConfigError {
+	return Object.assign(
+		new Error(`Invalid Greptor config:\n${formatConfigIssues(file, issues)}`),
+		{ file, issues },
+	);
+}
+
+export type OptionsError = Error & { issues: ConfigIssue[] };
+
+/**
+ * Validates the options of `createGreptor` like a config file, throwing an
+ * {@link OptionsError} with paths such as `tagSchema[0].type`.
+ */
+export function validateGreptorOptions(options: GreptorOptions): void {
+	const result = GreptorOptionsSchema.safeParse(options);
+	if (result.success) {
+		return;
+	}
+
+	const issues = toConfigIssues(result.error);
+	throw Object.assign(
+		new Error(
+			`Invalid Greptor options:\n${issues
+				.map(
+					(issue) => `${issue.path ? `${issue.path}: ` : ""}${issue.message}`,
+				)
+				.join("\n")}`,
+		),
+		{ issues },
+	);
+}
+
+/** Parses and validates a config file, throwing a {@link ConfigError}. */
+export function parseConfig(content: string, file: string): GreptorConfig {
+	const result = validateConfig(content);
+	if (!result.success) {
+		throw createConfigError(file, result.issues);
+	}
+	return result.config;
+}
+
+/** Whether YAML content looks like a Greptor config, e.g. a pre-0.7 `config.yaml`. */
+function isGreptorConfig(content: string): boolean {
+	try {
+		const data: unknown = YAML.parse(content);
+		return (
+			typeof data === "object" &&
+			data !== null &&
+			"domain" in data &&
+			"tagSchema" in data
+		);
+	} catch {
+		return false;
+	}
+}
+
+/** Validates the config and writes it at the current version. */
 export async function writeConfig(
-	baseDir: string,
+	baseDirOrBackend: string | StorageBackend,
 	config: GreptorConfig,
 ): Promise<void> {
-	const configPath = getConfigPath(baseDir);
-	await mkdir(path.dirname(configPath), { recursive: true });
-	await writeFile(configPath, YAML.stringify(config), "utf8");
+	const backend =
+		typeof baseDirOrBackend === "string"
+			? createFsStorageBackend(baseDirOrBackend)
+			: baseDirOrBackend;
+	const { version: _, ...rest } = config;
+	const content = YAML.stringify({ version: CONFIG_VERSION, ...rest });
+	parseConfig(content, CONFIG_KEY);
+	await backend.write(CONFIG_KEY, content);
 }
 
+/**
+ * Reads and validates a config file, or the config of a base directory.
+ * Configs of older versions are migrated in memory, including a pre-0.7
+ * config in the base directory itself. Returns null when there is none.
+ */
 export async function readConfig(
 	configPathOrBaseDir: string,
 ): Promise<GreptorConfig | null> {
-	const configPath = configPathOrBaseDir.endsWith(".yaml")
-		? configPathOrBaseDir
-		: getConfigPath(configPathOrBaseDir);
+	if (configPathOrBaseDir.endsWith(".yaml")) {
+		if (!(await fileExists(configPathOrBaseDir))) {
+			return null;
+		}
+		return parseConfig(
+			await readFile(configPathOrBaseDir, "utf8"),
+			configPathOrBaseDir,
+		);
+	}
 
-	if (!(await fileExists(configPath))) {
-		return null;
+	const backend = createFsStorageBackend(configPathOrBaseDir);
+	const content = await backend.read(CONFIG_KEY);
+	if (content !== undefined) {
+		return parseConfig(content, getConfigPath(configPathOrBaseDir));
 	}
 
-	return YAML.parse(await readFile(configPath, "utf8")) as GreptorConfig;
+	const legacy = await backend.read(LEGACY_CONFIG_KEY);
+	if (legacy !== undefined && isGreptorConfig(legacy)) {
+		return parseConfig(
+			legacy,
+			path.join(configPathOrBaseDir, LEGACY_CONFIG_KEY),
+		);
+	}
+	return null;
 }
 
+/**
+ * Applies pending config migrations to the stored file: moves a pre-0.7
+ * config to `.greptor/` and upgrades older versions. Returns what was done.
+ * Note that rewriting the file drops YAML comments.
+ */
+export async function migrateConfigFile(
+	backend: StorageBackend,
+): Promise<string[]> {
+	const content = await backend.read(CONFIG_KEY);
+	if (content === undefined) {
+		const legacy = await backend.read(LEGACY_CONFIG_KEY);
+		if (legacy === undefined || !isGreptorConfig(legacy)) {
+			return [];
+		}
+
+		await writeConfig(backend, parseConfig(legacy, LEGACY_CONFIG_KEY));
+		await backend.remove(LEGACY_CONFIG_KEY);
+		return [`Moved ${LEGACY_CONFIG_KEY} to ${CONFIG_KEY}`];
+	}
+
+	const result = validateConfig(content);
+	if (!result.success) {
+		throw createConfigError(CONFIG_KEY, result.issues);
+	}
+	if (result.migratedFrom.length === 0) {
+		return [];
+	}
+
+	await writeConfig(backend, result.config);
+	return [
+		`Upgraded ${CONFIG_KEY} from version ${result.migratedFrom[0]} to ${CONFIG_VERSION}`,
+	];
+}
+
+/**
+ * Finds the config of the nearest workspace in or below `baseDir`: the
+ * `.greptor/config.yaml`, or a pre-0.7 `config.yaml` in the base directory.
+ */
 export async function findConfigFile(
 	baseDir: string,
 ): Promise<string | undefined> {
@@ -87,6 +526,17 @@ export async function findConfigFile(
 					queue.push(fullPath);
 				}
 			}
+
+			if (
+				entries.some(
+					(entry) => entry.isFile() && entry.name === LEGACY_CONFIG_KEY,
+				)
+			) {
+				const legacyPath = path.join(current, LEGACY_CONFIG_KEY);
+				if (isGreptorConfig(await readFile(legacyPath, "utf8"))) {
+					return legacyPath;
+				}
+			}
 		} catch {}
 	}
 
@@ -0,0 +1,641 @@
+interface HtmlElement {
+	type: "element";
+	tag: string;
+	attrs: Record<string, string>;
+	children: HtmlNode[];
+	parent?: HtmlElement;
+	/** Set on ancestors of the main content, which are never dropped */
+	holdsContent?: boolean;
+}
+
+interface HtmlText {
+	type: "text";
+	value: string;
+}
+
+type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_TAGS = new Set([
+	"area",
+	"base",
+	"br",
+	"col",
+	"embed",
+	"hr",
+	"img",
+	"input",
+	"link",
+	"meta",
+	"source",
+	"track",
+	"wbr",
+]);
+
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+
+const BLOCK_TAGS = new Set([
+	"address",
+	"article",
+	"aside",
+	"blockquote",
+	"body",
+	"dd",
+	"details",
+	"div",
+	"dl",
+	"dt",
+	"fieldset",
+	"figcaption",
+	"figure",
+	"footer",
+	"h1",
+	"h2",
+	"h3",
+	"h4",
+	"h5",
+	"h6",
+	"header",
+	"hr",
+	"html",
+	"li",
+	"main",
+	"nav",
+	"ol",
+	"p",
+	"pre",
+	"section",
+	"summary",
+	"table",
+	"tbody",
+	"td",
+	"tfoot",
+	"th",
+	"thead",
+	"tr",
+	"ul",
+]);
+
+/** Opening one of these tags implicitly closes the listed open tags. */
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+	li: ["li"],
+	dt: ["dt", "dd"],
+	dd: ["dt", "dd"],
+	tr: ["tr", "td", "th"],
+	td: ["td", "th"],
+	th: ["td", "th"],
+	tbody: ["tbody", "thead", "tr", "td", "th"],
+	tfoot: ["tbody", "thead", "tr", "td", "th"],
+	option: ["option"],
+};
+
+/** Elements that never carry article content. */
+const BOILERPLATE_TAGS = new Set([
+	"aside",
+	"button",
+	"canvas",
+	"dialog",
+	"embed",
+	"footer",
+	"form",
+	"head",
+	"iframe",
+	"input",
+	"nav",
+	"noscript",
+	"object",
+	"script",
+	"select",
+	"style",
+	"svg",
+	"template",
+	"textarea",
+]);
+
+const BOILERPLATE_ROLES = new Set([
+	"banner",
+	"complementary",
+	"contentinfo",
+	"dialog",
+	"navigation",
+	"search",
+]);
+
+/** Class and id names of page chrome, matched against whole tokens. */
+const BOILERPLATE_NAMES = new Set([
+	"ad",
+	"ads",
+	"advert",
+	"advertisement",
+	"breadcrumb",
+	"breadcrumbs",
+	"consent",
+	"cookie-banner",
+	"cookie-consent",
+	"cookies",
+	"footer",
+	"menu",
+	"modal",
+	"nav",
+	"navbar",
+	"navigation",
+	"newsletter",
+	"popup",
+	"promo",
+	"share",
+	"share-buttons",
+	"sidebar",
+	"site-footer",
+	"site-header",
+	"site-nav",
+	"social",
+	"social-share",
+	"sponsor",
+	"subscribe",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+	mdash: "—",
+	ndash: "–",
+	hellip: "…",
+	lsquo: "‘",
+	rsquo: "’",
+	ldquo: "“",
+	rdquo: "”",
+	laquo: "«",
+	raquo: "»",
+	bull: "•",
+	middot: "·",
+	copy: "©",
+	reg: "®",
+	trade: "™",
+	euro: "€",
+	pound: "£",
+	yen: "¥",
+	cent: "¢",
+	deg: "°",
+	times: "×",
+	divide: "÷",
+	plusmn: "±",
+	frac12: "½",
+	frac14: "¼",
+	frac34: "¾",
+};
+
+function decodeEntities(text: string): string {
+	return text.replace(
+		/&(#x[0-9a-f]+|#[0-9]+|[a-z][a-z0-9]*);/gi,
+		(match, entity: string) => {
+			if (entity.startsWith("#")) {
+				const codePoint =
+					entity[1] === "x" || entity[1] === "X"
+						? Number.parseInt(entity.slice(2), 16)
+						: Number.parseInt(entity.slice(1), 10);
+				try {
+					return String.fromCodePoint(codePoint);
+				} catch {
+					return match;
+				}
+			}
+
+			return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+		},
+	);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+	const attrs: Record<string, string> = {};
+	const pattern =
+		/([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+	for (const match of source.matchAll(pattern)) {
+		const name = match[1]?.toLowerCase();
+		if (!name) continue;
+		attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+	}
+
+	return attrs;
+}
+
+function parseHtml(html: string): HtmlElement {
+	const root: HtmlElement = {
+		type: "element",
+		tag: "#root",
+		attrs: {},
+		children: [],
+	};
+	const stack: HtmlElement[] = [root];
+	const openTagPattern =
+		/^<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/;
+	const closeTagPattern = /^<\/([a-zA-Z][\w:-]*)\s*>/;
+
+	const current = (): HtmlElement => stack[stack.length - 1] ?? root;
+
+	const appendText = (value: string) => {
+		if (!value) return;
+		current().children.push({ type: "text", value: decodeEntities(value) });
+	};
+
+	const closeTag = (tag: string) => {
+		for (let i = stack.length - 1; i > 0; i--) {
+			if (stack[i]?.tag === tag) {
+				stack.length = i;
+				return;
+			}
+		}
+	};
+
+	let pos = 0;
+	while (pos < html.length) {
+		const next = html.indexOf("<", pos);
+		if (next === -1) {
+			appendText(html.slice(pos));
+			break;
+		}
+
+		appendText(html.slice(pos, next));
+		const rest = html.slice(next);
+
+		if (rest.startsWith("<!--")) {
+			const end = html.indexOf("-->", next + 4);
+			pos = end === -1 ? html.length : end + 3;
+			continue;
+		}
+
+		if (rest.startsWith("<!") || rest.startsWith("<?")) {
+			const end = html.indexOf(">", next);
+			pos = end === -1 ? html.length : end + 1;
+			continue;
+		}
+
+		const close = closeTagPattern.exec(rest);
+		if (close?.[1]) {
+			closeTag(close[1].toLowerCase());
+			pos = next + close[0].length;
+			continue;
+		}
+
+		const open = openTagPattern.exec(rest);
+		if (!open?.[1]) {
+			appendText("<");
+			pos = next + 1;
+			continue;
+		}
+
+		const tag = open[1].toLowerCase();
+		pos = next + open[0].length;
+
+		const impliedEnds = IMPLIED_END_TAGS[tag];
+		while (impliedEnds?.includes(current().tag)) {
+			stack.pop();
+		}
+		if (BLOCK_TAGS.has(tag) && current().tag === "p") {
+			stack.pop();
+		}
+
+		const element: HtmlElement = {
+			type: "element",
+			tag,
+			attrs: parseAttributes(open[2] ?? ""),
+			children: [],
+			parent: current(),
+		};
+		current().children.push(element);
+
+		if (RAW_TEXT_TAGS.has(tag)) {
+			const endPattern = new RegExp(`</${tag}\\s*>`, "i");
+			const endMatch = endPattern.exec(html.slice(pos));
+			const end = endMatch ? pos + endMatch.index : html.length;
+			element.children.push({ type: "text", value: html.slice(pos, end) });
+			pos = endMatch ? end + endMatch[0].length : html.length;
+			continue;
+		}
+
+		if (!VOID_TAGS.has(tag) && open[3] !== "/") {
+			stack.push(element);
+		}
+	}
+
+	return root;
+}
+
+function isBoilerplate(el: HtmlElement): boolean {
+	if (el.holdsContent) return false;
+	if (BOILERPLATE_TAGS.has(el.tag)) return true;
+	if ("hidden" in el.attrs || el.attrs["aria-hidden"] === "true") return true;
+	if (/display\s*:\s*none/i.test(el.attrs.style ?? "")) return true;
+
+	const role = el.attrs.role?.toLowerCase();
+	if (role && BOILERPLATE_ROLES.has(role)) return true;
+
+	if (el.tag === "header" && !hasAncestor(el, ["article", "main"])) {
+		return true;
+	}
+
+	// Only apply the class/id heuristic to containers; an inline link
+	// with `class="share"` inside an article is not page chrome.
+	if (BLOCK_TAGS.has(el.tag) || el.tag === "span") {
+		const names = `${el.attrs.class ?? ""} ${el.attrs.id ?? ""}`;
+		return names
+			.toLowerCase()
+			.split(/\s+/)
+			.some((name) => BOILERPLATE_NAMES.has(name));
+	}
+
+	return false;
+}
+
+function hasAncestor(el: HtmlElement, tags: string[]): boolean {
+	let parent = el.parent;
+	while (parent) {
+		if (tags.includes(parent.tag)) return true;
+		parent = parent.parent;
+	}
+	return false;
+}
+
+function findAll(el: HtmlElement, tag: string): HtmlElement[] {
+	const found: HtmlElement[] = [];
+	for (const child of el.children) {
+		if (child.type !== "element") continue;
+		if (child.tag === tag) found.push(child);
+		found.push(...findAll(child, tag));
+	}
+	return found;
+}
+
+/** Picks the element that most likely holds the main content of the page. */
+function findContentRoot(root: HtmlElement): HtmlElement {
+	const [main] = findAll(root, "main");
+	if (main) return main;
+
+	const articles = findAll(root, "article");
+	if (articles.length === 1 && articles[0]) return articles[0];
+
+	const [body] = findAll(root, "body");
+	return body ?? root;
+}
+
+/** Marks the element and its ancestors so the chrome heuristics keep them. */
+function markContent(el: HtmlElement): void {
+	let current: HtmlElement | undefined = el;
+	while (current) {
+		current.holdsContent = true;
+		current = current.parent;
+	}
+}
+
+function textContent(node: HtmlNode): string {
+	if (node.type === "text") return node.value;
+	if (node.tag === "br") return "\n";
+	return node.children.map(textContent).join("");
+}
+
+function renderInline(nodes: HtmlNode[]): string {
+	return nodes.map(renderInlineNode).join("");
+}
+
+function wrapInline(inner: string, marker: string): string {
+	const trimmed = inner.trim();
+	if (!trimmed) return inner;
+
+	const leading = inner.match(/^\s*/)?.[0] ? " " : "";
+	const trailing = inner.match(/\s*$/)?.[0] ? " " : "";
+	return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function renderInlineNode(node: HtmlNode): string {
+	if (node.type === "text") {
+		return node.value.replace(/\s+/g, " ");
+	}
+
+	if (isBoilerplate(node)) return "";
+
+	switch (node.tag) {
+		case "br":
+			return "\n";
+		case "strong":
+		case "b":
+			return wrapInline(renderInline(node.children), "**");
+		case "em":
+		case "i":
+			return wrapInline(renderInline(node.children), "_");
+		case "del":
+		case "s":
+		case "strike":
+			return wrapInline(renderInline(node.children), "~~");
+		case "code": {
+			const code = textContent(node).replace(/\s+/g, " ").trim();
+			if (!code) return "";
+			const fence = code.includes("`") ? "``" : "`";
+			return `${fence}${code}${fence}`;
+		}
+		case "a": {
+			const text = renderInline(node.children).trim();
+			const href = node.attrs.href?.trim();
+			if (!text) return "";
+			if (!href || href.startsWith("#") || /^javascript:/i.test(href)) {
+				return text;
+			}
+			return `[${text}](${href})`;
+		}
+		case "img": {
+			const src = node.attrs.src?.trim();
+			if (!src || src.startsWith("data:")) return "";
+			return `![${(node.attrs.alt ?? "").trim()}](${src})`;
+		}
+		default:
+			return renderInline(node.children);
+	}
+}
+
+function normalizeInline(text: string): string {
+	return text
+		.split("\n")
+		.map((line) => line.replace(/\s+/g, " ").trim())
+		.join("\n")
+		.trim();
+}
+
+function renderBlocks(nodes: HtmlNode[]): string {
+	const parts: string[] = [];
+	let inline = "";
+
+	const flush = () => {
+		const text = normalizeInline(inline);
+		if (text) parts.push(text);
+		inline = "";
+	};
+
+	for (const node of nodes) {
+		if (node.type === "element" && BLOCK_TAGS.has(node.tag)) {
+			flush();
+			if (isBoilerplate(node)) continue;
+			const block = renderBlock(node);
+			if (block) parts.push(block);
+		} else {
+			inline += renderInlineNode(node);
+		}
+	}
+	flush();
+
+	return parts.join("\n\n");
+}
+
+function indentContinuation(text: string, indent: string): string {
+	return text
+		.split("\n")
+		.map((line, i) => (i === 0 || !line ? line : `${indent}${line}`))
+		.join("\n");
+}
+
+function renderList(el: HtmlElement): string {
+	const ordered = el.tag === "ol";
+	let counter = Number.parseInt(el.attrs.start ?? "1", 10);
+	if (Number.isNaN(counter)) counter = 1;
+
+	const items: string[] = [];
+	for (const child of el.children) {
+		if (child.type !== "element" || child.tag !== "li") continue;
+		if (isBoilerplate(child)) continue;
+
+		const marker = ordered ? `${counter++}. ` : "- ";
+		const body = renderBlocks(child.children).replace(/\n{2,}/g, "\n");
+		if (!body) continue;
+		items.push(
+			`${marker}${indentContinuation(body, " ".repeat(marker.length))}`,
+		);
+	}
+
+	return items.join("\n");
+}
+
+function collectRows(el: HtmlElement): HtmlElement[] {
+	const rows: HtmlElement[] = [];
+	for (const child of el.children) {
+		if (child.type !== "element") continue;
+		if (child.tag === "tr") {
+			rows.push(child);
+		} else if (["thead", "tbody", "tfoot"].includes(child.tag)) {
+			rows.push(...collectRows(child));
+		}
+	}
+	return rows;
+}
+
+function renderTable(el: HtmlElement): string {
+	const rows = collectRows(el)
+		.map((row) =>
+			row.children
+				.filter(
+					(cell): cell is HtmlElement =>
+						cell.type === "element" && (cell.tag === "td" || cell.tag === "th"),
+				)
+				.map((cell) =>
+					normalizeInline(renderInline(cell.children))
+						.replace(/\n+/g, " ")
+						.replaceAll("|", "\\|"),
+				),
+		)
+		.filter((cells) => cells.length > 0);
+
+	const [header, ...body] = rows;
+	if (!header) return "";
+
+	const columns = Math.max(...rows.map((cells) => cells.length));
+	const pad = (cells: string[]) =>
+		Array.from({ length: columns }, (_, i) => cells[i] ?? "");
+	const line = (cells: string[]) => `| ${pad(cells).join(" | ")} |`;
+
+	return [
+		line(header),
+		line(Array.from({ length: columns }, () => "---")),
+		...body.map(line),
+	].join("\n");
+}
+
+function renderPre(el: HtmlElement): string {
+	const code = textContent(el).replace(/^\n/, "").trimEnd();
+	if (!code.trim()) return "";
+
+	const codeChild = el.children.find(
+		(child): child is HtmlElement =>
+			child.type === "element" && child.tag === "code",
+	);
+	const classes = `${el.attrs.class ?? ""} ${codeChild?.attrs.class ?? ""}`;
+	const language = /(?:^|\s)(?:language|lang)-([\w+#-]+)/.exec(classes)?.[1];
+	const fence = code.includes("```") ? "````" : "```";
+
+	return `${fence}${language ?? ""}\n${code}\n${fence}`;
+}
+
+function renderBlock(el: HtmlElement): string {
+	switch (el.tag) {
+		case "h1":
+		case "h2":
+		case "h3":
+		case "h4":
+		case "h5":
+		case "h6": {
+			const text = normalizeInline(renderInline(el.children)).replace(
+				/\n+/g,
+				" ",
+			);
+			return text ? `${"#".repeat(Number(el.tag[1]))} ${text}` : "";
+		}
+		case "hr":
+			return "---";
+		case "pre":
+			return renderPre(el);
+		case "ul":
+		case "ol":
+			return renderList(el);
+		case "table":
+			return renderTable(el);
+		case "blockquote": {
+			const body = renderBlocks(el.children);
+			return body
+				? body
+						.split("\n")
+						.map((line) => (line ? `> ${line}` : ">"))
+						.join("\n")
+				: "";
+		}
+		case "dt": {
+			const text = normalizeInline(renderInline(el.children));
+			return text ? `**${text}**` : "";
+		}
+		default:
+			return renderBlocks(el.children);
+	}
+}
+
+/**
+ * Converts an HTML page or fragment into clean Markdown.
+ *
+ * Keeps document structure (headings, lists, tables, links, code blocks)
+ * and drops page chrome such as navigation, footers, scripts and forms.
+ */
+export function htmlToMarkdown(html: string): string {
+	const root = parseHtml(html);
+	const contentRoot = findContentRoot(root);
+	for (const el of [
+		contentRoot,
+		...findAll(root, "main"),
+		...findAll(root, "article"),
+	]) {
+		markContent(el);
+	}
+
+	return renderBlocks(contentRoot.children)
+		.split("\n")
+		.map((line) => line.trimEnd())
+		.join("\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
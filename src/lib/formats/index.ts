@@ -0,0 +1,52 @@
+import type { GreptorEatInput, SupportedFormat } from "../types.js";
+import { htmlToMarkdown } from "./html.js";
+import { srtToMarkdown, vttToMarkdown } from "./subtitles.js";
+import { threadToMarkdown } from "./thread.js";
+
+export const SUPPORTED_FORMATS: readonly SupportedFormat[] = [
+	"text",
+	"html",
+	"vtt",
+	"srt",
+	"thread",
+];
+
+/**
+ * Tag emitted by the processor for every chunk of a timed transcript,
+ * e.g. `time_range=00:12:30-00:15:02`.
+ */
+export const TIME_RANGE_TAG = "time_range";
+
+export function isSupportedFormat(format: string): format is SupportedFormat {
+	return (SUPPORTED_FORMATS as readonly string[]).includes(format);
+}
+
+/** Whether the raw content of this format carries `[HH:MM:SS-HH:MM:SS]` markers. */
+export function isTimedFormat(format: unknown): boolean {
+	return format === "vtt" || format === "srt";
+}
+
+/**
+ * Converts the input content into the Markdown body stored in the raw layer.
+ */
+export function renderRawContent(input: GreptorEatInput): string {
+	switch (input.format) {
+		case "html": {
+			const markdown = htmlToMarkdown(input.content);
+			if (!markdown) {
+				throw new Error("HTML content has no text");
+			}
+			return markdown;
+		}
+		case "vtt":
+			return vttToMarkdown(input.content);
+		case "srt":
+			return srtToMarkdown(input.content);
+		case "thread":
+			return threadToMarkdown(input.content);
+		default:
+			return input.content;
+	}
+}
+
+export { htmlToMarkdown, srtToMarkdown, threadToMarkdown, vttToMarkdown };
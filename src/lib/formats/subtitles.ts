@@ -0,0 +1,199 @@
+interface Cue {
+	/** Start time in milliseconds */
+	start: number;
+	/** End time in milliseconds */
+	end: number;
+	text: string;
+	/** Last text line of the cue, which rolling captions repeat */
+	lastLine: string;
+}
+
+/** Paragraphs are closed once they reach this size and end a sentence. */
+const PARAGRAPH_TARGET_CHARS = 400;
+/** Paragraphs are always closed once they reach this size. */
+const PARAGRAPH_MAX_CHARS = 900;
+/** A pause longer than this between cues starts a new paragraph. */
+const PARAGRAPH_PAUSE_MS = 2500;
+/** Shorter repeats between cues are taken as real speech, not roll-over. */
+const MIN_ROLLING_OVERLAP_WORDS = 2;
+
+const TIMING_PATTERN =
+	/^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+function parseTimestamp(value: string): number {
+	const [clock = "", fraction = "0"] = value.replace(",", ".").split(".");
+	const parts = clock.split(":").map((p) => Number.parseInt(p, 10));
+	const [hours, minutes, seconds] =
+		parts.length === 3 ? parts : [0, parts[0], parts[1]];
+
+	return (
+		((hours ?? 0) * 3600 + (minutes ?? 0) * 60 + (seconds ?? 0)) * 1000 +
+		Number.parseInt(fraction.padEnd(3, "0").slice(0, 3), 10)
+	);
+}
+
+export function formatTimestamp(ms: number): string {
+	const totalSeconds = Math.floor(ms / 1000);
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+
+	return [hours, minutes, seconds]
+		.map((n) => String(n).padStart(2, "0"))
+		.join(":");
+}
+
+function cleanCueText(text: string): string {
+	return (
+		text
+			// WebVTT voice spans: <v Speaker Name>text
+			.replace(/<v(?:\.[^\s>]+)?\s+([^>]+)>/gi, "$1: ")
+			// Inline timestamps and styling tags: <00:00:01.000>, <c>, </i>, ...
+			.replace(/<[^>]*>/g, "")
+			.replace(/&amp;/g, "&")
+			.replace(/&lt;/g, "<")
+			.replace(/&gt;/g, ">")
+			.replace(/&nbsp;/g, " ")
+			.replace(/\s+/g, " ")
+			.trim()
+	);
+}
+
+/**
+ * Parses cue blocks shared by WebVTT and SRT: an optional identifier line,
+ * a `start --> end` timing line and one or more text lines.
+ */
+function parseCueBlocks(content: string): Cue[] {
+	const blocks = content
+		.replace(/^\uFEFF/, "")
+		.replace(/\r\n?/g, "\n")
+		.split(/\n{2,}/);
+	const cues: Cue[] = [];
+
+	for (const block of blocks) {
+		const lines = block.split("\n");
+		const timingIndex = lines.findIndex((line) => TIMING_PATTERN.test(line));
+		if (timingIndex === -1) {
+			// WEBVTT header, NOTE, STYLE and REGION blocks have no timing line.
+			continue;
+		}
+
+		const match = TIMING_PATTERN.exec(lines[timingIndex] ?? "");
+		if (!match?.[1] || !match[2]) continue;
+
+		const textLines = lines.slice(timingIndex + 1);
+		const text = cleanCueText(textLines.join(" "));
+		if (!text) continue;
+
+		cues.push({
+			start: parseTimestamp(match[1]),
+			end: parseTimestamp(match[2]),
+			text,
+			lastLine: cleanCueText(textLines.at(-1) ?? ""),
+		});
+	}
+
+	return cues;
+}
+
+/**
+ * Removes text repeated between consecutive WebVTT cues. Auto-generated
+ * captions (e.g. YouTube) roll lines over, so every cue starts with the last
+ * line of the previous one.
+ */
+function removeRollingOverlap(cues: Cue[]): Cue[] {
+	const result: Cue[] = [];
+
+	for (const cue of cues) {
+		const previous = result.at(-1);
+		if (!previous) {
+			result.push(cue);
+			continue;
+		}
+
+		const lastWords = previous.lastLine.split(" ");
+		const words = cue.text.split(" ");
+		let overlap = 0;
+		for (
+			let n = Math.min(lastWords.length, words.length);
+			n >= MIN_ROLLING_OVERLAP_WORDS;
+			n--
+		) {
+			if (lastWords.slice(-n).join(" ") === words.slice(0, n).join(" ")) {
+				overlap = n;
+				break;
+			}
+		}
+
+		const text = words.slice(overlap).join(" ");
+		if (!text) {
+			previous.end = Math.max(previous.end, cue.end);
+			continue;
+		}
+
+		result.push({ ...cue, text });
+	}
+
+	return result;
+}
+
+/**
+ * Merges cues into readable paragraphs, each prefixed with the time range
+ * it covers, e.g. `[00:12:30-00:13:02] ...`.
+ */
+function renderCues(cues: Cue[]): string {
+	const paragraphs: string[] = [];
+	let current: Cue | undefined;
+
+	const flush = () => {
+		if (!current) return;
+		paragraphs.push(
+			`[${formatTimestamp(current.start)}-${formatTimestamp(current.end)}] ${current.text}`,
+		);
+		current = undefined;
+	};
+
+	for (const cue of cues) {
+		if (current && cue.start - current.end > PARAGRAPH_PAUSE_MS) {
+			flush();
+		}
+
+		if (!current) {
+			current = { ...cue };
+		} else {
+			current.text = `${current.text} ${cue.text}`;
+			current.end = Math.max(current.end, cue.end);
+		}
+
+		const length = current.text.length;
+		const endsSentence = /[.!?…]["')\]]?$/.test(current.text);
+		if (
+			length >= PARAGRAPH_MAX_CHARS ||
+			(length >= PARAGRAPH_TARGET_CHARS && endsSentence)
+		) {
+			flush();
+		}
+	}
+	flush();
+
+	return paragraphs.join("\n\n");
+}
+
+/** Converts a WebVTT file into timestamped transcript paragraphs. */
+export function vttToMarkdown(content: string): string {
+	if (!/^\uFEFF?WEBVTT/.test(content)) {
+		throw new Error("Invalid WebVTT content: missing WEBVTT header");
+	}
+
+	return renderCues(removeRollingOverlap(parseCueBlocks(content)));
+}
+
+/** Converts an SRT file into timestamped transcript paragraphs. */
+export function srtToMarkdown(content: string): string {
+	const cues = parseCueBlocks(content);
+	if (cues.length === 0 && content.trim()) {
+		throw new Error("Invalid SRT content: no subtitle cues found");
+	}
+
+	return renderCues(cues);
+}
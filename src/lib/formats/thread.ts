@@ -0,0 +1,82 @@
+import type { ThreadComment, ThreadContent } from "../types.js";
+
+function renderMeta(entry: {
+	author: string;
+	score?: number | undefined;
+	createdAt?: Date | undefined;
+}): string {
+	const parts = [`**${entry.author.trim() || "unknown"}**`];
+	if (typeof entry.score === "number" && Number.isFinite(entry.score)) {
+		parts.push(`score: ${entry.score}`);
+	}
+	if (entry.createdAt) {
+		parts.push(entry.createdAt.toISOString());
+	}
+	return parts.join(" · ");
+}
+
+function countComments(comments: ThreadComment[]): number {
+	return comments.reduce(
+		(sum, comment) => sum + 1 + countComments(comment.children ?? []),
+		0,
+	);
+}
+
+function renderComment(comment: ThreadComment, depth: number): string[] {
+	if (typeof comment.content !== "string") {
+		throw new Error(
+			`Comment by '${comment.author}' has no text content (depth ${depth})`,
+		);
+	}
+
+	const indent = "  ".repeat(depth);
+	const bodyIndent = `${indent}  `;
+	const body = comment.content
+		.trim()
+		.split(/\r?\n/)
+		.map((line) => (line.trim() ? `${bodyIndent}${line.trimEnd()}` : ""));
+
+	return [
+		`${indent}- ${renderMeta(comment)}`,
+		...body,
+		...(comment.children ?? []).flatMap((child) =>
+			renderComment(child, depth + 1),
+		),
+	];
+}
+
+/**
+ * Renders a post and its comment tree as Markdown. Replies are nested list
+ * items, so the indentation of a comment reflects its depth in the thread,
+ * and every comment header carries its author, score and timestamp.
+ */
+export function threadToMarkdown(thread: ThreadContent): string {
+	const { post, comments = [] } = thread;
+	if (!post || typeof post.content !== "string") {
+		throw new Error("Thread must have a post with text content");
+	}
+	if (!Array.isArray(comments)) {
+		throw new Error("Thread comments must be an array");
+	}
+
+	const lines: string[] = [];
+	if (post.title?.trim()) {
+		lines.push(`# ${post.title.trim()}`, "");
+	}
+	lines.push(renderMeta(post));
+	if (post.url) {
+		lines.push(post.url);
+	}
+	lines.push("", post.content.trim());
+
+	if (comments.length > 0) {
+		lines.push(
+			"",
+			`## Comments (${countComments(comments)})`,
+			"",
+			...comments.flatMap((comment) => renderComment(comment, 0)),
+		);
+	}
+
+	return lines.join("\n").trim();
+}
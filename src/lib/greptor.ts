@@ -1,41 +1,158 @@
 import type {
+	DocumentListFilter,
+	DocumentVersion,
+	EatManyError,
 	GreptorEatInput,
+	GreptorEatManyItem,
+	GreptorEatManyOptions,
+	GreptorEatManyResult,
 	GreptorEatResult,
 	GreptorOptions,
+	RemoveFilter,
+	ReprocessFilter,
+	RetentionReport,
+	ScanOptions,
+	SearchQuery,
+	SearchResult,
 	SourceCounts,
+	Tags,
 } from "./types.js";
 
-import YAML from "yaml";
-import { writeConfig } from "./config.js";
+import { validateGreptorOptions, writeConfig } from "./config.js";
+import { isSupportedFormat, renderRawContent } from "./formats/index.js";
 import { resolveModel } from "./llm/llm-factory.js";
+import { createRateLimiter } from "./llm/rate-limiter.js";
+import { createProcessingFingerprint } from "./processing/fingerprint.js";
 import {
 	type BackgroundWorkerHandle,
-	createProcessingQueue,
-	enqueue,
 	enqueueUnprocessedDocuments,
 	startBackgroundWorkers,
 } from "./processing/processor.js";
+import {
+	type DeadLetterEntry,
+	createProcessingQueue,
+} from "./processing/queue.js";
+import { findStaleDocuments as findStale } from "./processing/reprocess.js";
+import { applyRetention as applyRetentionRules } from "./processing/retention.js";
+import { searchChunks } from "./search/search.js";
 import { createFileStorage } from "./storage/file-storage.js";
+import { createFsStorageBackend } from "./storage/fs-backend.js";
+import { createDocumentLeases, createWorkspaceLock } from "./storage/lock.js";
+import type { ManifestEntry } from "./storage/manifest.js";
+import type { DocumentRef } from "./storage/types.js";
+import { createUnifiedDiff } from "./utils/diff.js";
+import { sleep } from "./utils/sleep.js";
+
+const DEFAULT_EAT_MANY_CONCURRENCY = 4;
+const DEFAULT_QUEUE_HIGH_WATER_MARK = 100;
+const BACKPRESSURE_POLL_MS = 250;
+const DEFAULT_RETENTION_SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+type IngestResult = Omit<GreptorEatManyItem, "index">;
 
 export interface Greptor {
 	eat: (input: GreptorEatInput) => Promise<GreptorEatResult>;
+	/**
+	 * Ingest many documents, e.g. straight from a fetcher's async generator.
+	 * Inputs are consumed lazily, with backpressure on the processing queue.
+	 * When the iterable throws, rejects with an {@link EatManyError} once the
+	 * documents already pulled are saved.
+	 */
+	eatMany: (
+		inputs: Iterable<GreptorEatInput> | AsyncIterable<GreptorEatInput>,
+		options?: GreptorEatManyOptions,
+	) => Promise<GreptorEatManyResult>;
 	getDocumentCounts: () => Promise<SourceCounts>;
+	/** Manifest entry of a document: status, content hash, dates, token usage. */
+	getDocument: (ref: DocumentRef) => ManifestEntry | undefined;
+	listDocuments: (filter?: DocumentListFilter) => ManifestEntry[];
+	/** Frontmatter and body of a document's raw or processed file. */
+	readDocument: (
+		ref: DocumentRef,
+		layer?: "raw" | "processed",
+	) => Promise<{ tags: Tags; content: string }>;
+	/**
+	 * Chunks of processed documents matching tag, text, source and date
+	 * filters, e.g. `{ tags: { ticker: "NVDA", sentiment: "bullish" } }`.
+	 */
+	search: (query: SearchQuery) => Promise<SearchResult[]>;
 	/** Enqueue unprocessed documents and start background processing workers. */
 	start: () => Promise<void>;
 	/** Gracefully stop background workers. Workers finish their current item before exiting. */
 	stop: () => Promise<void>;
+	/**
+	 * Pick up documents added outside this instance: raw files written by
+	 * other tools or by hand, and documents eaten by other instances sharing
+	 * the workspace. The manifest and queue are only reloaded when they
+	 * changed. Returns the refs that were enqueued.
+	 */
+	scan: (options?: ScanOptions) => Promise<DocumentRef[]>;
+	/** Documents that failed processing on every retry attempt. */
+	getDeadLetters: () => Promise<DeadLetterEntry[]>;
+	/** Number of documents waiting for processing, including scheduled retries. */
+	getQueueSize: () => number;
+	/** Move dead-lettered documents back to the processing queue (all when `refs` is omitted). */
+	requeueDeadLetters: (refs?: DocumentRef[]) => Promise<DocumentRef[]>;
+	/**
+	 * Processed documents whose processing fingerprint (tag schema, prompt,
+	 * output mode and model) differs from the current configuration.
+	 */
+	findStaleDocuments: (filter?: ReprocessFilter) => Promise<DocumentRef[]>;
+	/** Queue stale documents for processing. Returns the refs that were queued. */
+	reprocess: (filter?: ReprocessFilter) => Promise<DocumentRef[]>;
+	/**
+	 * Raw versions of a document, oldest first, ending with `current`.
+	 * Previous versions are kept when `keepHistory` is enabled.
+	 */
+	listVersions: (ref: DocumentRef) => Promise<DocumentVersion[]>;
+	/**
+	 * Delete a document, or all documents of a source (optionally only from
+	 * one publisher or created before a date): raw and processed files,
+	 * history, manifest entries and queued items. Returns the removed refs.
+	 */
+	remove: (target: DocumentRef | RemoveFilter) => Promise<DocumentRef[]>;
+	/**
+	 * Archive or delete documents that exceed the retention rules. With
+	 * `dryRun`, only reports the affected documents.
+	 */
+	applyRetention: (options?: { dryRun?: boolean }) => Promise<RetentionReport>;
+	/** Unified diff between two raw versions of a document. */
+	diffVersions: (
+		ref: DocumentRef,
+		fromVersion: string,
+		toVersion?: string,
+	) => Promise<string>;
 }
 
 export async function createGreptor(options: GreptorOptions): Promise<Greptor> {
 	const { basePath, hooks } = options;
-	const model = await resolveModel(options.model);
-	const storage = await createFileStorage(basePath);
+	if (!options.storage && !basePath) {
+		throw new Error(
+			"Missing storage. Provide `basePath` or `storage` in options.",
+		);
+	}
 
 	if (!options.tagSchema || options.tagSchema.length === 0) {
 		throw new Error(
 			"Missing tag schema. Provide `tagSchema` in options. Generate one with `greptor generate tags`",
 		);
 	}
+	// Before touching storage, which may load, compact or rebuild the manifest.
+	validateGreptorOptions(options);
+	const sweepIntervalMs =
+		options.retention?.sweepIntervalMs ?? DEFAULT_RETENTION_SWEEP_INTERVAL_MS;
+
+	const backend = options.storage ?? createFsStorageBackend(basePath ?? "");
+	const model = await resolveModel(options.model);
+	const lock = createWorkspaceLock(backend);
+	const leases = createDocumentLeases(backend, lock, {
+		...(options.leaseTtlMs ? { ttlMs: options.leaseTtlMs } : {}),
+	});
+	const storage = await createFileStorage(backend, {
+		keepHistory: options.keepHistory ?? false,
+		layout: options.layout,
+		lock,
+	});
 
 	const configData = {
 		domain: options.topic,
@@ -43,10 +160,28 @@ export async function createGreptor(options: GreptorOptions): Promise<Greptor> {
 		...(options.customProcessingPrompts && {
 			customProcessingPrompts: options.customProcessingPrompts,
 		}),
+		model: { provider: options.model.provider, model: options.model.model },
+		...(options.outputMode ? { outputMode: options.outputMode } : {}),
+		...(options.retention ? { retention: options.retention.rules } : {}),
+		...(options.layout ? { layout: options.layout } : {}),
+		...(options.workers ? { workers: options.workers } : {}),
+		...(options.retry ? { retry: options.retry } : {}),
+		...(options.rateLimit ? { rateLimit: options.rateLimit } : {}),
+		...(options.maxSegmentTokens
+			? { maxSegmentTokens: options.maxSegmentTokens }
+			: {}),
+		...(options.keepHistory ? { keepHistory: true } : {}),
+		...(options.leaseTtlMs ? { leaseTtlMs: options.leaseTtlMs } : {}),
 	};
-	await writeConfig(basePath, configData);
+	if (options.writeConfig ?? true) {
+		await writeConfig(backend, configData);
+	}
 
-	const queue = createProcessingQueue();
+	const queue = await createProcessingQueue({
+		backend,
+		retry: options.retry,
+		lock,
+	});
 	await enqueueUnprocessedDocuments({
 		storage,
 		queue,
@@ -54,16 +189,143 @@ export async function createGreptor(options: GreptorOptions): Promise<Greptor> {
 
 	const ctx = {
 		domain: options.topic,
-		tagSchema: YAML.stringify(options.tagSchema),
+		tagSchema: options.tagSchema,
 		...(options.customProcessingPrompts && {
 			customProcessingPrompts: options.customProcessingPrompts,
 		}),
 		model,
+		modelConfig: configData.model,
+		rateLimiter: createRateLimiter(options.rateLimit, hooks?.onRateLimited),
+		...(options.outputMode ? { outputMode: options.outputMode } : {}),
+		...(options.maxSegmentTokens
+			? { maxSegmentTokens: options.maxSegmentTokens }
+			: {}),
 		storage,
 		...(hooks ? { hooks } : {}),
 	};
 
 	let workerHandle: BackgroundWorkerHandle | undefined;
+	let retentionTimer: ReturnType<typeof setTimeout> | undefined;
+
+	function findStaleDocuments(
+		filter?: ReprocessFilter,
+	): Promise<DocumentRef[]> {
+		return findStale({
+			storage,
+			filter,
+			getFingerprint: (source) =>
+				createProcessingFingerprint({
+					...configData,
+					customProcessingPrompt: source
+						? options.customProcessingPrompts?.[source]
+						: undefined,
+				}),
+		});
+	}
+
+	async function requeueDeadLetters(
+		refs?: DocumentRef[],
+	): Promise<DocumentRef[]> {
+		const requeued = await queue.requeueDeadLetters(refs);
+		for (const ref of requeued) {
+			await storage.setDocumentStatus(ref, "pending");
+		}
+		return requeued;
+	}
+
+	async function reprocess(filter?: ReprocessFilter): Promise<DocumentRef[]> {
+		return queue.enqueueMany(await findStaleDocuments(filter));
+	}
+
+	async function remove(
+		target: DocumentRef | RemoveFilter,
+	): Promise<DocumentRef[]> {
+		let refs: DocumentRef[];
+		if (typeof target === "string") {
+			refs = [target];
+		} else {
+			const before = target.before?.getTime();
+			refs = storage
+				.listDocuments({
+					source: target.source,
+					...(target.publisher ? { publisher: target.publisher } : {}),
+				})
+				.filter(
+					(entry) =>
+						before === undefined ||
+						(entry.createdAt !== undefined &&
+							Date.parse(entry.createdAt) < before),
+				)
+				.map((entry) => entry.ref);
+		}
+
+		await queue.remove(refs);
+		const removed = await storage.removeDocuments(refs);
+		await notifyRemoved(removed);
+		return removed;
+	}
+
+	async function notifyRemoved(refs: DocumentRef[]): Promise<void> {
+		if (refs.length === 0) {
+			return;
+		}
+
+		const documentsCount = await storage.getDocumentCounts();
+		try {
+			hooks?.onDocumentsRemoved?.({ refs, documentsCount });
+		} catch {
+			// A failing hook must not fail the removal.
+		}
+	}
+
+	async function applyRetention(
+		args: { dryRun?: boolean } = {},
+	): Promise<RetentionReport> {
+		const report = await applyRetentionRules({
+			storage,
+			queue,
+			rules: options.retention?.rules ?? {},
+			dryRun: args.dryRun,
+		});
+		await notifyRemoved([...report.archived, ...report.deleted]);
+		return report;
+	}
+
+	/** Sweeps now, then an interval after each sweep settles, so sweeps never overlap. */
+	function startRetentionSweep(): void {
+		if (!options.retention || sweepIntervalMs === 0) {
+			return;
+		}
+
+		// Stopping, or stopping and starting again, ends this chain of sweeps.
+		const handle = workerHandle;
+		const sweep = async () => {
+			try {
+				await applyRetention();
+			} catch {
+				// Retried on the next interval.
+			}
+			if (workerHandle !== handle) return;
+			retentionTimer = setTimeout(() => void sweep(), sweepIntervalMs);
+			retentionTimer.unref?.();
+		};
+		void sweep();
+	}
+
+	async function diffVersions(
+		ref: DocumentRef,
+		fromVersion: string,
+		toVersion = "current",
+	): Promise<string> {
+		const [from, to] = await Promise.all([
+			storage.readVersion(ref, fromVersion),
+			storage.readVersion(ref, toVersion),
+		]);
+		return createUnifiedDiff(from, to, {
+			oldLabel: `${ref}@${fromVersion}`,
+			newLabel: `${ref}@${toVersion}`,
+		});
+	}
 
 	async function start(): Promise<void> {
 		if (workerHandle) {
@@ -73,8 +335,10 @@ export async function createGreptor(options: GreptorOptions): Promise<Greptor> {
 		workerHandle = startBackgroundWorkers({
 			ctx,
 			queue,
+			leases,
 			concurrency: options.workers ?? 1,
 		});
+		startRetentionSweep();
 	}
 
 	async function stop(): Promise<void> {
@@ -82,47 +346,192 @@ export async function createGreptor(options: GreptorOptions): Promise<Greptor> {
 			return;
 		}
 
+		clearTimeout(retentionTimer);
+		retentionTimer = undefined;
 		await workerHandle.stop();
 		workerHandle = undefined;
 	}
 
-	async function eat(input: GreptorEatInput): Promise<GreptorEatResult> {
-		if (input.format !== "text") {
+	async function scan(options: ScanOptions = {}): Promise<DocumentRef[]> {
+		await Promise.all([storage.refresh(), queue.refresh()]);
+		if (options.rawFiles ?? true) {
+			await storage.indexNewRawFiles();
+		}
+		return queue.enqueueMany(await storage.getUnprocessedContents());
+	}
+
+	async function ingest(input: GreptorEatInput): Promise<IngestResult> {
+		if (!isSupportedFormat(input.format)) {
 			return {
-				success: false,
+				status: "error",
 				message: `Unsupported format: ${input.format}`,
 			};
 		}
 
-		const res = await storage.saveRawContent(input);
+		let content: string;
+		try {
+			content = renderRawContent(input);
+		} catch (error) {
+			return {
+				status: "error",
+				message: `Failed to convert ${input.format} content: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			};
+		}
+
+		const res = await storage.saveRawContent({ ...input, content });
 
 		if (res.type === "duplicate") {
 			return {
-				success: false,
-				message: "Document already exists.",
+				status: "duplicate",
+				message:
+					res.reason === "id"
+						? `Document with the same id already exists: ${res.ref}`
+						: `Document with the same content already exists: ${res.ref}`,
+				ref: res.ref,
+				duplicateOf: res.ref,
 			};
 		}
 
 		if (res.type === "error") {
 			return {
-				success: false,
+				status: "error",
 				message: res.message,
 			};
 		}
 
-		enqueue(queue, res.ref);
+		if (res.type === "updated") {
+			// The new content deserves fresh attempts.
+			await requeueDeadLetters([res.ref]);
+		}
+		await queue.enqueue(res.ref);
+
+		return res.type === "updated"
+			? { status: "updated", message: "Content updated.", ref: res.ref }
+			: { status: "added", message: "Content added.", ref: res.ref };
+	}
+
+	async function eat(input: GreptorEatInput): Promise<GreptorEatResult> {
+		const res = await ingest(input);
+
+		if ((res.status === "added" || res.status === "updated") && res.ref) {
+			return { success: true, message: res.message, ref: res.ref };
+		}
 
 		return {
-			success: true,
-			message: "Content added.",
-			ref: res.ref,
+			success: false,
+			message: res.message,
+			...(res.duplicateOf ? { duplicateOf: res.duplicateOf } : {}),
 		};
 	}
 
+	async function waitForQueueCapacity(highWaterMark: number): Promise<void> {
+		// Without running workers the queue never drains, so only throttle
+		// while they are consuming it.
+		while (workerHandle && queue.size() >= highWaterMark) {
+			await sleep(BACKPRESSURE_POLL_MS);
+		}
+	}
+
+	async function eatMany(
+		inputs: Iterable<GreptorEatInput> | AsyncIterable<GreptorEatInput>,
+		options: GreptorEatManyOptions = {},
+	): Promise<GreptorEatManyResult> {
+		const concurrency = Math.max(
+			1,
+			options.concurrency ?? DEFAULT_EAT_MANY_CONCURRENCY,
+		);
+		const highWaterMark = Math.max(
+			1,
+			options.highWaterMark ?? DEFAULT_QUEUE_HIGH_WATER_MARK,
+		);
+		const iterator =
+			Symbol.asyncIterator in inputs
+				? inputs[Symbol.asyncIterator]()
+				: inputs[Symbol.iterator]();
+
+		const items: GreptorEatManyItem[] = [];
+		let nextIndex = 0;
+		let inputError: { error: unknown } | undefined;
+
+		async function ingestLoop(): Promise<void> {
+			while (!inputError) {
+				await waitForQueueCapacity(highWaterMark);
+				if (inputError) {
+					return;
+				}
+
+				let next: IteratorResult<GreptorEatInput>;
+				try {
+					next = await iterator.next();
+				} catch (error) {
+					// Stop the other loops too, they share the iterator.
+					inputError ??= { error };
+					return;
+				}
+				if (next.done) {
+					return;
+				}
+
+				const index = nextIndex++;
+				try {
+					items.push({ index, ...(await ingest(next.value)) });
+				} catch (error) {
+					items.push({
+						index,
+						status: "error",
+						message: error instanceof Error ? error.message : String(error),
+					});
+				}
+			}
+		}
+
+		await Promise.all(Array.from({ length: concurrency }, ingestLoop));
+		items.sort((a, b) => a.index - b.index);
+
+		const result: GreptorEatManyResult = {
+			added: items.filter((item) => item.status === "added").length,
+			updated: items.filter((item) => item.status === "updated").length,
+			duplicates: items.filter((item) => item.status === "duplicate").length,
+			errors: items.filter((item) => item.status === "error").length,
+			items,
+		};
+		if (inputError) {
+			const { error } = inputError;
+			const message = error instanceof Error ? error.message : String(error);
+			const eatManyError: EatManyError = Object.assign(
+				new Error(`Failed to read inputs: ${message}`, { cause: error }),
+				{ result },
+			);
+			throw eatManyError;
+		}
+		return result;
+	}
+
 	return {
 		eat,
+		eatMany,
 		getDocumentCounts: () => storage.getDocumentCounts(),
+		getDocument: (ref) => storage.getDocument(ref),
+		listDocuments: (filter) => storage.listDocuments(filter),
+		readDocument: (ref, layer = "processed") =>
+			layer === "raw"
+				? storage.readRawContent(ref)
+				: storage.readProcessedContent(ref),
+		search: (query) =>
+			searchChunks({ storage, tagSchema: options.tagSchema, query }),
 		start,
 		stop,
+		scan,
+		getDeadLetters: async () => queue.getDeadLetters(),
+		getQueueSize: () => queue.size(),
+		requeueDeadLetters,
+		findStaleDocuments,
+		reprocess,
+		remove,
+		applyRetention,
+		listVersions: (ref) => storage.listVersions(ref),
+		diffVersions,
 	};
 }
@@ -3,11 +3,52 @@ export type {
 	GreptorHooks,
 	DocumentProcessingStartedEvent,
 	DocumentProcessingCompletedEvent,
+	RateLimitedEvent,
+	ValidationIssue,
+	ValidationReport,
 } from "./types.js";
 
 export * from "./config.js";
 export type { Greptor } from "./greptor.js";
 export { createGreptor } from "./greptor.js";
+export type {
+	DeadLetterEntry,
+	ProcessingQueue,
+	QueueEntry,
+} from "./processing/queue.js";
+export { createProcessingQueue, QUEUE_KEY } from "./processing/queue.js";
+export type { StorageBackend } from "./storage/backend.js";
+export type { FileStorage } from "./storage/file-storage.js";
+export { createFileStorage } from "./storage/file-storage.js";
+export { createFsStorageBackend } from "./storage/fs-backend.js";
+export type { DocumentLayout, LayoutDocument } from "./storage/layout.js";
+export { createDocumentLayout, DEFAULT_LAYOUT } from "./storage/layout.js";
+export type { DocumentLeases, WorkspaceLock } from "./storage/lock.js";
+export {
+	createDocumentLeases,
+	createWorkspaceLock,
+	LOCK_KEY,
+} from "./storage/lock.js";
+export type { DocumentStatus, ManifestEntry } from "./storage/manifest.js";
+export { MANIFEST_KEY } from "./storage/manifest.js";
+export type { JsonRpcHandler } from "./mcp/protocol.js";
+export { serveJsonRpc } from "./mcp/protocol.js";
+export type { McpServerOptions } from "./mcp/server.js";
+export { createMcpServer } from "./mcp/server.js";
+export type {
+	GreptorEvent,
+	GreptorEventType,
+	HookBroadcaster,
+} from "./server/events.js";
+export { createHookBroadcaster } from "./server/events.js";
+export type { HttpServerOptions } from "./server/http.js";
+export { createHttpServer } from "./server/http.js";
+export { searchChunks } from "./search/search.js";
+export type { LayoutMove } from "./storage/migrate-layout.js";
+export { migrateLayout } from "./storage/migrate-layout.js";
+export { createMemoryStorageBackend } from "./storage/memory-backend.js";
+export type { S3StorageOptions } from "./storage/s3-backend.js";
+export { createS3StorageBackend } from "./storage/s3-backend.js";
 
 // Re-export LanguageModel type from AI SDK for convenience
 export type { LanguageModel } from "ai";
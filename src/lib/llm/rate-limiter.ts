@@ -0,0 +1,228 @@
+import { APICallError, RetryError } from "ai";
+import type { RateLimitOptions, RateLimitedEvent } from "../types.js";
+import { sleep } from "../utils/sleep.js";
+
+const WINDOW_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_BASE_DELAY_MS = 2_000;
+const DEFAULT_MAX_DELAY_MS = 120_000;
+const RATE_LIMIT_STATUS_CODES = new Set([429, 503]);
+
+interface WindowEntry {
+	time: number;
+	tokens: number;
+}
+
+/**
+ * Shared limiter for LLM calls across all background workers. Enforces
+ * requests-per-minute and tokens-per-minute budgets over a sliding window
+ * and retries rate-limited calls with jittered backoff.
+ */
+export interface RateLimiter {
+	/**
+	 * Run an LLM call within the budgets.
+	 * @param estimatedTokens Tokens reserved for the call until it completes
+	 * @param call The LLM call
+	 * @param countTokens Actual tokens used, read from the call result
+	 */
+	run<T>(
+		estimatedTokens: number,
+		call: () => Promise<T>,
+		countTokens: (result: T) => number | undefined,
+	): Promise<T>;
+}
+
+/** Rough token estimate for budgeting before the provider reports usage. */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+function getApiCallError(error: unknown): APICallError | undefined {
+	if (APICallError.isInstance(error)) return error;
+	if (
+		RetryError.isInstance(error) &&
+		APICallError.isInstance(error.lastError)
+	) {
+		return error.lastError;
+	}
+	return undefined;
+}
+
+function getHeader(
+	headers: Record<string, string> | undefined,
+	name: string,
+): string | undefined {
+	if (!headers) return undefined;
+	const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+	return key ? headers[key] : undefined;
+}
+
+/** Reads `retry-after-ms` or `retry-after` (seconds or HTTP date) in ms. */
+function getRetryAfterMs(error: APICallError): number | undefined {
+	const retryAfterMs = Number(
+		getHeader(error.responseHeaders, "retry-after-ms"),
+	);
+	if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+		return retryAfterMs;
+	}
+
+	const retryAfter = getHeader(error.responseHeaders, "retry-after");
+	if (!retryAfter) return undefined;
+
+	const seconds = Number(retryAfter);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(retryAfter);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function createRateLimiter(
+	options: RateLimitOptions = {},
+	onRateLimited?: (event: RateLimitedEvent) => void,
+): RateLimiter {
+	const { requestsPerMinute, tokensPerMinute } = options;
+	const maxRetries = Math.max(0, options.maxRetries ?? DEFAULT_MAX_RETRIES);
+	const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+	const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+	const window: WindowEntry[] = [];
+	let pausedUntil = 0;
+	let lock: Promise<unknown> = Promise.resolve();
+
+	function notify(event: RateLimitedEvent): void {
+		try {
+			onRateLimited?.(event);
+		} catch {
+			// Never let user hooks break LLM calls.
+		}
+	}
+
+	function getWait(
+		now: number,
+		tokens: number,
+	): Omit<RateLimitedEvent, "attempt" | "statusCode"> | undefined {
+		while (window[0] && window[0].time + WINDOW_MS <= now) {
+			window.shift();
+		}
+
+		if (requestsPerMinute && window.length >= requestsPerMinute) {
+			const oldest = window[window.length - requestsPerMinute];
+			return {
+				reason: "requests_per_minute",
+				waitMs: (oldest?.time ?? now) + WINDOW_MS - now,
+			};
+		}
+
+		if (tokensPerMinute && window.length > 0) {
+			const used = window.reduce((sum, entry) => sum + entry.tokens, 0);
+			if (used + tokens > tokensPerMinute) {
+				// Wait until enough reservations leave the window. A single call
+				// larger than the whole budget runs once the window is empty.
+				let freed = 0;
+				for (const entry of window) {
+					freed += entry.tokens;
+					if (used - freed + tokens <= tokensPerMinute) {
+						return {
+							reason: "tokens_per_minute",
+							waitMs: entry.time + WINDOW_MS - now,
+						};
+					}
+				}
+				const last = window[window.length - 1];
+				return {
+					reason: "tokens_per_minute",
+					waitMs: (last?.time ?? now) + WINDOW_MS - now,
+				};
+			}
+		}
+
+		return undefined;
+	}
+
+	async function waitForCapacity(tokens: number): Promise<WindowEntry> {
+		while (true) {
+			const now = Date.now();
+			if (pausedUntil > now) {
+				await sleep(pausedUntil - now);
+				continue;
+			}
+
+			const wait = getWait(now, tokens);
+			if (!wait) {
+				const entry = { time: now, tokens };
+				window.push(entry);
+				return entry;
+			}
+
+			const waitMs = Math.max(1, wait.waitMs);
+			notify({ ...wait, waitMs });
+			await sleep(waitMs);
+		}
+	}
+
+	/** Reservations are granted one at a time, in request order. */
+	function acquire(tokens: number): Promise<WindowEntry> {
+		const next = lock.then(() => waitForCapacity(tokens));
+		lock = next.catch(() => {});
+		return next;
+	}
+
+	function getBackoffMs(attempt: number): number {
+		const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+		return Math.round(delay / 2 + (Math.random() * delay) / 2);
+	}
+
+	return {
+		async run(estimatedTokens, call, countTokens) {
+			for (let attempt = 0; ; attempt++) {
+				const reservation = await acquire(estimatedTokens);
+
+				try {
+					const result = await call();
+					reservation.tokens = countTokens(result) ?? estimatedTokens;
+					return result;
+				} catch (error) {
+					// Rejected calls count as requests but consume no tokens.
+					reservation.tokens = 0;
+
+					const apiError = getApiCallError(error);
+					const statusCode = apiError?.statusCode;
+					const rateLimited =
+						statusCode !== undefined && RATE_LIMIT_STATUS_CODES.has(statusCode);
+
+					if (
+						!apiError ||
+						!(rateLimited || apiError.isRetryable) ||
+						attempt >= maxRetries
+					) {
+						throw error;
+					}
+
+					const retryAfterMs = getRetryAfterMs(apiError);
+					const waitMs =
+						retryAfterMs !== undefined
+							? retryAfterMs + Math.round(Math.random() * retryAfterMs * 0.1)
+							: getBackoffMs(attempt);
+
+					// Rate limits apply to the whole account, so pause every worker.
+					if (rateLimited) {
+						pausedUntil = Math.max(pausedUntil, Date.now() + waitMs);
+					}
+
+					notify({
+						reason: "provider_retry",
+						waitMs,
+						attempt: attempt + 1,
+						...(statusCode !== undefined ? { statusCode } : {}),
+					});
+
+					if (!rateLimited) {
+						await sleep(waitMs);
+					}
+				}
+			}
+		},
+	};
+}
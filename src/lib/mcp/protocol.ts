@@ -0,0 +1,123 @@
+import { createInterface } from "node:readline";
+
+/** JSON-RPC 2.0 error codes used by the server. */
+export const JSON_RPC_ERRORS = {
+	parseError: -32700,
+	invalidRequest: -32600,
+	methodNotFound: -32601,
+	invalidParams: -32602,
+	internalError: -32603,
+} as const;
+
+export interface JsonRpcRequest {
+	jsonrpc: "2.0";
+	/** Absent for notifications, which get no response */
+	id?: string | number | null;
+	method: string;
+	params?: unknown;
+}
+
+export type JsonRpcResponse =
+	| { jsonrpc: "2.0"; id: string | number | null; result: unknown }
+	| {
+			jsonrpc: "2.0";
+			id: string | number | null;
+			error: { code: number; message: string };
+	  };
+
+export function createErrorResponse(
+	id: string | number | null,
+	code: number,
+	message: string,
+): JsonRpcResponse {
+	return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+/** Handles one request. Resolves to undefined for notifications. */
+export type JsonRpcHandler = (
+	request: JsonRpcRequest,
+) => Promise<JsonRpcResponse | undefined>;
+
+function isRequest(value: unknown): value is JsonRpcRequest {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		(value as JsonRpcRequest).jsonrpc === "2.0" &&
+		typeof (value as JsonRpcRequest).method === "string"
+	);
+}
+
+/**
+ * Parses a message and runs it through the handler. Batches are handled
+ * element by element. A handler that throws gets an internal error response.
+ */
+export async function handleJsonRpcMessage(
+	message: string,
+	handler: JsonRpcHandler,
+): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(message);
+	} catch {
+		return createErrorResponse(null, JSON_RPC_ERRORS.parseError, "Parse error");
+	}
+
+	const handleOne = async (
+		value: unknown,
+	): Promise<JsonRpcResponse | undefined> => {
+		if (!isRequest(value)) {
+			return createErrorResponse(
+				null,
+				JSON_RPC_ERRORS.invalidRequest,
+				"Invalid request",
+			);
+		}
+		try {
+			return await handler(value);
+		} catch (error) {
+			// Notifications get no response, not even an error.
+			if (value.id === undefined) return undefined;
+			return createErrorResponse(
+				value.id,
+				JSON_RPC_ERRORS.internalError,
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+	};
+
+	if (Array.isArray(parsed)) {
+		const responses = (await Promise.all(parsed.map(handleOne))).filter(
+			(response) => response !== undefined,
+		);
+		return responses.length > 0 ? responses : undefined;
+	}
+	return handleOne(parsed);
+}
+
+/**
+ * Serves JSON-RPC over newline-delimited messages, the MCP stdio transport.
+ * Resolves when the input ends.
+ */
+export async function serveJsonRpc(
+	handler: JsonRpcHandler,
+	input: NodeJS.ReadableStream,
+	output: NodeJS.WritableStream,
+): Promise<void> {
+	const lines = createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+	const inFlight = new Set<Promise<void>>();
+
+	for await (const line of lines) {
+		if (!line.trim()) continue;
+
+		// Requests run concurrently, responses are matched by ID.
+		const handled = handleJsonRpcMessage(line, handler).then((response) => {
+			if (response !== undefined) {
+				output.write(`${JSON.stringify(response)}\n`);
+			}
+		});
+		inFlight.add(handled);
+		void handled.finally(() => inFlight.delete(handled));
+	}
+
+	await Promise.all(inFlight);
+}
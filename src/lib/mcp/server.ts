@@ -0,0 +1,331 @@
+import { z } from "zod";
+import type { TagSchema } from "../config.js";
+import { parseChunks, renderChunks } from "../processing/chunks.js";
+import { searchChunks } from "../search/search.js";
+import {
+	type FileStorage,
+	PROCESSED_DIR_NAME,
+	RAW_DIR_NAME,
+} from "../storage/file-storage.js";
+import type { SearchQuery, TagValueType } from "../types.js";
+import {
+	JSON_RPC_ERRORS,
+	type JsonRpcHandler,
+	createErrorResponse,
+} from "./protocol.js";
+
+/** Protocol versions the server speaks, newest first. */
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const DEFAULT_TAG_VALUES_LIMIT = 100;
+
+interface McpTool {
+	name: string;
+	description: string;
+	inputSchema: z.ZodType;
+	/** Text returned as is, anything else as JSON */
+	call(input: unknown): Promise<unknown>;
+}
+
+export interface McpServerOptions {
+	storage: FileStorage;
+	tagSchema: TagSchema;
+	/** Topic of the corpus, shown to the client in the instructions */
+	domain?: string | undefined;
+	version?: string | undefined;
+}
+
+const tagValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+const tagFiltersSchema = z
+	.record(z.string(), z.union([tagValueSchema, z.array(tagValueSchema)]))
+	.describe(
+		"Tag values per field. An array matches any of its values, e.g. { ticker: ['NVDA', 'AMD'], sentiment: 'bullish' }",
+	);
+
+function tagValuesToStrings(value: TagValueType | undefined): string[] {
+	if (value === undefined) return [];
+	if (Array.isArray(value)) return value.map(String);
+	return [value instanceof Date ? value.toISOString() : String(value)];
+}
+
+function createTools(options: McpServerOptions): McpTool[] {
+	const { storage, tagSchema } = options;
+	const fieldList = tagSchema
+		.map((field) =>
+			field.enumValues?.length
+				? `${field.name} (${field.type}: ${field.enumValues.join(", ")})`
+				: `${field.name} (${field.type})`,
+		)
+		.join("; ");
+
+	return [
+		{
+			name: "search_chunks",
+			description: `Search chunks of processed documents by tags, text, source and creation date. Newest documents first. Tag fields: ${fieldList}`,
+			inputSchema: z.object({
+				tags: tagFiltersSchema.optional(),
+				exclude_tags: tagFiltersSchema
+					.optional()
+					.describe("Tag values a chunk must not have"),
+				text: z
+					.string()
+					.optional()
+					.describe("Case-insensitive text in the chunk title or content"),
+				source: z.string().optional(),
+				publisher: z.string().optional(),
+				from: z
+					.string()
+					.optional()
+					.describe("Documents created on or after this date, e.g. 2025-10"),
+				to: z
+					.string()
+					.optional()
+					.describe("Documents created on or before this date, e.g. 2025-12"),
+				limit: z.number().int().positive().optional().default(20),
+			}),
+			call: (input) => {
+				const { exclude_tags, ...query } = input as SearchQuery & {
+					exclude_tags?: SearchQuery["tags"];
+				};
+				return searchChunks({
+					storage,
+					tagSchema,
+					query: {
+						...query,
+						...(exclude_tags ? { excludeTags: exclude_tags } : {}),
+					},
+				});
+			},
+		},
+		{
+			name: "read_document",
+			description:
+				"Read a document by the ref returned from search_chunks, with its YAML frontmatter. Pass `chunk` to read a single chunk.",
+			inputSchema: z.object({
+				ref: z.string(),
+				layer: z
+					.enum(["processed", "raw"])
+					.optional()
+					.default("processed")
+					.describe("Processed chunks or the original raw content"),
+				chunk: z.number().int().positive().optional(),
+			}),
+			call: async (input) => {
+				const { ref, layer, chunk } = input as {
+					ref: string;
+					layer: "processed" | "raw";
+					chunk?: number;
+				};
+				// Only known refs, so the ref can't point outside the workspace.
+				if (!storage.getDocument(ref)) {
+					throw new Error(`Unknown document '${ref}'`);
+				}
+
+				if (chunk !== undefined) {
+					const { content } = await storage.readProcessedContent(ref);
+					const found = parseChunks(content).chunks.find(
+						(candidate) => candidate.number === chunk,
+					);
+					if (!found) {
+						throw new Error(`Document '${ref}' has no chunk ${chunk}`);
+					}
+					return renderChunks([found]);
+				}
+
+				const dir = layer === "raw" ? RAW_DIR_NAME : PROCESSED_DIR_NAME;
+				const content = await storage.backend.read(`${dir}/${ref}`);
+				if (content === undefined) {
+					throw new Error(`The ${layer} file of '${ref}' doesn't exist`);
+				}
+				return content;
+			},
+		},
+		{
+			name: "list_sources",
+			description:
+				"List the sources with their publishers and document counts.",
+			inputSchema: z.object({}),
+			call: async () => {
+				const sources = new Map<
+					string,
+					{ documents: number; processed: number; publishers: Set<string> }
+				>();
+				for (const entry of storage.listDocuments()) {
+					const source = sources.get(entry.source) ?? {
+						documents: 0,
+						processed: 0,
+						publishers: new Set<string>(),
+					};
+					source.documents++;
+					if (entry.status === "processed") source.processed++;
+					if (entry.publisher) source.publishers.add(entry.publisher);
+					sources.set(entry.source, source);
+				}
+
+				return [...sources].map(([source, stats]) => ({
+					source,
+					documents: stats.documents,
+					processed: stats.processed,
+					publishers: [...stats.publishers].sort(),
+				}));
+			},
+		},
+		{
+			name: "list_tag_values",
+			description: `List the values of a tag field with the number of chunks having each, most frequent first. Tag fields: ${fieldList}`,
+			inputSchema: z.object({
+				field: z.string(),
+				source: z.string().optional(),
+				limit: z
+					.number()
+					.int()
+					.positive()
+					.optional()
+					.default(DEFAULT_TAG_VALUES_LIMIT),
+			}),
+			call: async (input) => {
+				const { field, source, limit } = input as {
+					field: string;
+					source?: string;
+					limit: number;
+				};
+				const chunks = await searchChunks({
+					storage,
+					tagSchema,
+					query: {
+						...(source ? { source } : {}),
+						limit: Number.POSITIVE_INFINITY,
+					},
+				});
+
+				const counts = new Map<string, number>();
+				for (const chunk of chunks) {
+					for (const value of tagValuesToStrings(chunk.tags[field])) {
+						counts.set(value, (counts.get(value) ?? 0) + 1);
+					}
+				}
+				return [...counts]
+					.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+					.slice(0, limit)
+					.map(([value, chunks]) => ({ value, chunks }));
+			},
+		},
+		{
+			name: "get_document_counts",
+			description:
+				"Number of fetched and processed documents per source (sanitized source names).",
+			inputSchema: z.object({}),
+			call: () => storage.getDocumentCounts(),
+		},
+	];
+}
+
+function toolResult(value: unknown, isError = false) {
+	const text =
+		typeof value === "string" ? value : JSON.stringify(value, null, 2);
+	return {
+		content: [{ type: "text", text }],
+		...(isError ? { isError: true } : {}),
+	};
+}
+
+/**
+ * Model Context Protocol server exposing the workspace as tools. Returns a
+ * JSON-RPC handler, serve it with {@link serveJsonRpc}.
+ */
+export function createMcpServer(options: McpServerOptions): JsonRpcHandler {
+	const tools = createTools(options);
+	const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+	const instructions = `Search a corpus of ${options.domain ?? "documents"} split into tagged chunks. Start with search_chunks, then read_document for context. Use list_sources and list_tag_values to discover filter values.`;
+
+	async function callTool(params: unknown) {
+		const { name, arguments: args } = (params ?? {}) as {
+			name?: string;
+			arguments?: unknown;
+		};
+		const tool = name === undefined ? undefined : toolsByName.get(name);
+		if (!tool) {
+			return undefined;
+		}
+
+		const parsed = tool.inputSchema.safeParse(args ?? {});
+		if (!parsed.success) {
+			return toolResult(
+				`Invalid arguments: ${z.prettifyError(parsed.error)}`,
+				true,
+			);
+		}
+
+		try {
+			// Pick up documents processed since the last call.
+			await options.storage.refresh();
+			return toolResult(await tool.call(parsed.data));
+		} catch (error) {
+			return toolResult(
+				error instanceof Error ? error.message : String(error),
+				true,
+			);
+		}
+	}
+
+	return async (request) => {
+		// Notifications, e.g. `notifications/initialized`, get no response.
+		if (request.id === undefined) {
+			return undefined;
+		}
+		const { id } = request;
+
+		switch (request.method) {
+			case "initialize": {
+				const requested = (request.params as { protocolVersion?: string })
+					?.protocolVersion;
+				return {
+					jsonrpc: "2.0",
+					id,
+					result: {
+						protocolVersion:
+							requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+								? requested
+								: SUPPORTED_PROTOCOL_VERSIONS[0],
+						capabilities: { tools: {} },
+						serverInfo: {
+							name: "greptor",
+							version: options.version ?? "0.0.0",
+						},
+						instructions,
+					},
+				};
+			}
+			case "ping":
+				return { jsonrpc: "2.0", id, result: {} };
+			case "tools/list":
+				return {
+					jsonrpc: "2.0",
+					id,
+					result: {
+						tools: tools.map((tool) => ({
+							name: tool.name,
+							description: tool.description,
+							inputSchema: z.toJSONSchema(tool.inputSchema, { io: "input" }),
+						})),
+					},
+				};
+			case "tools/call": {
+				const result = await callTool(request.params);
+				if (!result) {
+					return createErrorResponse(
+						id,
+						JSON_RPC_ERRORS.invalidParams,
+						"Unknown tool",
+					);
+				}
+				return { jsonrpc: "2.0", id, result };
+			}
+			default:
+				return createErrorResponse(
+					id,
+					JSON_RPC_ERRORS.methodNotFound,
+					`Method not found: ${request.method}`,
+				);
+		}
+	};
+}
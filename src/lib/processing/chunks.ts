@@ -0,0 +1,118 @@
+/** A `field=value` line under a chunk heading. */
+export interface ChunkTag {
+	name: string;
+	value: string;
+}
+
+/**
+ * A chunk of a processed document:
+ *
+ * ```markdown
+ * ## 01 Short descriptive title
+ * field_1=value_1,value_2
+ * field_2=value_3
+ * <content>
+ * ```
+ */
+export interface ProcessedChunk {
+	number: number;
+	title: string;
+	tags: ChunkTag[];
+	content: string;
+}
+
+export interface ParsedChunks {
+	/** Text before the first chunk heading */
+	preamble: string;
+	chunks: ProcessedChunk[];
+}
+
+const CHUNK_HEADING_PATTERN = /^##\s+(\d{1,4})[.):-]?(?:\s+(.*))?$/;
+const TAG_LINE_PATTERN = /^([A-Za-z][\w-]*)\s*=\s*(.*)$/;
+
+export function isChunkHeading(line: string): boolean {
+	return CHUNK_HEADING_PATTERN.test(line);
+}
+
+/** Removes a ```markdown fence the model may wrap its chunks in. */
+function unwrapCodeFence(text: string): string {
+	const match =
+		/^([\s\S]*?)```(?:markdown|md)?[ \t]*\n([\s\S]*?)\n```\s*$/i.exec(text);
+	if (!match || /^##\s/m.test(match[1] ?? "")) {
+		return text;
+	}
+	return `${match[1] ?? ""}\n${match[2] ?? ""}`;
+}
+
+/**
+ * Parses processed Markdown (`## NN Title` headings, tag lines, content)
+ * into chunks. Tag lines are the `field=value` lines directly below a
+ * heading; the first other line starts the chunk content.
+ */
+export function parseChunks(text: string): ParsedChunks {
+	const lines = unwrapCodeFence(text).replace(/\r\n?/g, "\n").split("\n");
+	const chunks: ProcessedChunk[] = [];
+	const preamble: string[] = [];
+	let current: (ProcessedChunk & { lines: string[] }) | undefined;
+	let inTags = false;
+
+	const flush = () => {
+		if (!current) return;
+		const { lines: contentLines, ...chunk } = current;
+		chunks.push({ ...chunk, content: contentLines.join("\n").trim() });
+	};
+
+	for (const line of lines) {
+		const heading = CHUNK_HEADING_PATTERN.exec(line.trim());
+		if (heading) {
+			flush();
+			current = {
+				number: Number.parseInt(heading[1] ?? "0", 10),
+				title: (heading[2] ?? "").trim(),
+				tags: [],
+				content: "",
+				lines: [],
+			};
+			inTags = true;
+			continue;
+		}
+
+		if (!current) {
+			preamble.push(line);
+			continue;
+		}
+
+		if (inTags) {
+			const tag = TAG_LINE_PATTERN.exec(line.trim());
+			if (tag?.[1] && line.trim()) {
+				current.tags.push({ name: tag[1], value: (tag[2] ?? "").trim() });
+				continue;
+			}
+			inTags = false;
+		}
+
+		current.lines.push(line);
+	}
+	flush();
+
+	return { preamble: preamble.join("\n").trim(), chunks };
+}
+
+export function formatChunkNumber(number: number): string {
+	return String(number).padStart(2, "0");
+}
+
+/** Renders chunks back into the processed Markdown format. */
+export function renderChunks(chunks: ProcessedChunk[]): string {
+	return chunks
+		.map((chunk) =>
+			[
+				`## ${formatChunkNumber(chunk.number)} ${chunk.title}`,
+				...chunk.tags.map((tag) => `${tag.name}=${tag.value}`),
+				chunk.content,
+			]
+				.filter((part) => part !== "")
+				.join("\n"),
+		)
+		.join("\n\n");
+}
@@ -0,0 +1,45 @@
+import { createHash } from "node:crypto";
+import type { TagSchema } from "../config.js";
+import type { ModelConfig, OutputMode } from "../types.js";
+import { createProcessingPrompt } from "./prompts.js";
+
+/** Frontmatter field of processed files holding the processing fingerprint. */
+export const FINGERPRINT_TAG = "processing_fingerprint";
+
+export interface FingerprintInput {
+	domain: string;
+	tagSchema: TagSchema;
+	model: Pick<ModelConfig, "provider" | "model">;
+	outputMode?: OutputMode | undefined;
+	customProcessingPrompt?: string | undefined;
+}
+
+/**
+ * Hash of everything that determines how a document is processed: the
+ * prompt rendered without content (template, domain and tag schema), the
+ * output mode and the model. Documents processed with a different
+ * fingerprint are stale.
+ */
+export function createProcessingFingerprint(input: FingerprintInput): string {
+	const outputMode = input.outputMode ?? "text";
+	const prompt = createProcessingPrompt({
+		content: "",
+		domain: input.domain,
+		tagSchema: input.tagSchema,
+		format: undefined,
+		outputMode,
+		customProcessingPrompt: input.customProcessingPrompt,
+	});
+
+	return createHash("sha256")
+		.update(
+			JSON.stringify([
+				prompt,
+				outputMode,
+				input.model.provider,
+				input.model.model,
+			]),
+		)
+		.digest("hex")
+		.slice(0, 16);
+}
@@ -1,37 +1,57 @@
-import { type LanguageModel, type LanguageModelUsage, generateText } from "ai";
+import {
+	APICallError,
+	type LanguageModel,
+	type LanguageModelUsage,
+	NoObjectGeneratedError,
+	Output,
+	generateText,
+} from "ai";
 import YAML from "yaml";
-import type { DocumentRef, FileStorage } from "../storage/index.js";
-import type { GreptorHooks, Tags } from "../types.js";
+import type { TagSchema } from "../config.js";
+import { isTimedFormat } from "../formats/index.js";
+import { type RateLimiter, estimateTokens } from "../llm/rate-limiter.js";
+import type {
+	DocumentLayout,
+	DocumentRef,
+	FileStorage,
+} from "../storage/index.js";
+import type { DocumentLeases } from "../storage/lock.js";
+import type {
+	GreptorHooks,
+	ModelConfig,
+	OutputMode,
+	Tags,
+	ValidationIssue,
+	ValidationReport,
+} from "../types.js";
+import { sleep } from "../utils/sleep.js";
+import { type ProcessedChunk, parseChunks, renderChunks } from "./chunks.js";
+import { FINGERPRINT_TAG, createProcessingFingerprint } from "./fingerprint.js";
+import { createCorrectionPrompt, createProcessingPrompt } from "./prompts.js";
+import type { ProcessingQueue } from "./queue.js";
+import { splitIntoSegments } from "./segmenter.js";
+import { createChunkSchema, toProcessedChunks } from "./structured.js";
+import { validateChunks } from "./validation.js";
 
 const DEFAULT_IDLE_SLEEP_MS = 750;
+/** How often idle workers look for documents queued by other instances */
+const DEFAULT_REFRESH_INTERVAL_MS = 5_000;
+const DEFAULT_MAX_SEGMENT_TOKENS = 8_000;
 
 export interface ProcessorContext {
 	domain: string;
-	tagSchema: string;
+	tagSchema: TagSchema;
 	customProcessingPrompts?: Record<string, string>;
 	model: LanguageModel;
+	/** Provider and model ID, part of the processing fingerprint */
+	modelConfig: Pick<ModelConfig, "provider" | "model">;
+	rateLimiter: RateLimiter;
+	outputMode?: OutputMode;
+	maxSegmentTokens?: number;
 	storage: FileStorage;
 	hooks?: GreptorHooks;
 }
 
-export type ProcessingQueue = DocumentRef[];
-
-export function createProcessingQueue(): ProcessingQueue {
-	return [];
-}
-
-export function enqueue(queue: ProcessingQueue, ref: DocumentRef): void {
-	queue.push(ref);
-}
-
-export function dequeue(queue: ProcessingQueue): DocumentRef | undefined {
-	return queue.shift();
-}
-
-export function queueSize(queue: ProcessingQueue): number {
-	return queue.length;
-}
-
 function asNonEmptyString(value: unknown): string | undefined {
 	if (typeof value !== "string") return undefined;
 	const trimmed = value.trim();
@@ -61,77 +81,240 @@ function renderProcessedDocument(tags: Tags, chunkContent: string): string {
 	);
 }
 
-const PROCESSING_TEMPLATE = `# INSTRUCTIONS
-Clean, chunk, and tag the raw content for **grep-based search** in the domain: {DOMAIN}.
-
-## Core Principle
-Optimize for **single-pass grep scanning**: a single grep hit should reveal what a chunk is about without reading other chunks.
-
-## Objectives
-- Remove noise and boilerplate: ads, sponsors, intros/outros, CTAs, repetitions, contact or social links, and sign-offs.
-- Preserve **all meaning and factual detail exactly** (facts, names, dates, numbers, ranges, uncertainty, conditions, and meaningful URLs).
-- Use **minimal wording** while keeping all information.
-- Chunk the content into **semantic sections** (prefer fewer, richer chunks when possible; do not pad content to reach size targets).
-
-## Output Format (Markdown only)
-
-\`\`\`markdown
-## 01 Short descriptive title for chunk 1
-field_1=value_1,value_4
-field_2=value_2
-field_3=value_3
-<cleaned, condensed content>
-
-## 02 Short descriptive title for chunk 2
-field_1=value_1
-field_4=value_4
-field_5=value_5,value_6
-<cleaned, condensed content>
-\`\`\`
-
-## Tagging Rules
-- Use ONLY fields defined in the SCHEMA (field names must exactly match schema).
-- Do not invent new fields.
-- Omit fields with no value.
-- One tag field per line.
-- DO NOT duplicate fields. For arrays, use comma-separated values.
-- For enums, use only allowed enum values from the schema.
-- Use ISO-8601 for dates (YYYY-MM-DD).
-- Keep tag values grep-friendly: snake_case where appropriate, tickers/codes/symbols in UPPERCASE.
-- Maintain tag order as per schema.
-
-## Content Rules
-- Output MUST be plain text or Markdown with simple formatting (headings, lists, bold/italic).
-- Rewrite content to be token-efficient and grep-efficient without altering meaning.
-- Split content into short paragraphs separated by blank lines.
-- Each paragraph MUST be 1-3 sentences.
-- Each sentence MUST be declarative and information-dense.
-- Keep entities, tickers, and terms explicit; avoid pronouns.
-- Normalize numbers (e.g., "1,000,000.00", "24%").
-- Preserve uncertainty, ranges, and conditional statements exactly.
-- Do not add interpretation, synthesis, or analysis.
-- Preserve emotional tone and intent where relevant.
-- Use scores and reaction metrics (likes, dislikes, upvotes, downvotes) to infer which posts or comments carry higher importance, agreement, disagreement, or emotional weight. Incorporate these signals when summarizing content and when determining how to break it into semantic chunks.
-
-# TAG SCHEMA:
-{TAG_SCHEMA}
-
-# RAW CONTENT:
-{CONTENT}`;
-
-function createProcessingPrompt(
-	rawContent: string,
-	domain: string,
-	tagSchema: string,
-	customProcessingPrompt?: string,
-): string {
-	if (customProcessingPrompt) {
-		return customProcessingPrompt.replaceAll("{CONTENT}", rawContent);
+function addUsage(
+	a: LanguageModelUsage,
+	b: LanguageModelUsage,
+): LanguageModelUsage {
+	return {
+		...a,
+		inputTokens: (a.inputTokens ?? 0) + (b.inputTokens ?? 0),
+		outputTokens: (a.outputTokens ?? 0) + (b.outputTokens ?? 0),
+		totalTokens: (a.totalTokens ?? 0) + (b.totalTokens ?? 0),
+	};
+}
+
+async function generate(
+	ctx: ProcessorContext,
+	prompt: string,
+): Promise<{ text: string; usage: LanguageModelUsage }> {
+	// Output is roughly the size of the input, so reserve twice the prompt.
+	const { text, usage } = await ctx.rateLimiter.run(
+		estimateTokens(prompt) * 2,
+		() =>
+			generateText({
+				model: ctx.model,
+				prompt,
+				// Retries are handled by the rate limiter.
+				maxRetries: 0,
+			}),
+		(result) => result.usage.totalTokens,
+	);
+
+	if (!text) {
+		throw new Error("Failed to process content: empty LLM response");
+	}
+
+	return { text, usage };
+}
+
+/**
+ * Parses and validates the model output. Problems that can't be repaired
+ * deterministically are returned as `unfixable` issues.
+ */
+function validateOutput(
+	text: string,
+	ctx: ProcessorContext,
+	format: unknown,
+): { chunks: ProcessedChunk[]; issues: ValidationIssue[] } {
+	const { preamble, chunks } = parseChunks(text);
+	const { chunks: valid, issues } = validateChunks(chunks, ctx.tagSchema, {
+		allowTimeRange: isTimedFormat(format),
+	});
+
+	if (valid.length === 0) {
+		issues.push({
+			chunk: 0,
+			action: "unfixable",
+			message:
+				chunks.length === 0
+					? "No chunks found. Every chunk must start with a `## NN Title` heading."
+					: "All chunks are empty. Every chunk must have content below its tag lines.",
+		});
+	} else if (preamble) {
+		issues.push({
+			chunk: 0,
+			action: "removed",
+			message: "Removed text before the first chunk",
+		});
 	}
 
-	return PROCESSING_TEMPLATE.replaceAll("{DOMAIN}", domain)
-		.replaceAll("{TAG_SCHEMA}", tagSchema)
-		.replaceAll("{CONTENT}", rawContent);
+	return { chunks: valid, issues };
+}
+
+interface ProcessedOutput {
+	chunks: ProcessedChunk[];
+	/** Output stored without chunk validation (custom prompts only) */
+	unvalidated?: string;
+	issues: ValidationIssue[];
+	corrected: boolean;
+	usage: LanguageModelUsage;
+}
+
+async function processText(
+	ctx: ProcessorContext,
+	content: string,
+	format: unknown,
+	customPrompt: string | undefined,
+): Promise<ProcessedOutput> {
+	const prompt = createProcessingPrompt({
+		content,
+		domain: ctx.domain,
+		tagSchema: ctx.tagSchema,
+		format,
+		outputMode: "text",
+		customProcessingPrompt: customPrompt,
+	});
+
+	const first = await generate(ctx, prompt);
+	const output = validateOutput(first.text, ctx, format);
+
+	const isUnfixable = (issue: ValidationIssue) => issue.action === "unfixable";
+	const unfixable = output.issues.filter(isUnfixable);
+
+	if (unfixable.length === 0) {
+		return { ...output, corrected: false, usage: first.usage };
+	}
+
+	if (customPrompt) {
+		// Custom prompts may ask for a different output format. Keep their
+		// output as is rather than forcing it into chunks.
+		return {
+			chunks: [],
+			unvalidated: first.text.trim(),
+			issues: [
+				...unfixable,
+				{
+					chunk: 0,
+					action: "removed",
+					message: "Stored custom prompt output without chunk validation",
+				},
+			],
+			corrected: false,
+			usage: first.usage,
+		};
+	}
+
+	const correction = await generate(
+		ctx,
+		createCorrectionPrompt(first.text, unfixable, ctx.tagSchema, format),
+	);
+
+	const second = validateOutput(correction.text, ctx, format);
+	const stillUnfixable = second.issues.filter(isUnfixable);
+	if (stillUnfixable.length > 0) {
+		throw new Error(
+			`Invalid LLM output after correction: ${stillUnfixable
+				.map((issue) => issue.message)
+				.join(" ")}`,
+		);
+	}
+
+	return {
+		chunks: second.chunks,
+		issues: [...unfixable, ...second.issues],
+		corrected: true,
+		usage: addUsage(first.usage, correction.usage),
+	};
+}
+
+async function processStructured(
+	ctx: ProcessorContext,
+	content: string,
+	format: unknown,
+): Promise<ProcessedOutput> {
+	const allowTimeRange = isTimedFormat(format);
+	const prompt = createProcessingPrompt({
+		content,
+		domain: ctx.domain,
+		tagSchema: ctx.tagSchema,
+		format,
+		outputMode: "structured",
+	});
+
+	const { output, usage } = await ctx.rateLimiter.run(
+		estimateTokens(prompt) * 2,
+		() =>
+			generateText({
+				model: ctx.model,
+				prompt,
+				output: Output.object({
+					schema: createChunkSchema(ctx.tagSchema, { allowTimeRange }),
+					name: "processed_document",
+				}),
+				maxRetries: 0,
+			}),
+		(result) => result.usage.totalTokens,
+	);
+
+	const { chunks, issues } = validateChunks(
+		toProcessedChunks(output),
+		ctx.tagSchema,
+		{ allowTimeRange },
+	);
+
+	if (chunks.length === 0) {
+		throw new Error("Failed to process content: no chunks in LLM response");
+	}
+
+	return { chunks, issues, corrected: false, usage };
+}
+
+/**
+ * Whether a failed structured call should be retried in text mode: the
+ * provider rejected the request or the response did not match the schema.
+ * Transient and rate limit errors are left to the queue retries.
+ */
+function shouldFallBackToText(error: unknown): boolean {
+	if (NoObjectGeneratedError.isInstance(error)) return true;
+	return APICallError.isInstance(error) && !error.isRetryable;
+}
+
+/**
+ * Joins the outputs of a document's segments, numbering chunks
+ * continuously. Chunk numbers in issues are shifted to match.
+ */
+function mergeOutputs(outputs: ProcessedOutput[]): {
+	content: string;
+	issues: ValidationIssue[];
+} {
+	const parts: string[] = [];
+	const issues: ValidationIssue[] = [];
+	let offset = 0;
+
+	for (const output of outputs) {
+		for (const issue of output.issues) {
+			issues.push(
+				issue.chunk > 0 ? { ...issue, chunk: issue.chunk + offset } : issue,
+			);
+		}
+
+		if (output.unvalidated !== undefined) {
+			parts.push(output.unvalidated);
+			continue;
+		}
+
+		parts.push(
+			renderChunks(
+				output.chunks.map((chunk) => ({
+					...chunk,
+					number: chunk.number + offset,
+				})),
+			),
+		);
+		offset += output.chunks.length;
+	}
+
+	return { content: parts.filter(Boolean).join("\n\n"), issues };
 }
 
 async function processDocument(
@@ -139,44 +322,103 @@ async function processDocument(
 	ctx: ProcessorContext,
 	raw?: { tags: Tags; content: string },
 	source?: string,
-): Promise<LanguageModelUsage> {
+): Promise<{
+	usage: LanguageModelUsage;
+	validation: ValidationReport;
+	segments: number;
+}> {
 	const { tags, content } = raw ?? (await ctx.storage.readRawContent(ref));
 
 	const customPrompt = source
 		? ctx.customProcessingPrompts?.[source]
 		: undefined;
 
-	const prompt = createProcessingPrompt(
+	// Custom prompts define their own output format, so they always use text.
+	let outputMode: OutputMode =
+		customPrompt === undefined ? (ctx.outputMode ?? "text") : "text";
+	const segments = splitIntoSegments(
 		content,
-		ctx.domain,
-		ctx.tagSchema,
-		customPrompt,
+		ctx.maxSegmentTokens ?? DEFAULT_MAX_SEGMENT_TOKENS,
 	);
+	const outputs: ProcessedOutput[] = [];
+	const fallbackIssues: ValidationIssue[] = [];
+	const usages: LanguageModelUsage[] = [];
 
-	const { text, usage } = await generateText({
-		model: ctx.model,
-		prompt,
-	});
+	for (const segment of segments) {
+		let output: ProcessedOutput | undefined;
 
-	if (!text) {
-		throw new Error("Failed to process content: empty LLM response");
+		if (outputMode === "structured") {
+			try {
+				output = await processStructured(ctx, segment, tags.format);
+			} catch (error) {
+				if (!shouldFallBackToText(error)) {
+					throw error;
+				}
+
+				// The provider won't do better on the next segments either.
+				outputMode = "text";
+				fallbackIssues.push({
+					chunk: 0,
+					action: "repaired",
+					message: `Structured output failed, used text output: ${toError(error).message}`,
+				});
+				if (NoObjectGeneratedError.isInstance(error) && error.usage) {
+					usages.push(error.usage);
+				}
+			}
+		}
+
+		if (!output) {
+			output = await processText(ctx, segment, tags.format, customPrompt);
+		}
+
+		outputs.push(output);
+		usages.push(output.usage);
 	}
 
-	const rendered = renderProcessedDocument(tags, text);
+	const merged = mergeOutputs(outputs);
+	const fingerprint = createProcessingFingerprint({
+		domain: ctx.domain,
+		tagSchema: ctx.tagSchema,
+		model: ctx.modelConfig,
+		outputMode: ctx.outputMode,
+		customProcessingPrompt: customPrompt,
+	});
+	const rendered = renderProcessedDocument(
+		{ ...tags, [FINGERPRINT_TAG]: fingerprint },
+		merged.content,
+	);
 
-	await ctx.storage.saveProcessedContent(ref, rendered);
-	return usage;
+	const usage = usages.reduce(addUsage);
+	await ctx.storage.saveProcessedContent(ref, rendered, {
+		fingerprint,
+		usage: {
+			inputTokens: usage.inputTokens ?? 0,
+			outputTokens: usage.outputTokens ?? 0,
+			totalTokens: usage.totalTokens ?? 0,
+		},
+	});
+	return {
+		usage,
+		validation: {
+			issues: [...fallbackIssues, ...merged.issues],
+			corrected: outputs.some((output) => output.corrected),
+			outputMode,
+		},
+		segments: segments.length,
+	};
 }
 
 function resolveDocumentMetadata(
 	ref: DocumentRef,
+	layout: DocumentLayout,
 	tags?: Tags,
 ): { source: string; publisher?: string; label: string } {
 	const parts = ref.split("/");
-	const filename = parts.at(-1) ?? "";
-	const labelFromPath = filename.replace(/\.md$/, "");
-	const sourceFromPath = parts[0] ?? "unknown";
-	const publisherFromPath = parts.length > 3 ? parts[1] : undefined;
+	const fromPath = layout.parse(ref);
+	const labelFromPath = (parts.at(-1) ?? "").replace(/\.md$/, "");
+	const sourceFromPath = fromPath?.source ?? parts[0] ?? "unknown";
+	const publisherFromPath = fromPath?.publisher;
 
 	const publisher = asNonEmptyString(tags?.publisher) ?? publisherFromPath;
 
@@ -187,13 +429,6 @@ function resolveDocumentMetadata(
 	};
 }
 
-function sleep(ms: number): Promise<void> {
-	return new Promise((resolve) => {
-		const t = setTimeout(resolve, ms);
-		(t as unknown as { unref?: () => void }).unref?.();
-	});
-}
-
 export interface BackgroundWorkerHandle {
 	/** Signal workers to finish their current item and exit. Resolves when all workers have stopped. */
 	stop: () => Promise<void>;
@@ -202,15 +437,21 @@ export interface BackgroundWorkerHandle {
 export function startBackgroundWorkers(args: {
 	ctx: ProcessorContext;
 	queue: ProcessingQueue;
+	/** Leases that keep other instances off documents being processed */
+	leases?: DocumentLeases;
 	concurrency?: number;
 	idleSleepMs?: number;
+	refreshIntervalMs?: number;
 }): BackgroundWorkerHandle {
 	const concurrency = Math.max(1, args.concurrency ?? 1);
 	const idleSleepMs = Math.max(50, args.idleSleepMs ?? DEFAULT_IDLE_SLEEP_MS);
-	const { ctx, queue } = args;
+	const refreshIntervalMs =
+		args.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS;
+	const { ctx, queue, leases } = args;
 	const hooks = ctx.hooks;
 	let stopping = false;
 	let activeWorkers = 0;
+	let lastRefresh = Date.now();
 	const workerPromises: Promise<void>[] = [];
 
 	function safeHookCall(call: () => void): void {
@@ -221,17 +462,94 @@ export function startBackgroundWorkers(args: {
 		}
 	}
 
+	/** Pick up documents that other instances queued or processed. */
+	async function refresh(): Promise<void> {
+		if (Date.now() - lastRefresh < refreshIntervalMs) return;
+		lastRefresh = Date.now();
+		try {
+			await queue.refresh();
+			await ctx.storage.refresh();
+		} catch {
+			// Try again on the next interval.
+		}
+	}
+
+	/**
+	 * Take the lease of a dequeued document. Resolves to false when another
+	 * instance is processing it or already did.
+	 */
+	async function claim(docRef: DocumentRef): Promise<boolean> {
+		if (!leases) return true;
+
+		if (!(await leases.acquire(docRef))) {
+			queue.release(docRef, refreshIntervalMs);
+			return false;
+		}
+
+		// The lease holder may have finished it since our last refresh.
+		await queue.refresh();
+		await ctx.storage.refresh();
+		if (!queue.has(docRef)) {
+			queue.release(docRef);
+			await leases.release(docRef);
+			return false;
+		}
+		return true;
+	}
+
 	async function workerLoop(): Promise<void> {
 		while (!stopping) {
-			const docRef = dequeue(queue);
+			const docRef = queue.dequeue();
 			if (!docRef) {
 				await sleep(idleSleepMs);
+				await refresh();
+				continue;
+			}
+
+			let claimed = false;
+			try {
+				claimed = await claim(docRef);
+			} catch {
+				queue.release(docRef, idleSleepMs);
+			}
+			if (!claimed) {
 				continue;
 			}
 
-			const wasIdle = activeWorkers === 0;
-			activeWorkers++;
+			try {
+				if (leases) {
+					await leases.hold(docRef, () => runDocument(docRef));
+				} else {
+					await runDocument(docRef);
+				}
+			} catch {
+				// runDocument handles its own errors, keep the worker alive anyway.
+				queue.release(docRef, idleSleepMs);
+			}
+		}
+	}
+
+	async function runDocument(docRef: DocumentRef): Promise<void> {
+		const wasIdle = activeWorkers === 0;
+		activeWorkers++;
+
+		let raw: { tags: Tags; content: string } | undefined;
+		let readError: Error | undefined;
+
+		try {
+			raw = await ctx.storage.readRawContent(docRef);
+		} catch (error) {
+			readError = toError(error);
+		}
+
+		const metadata = resolveDocumentMetadata(
+			docRef,
+			ctx.storage.layout,
+			raw?.tags,
+		);
+		const { source, publisher, label } = metadata;
 
+		try {
 			if (wasIdle) {
 				const counts = await ctx.storage.getDocumentCounts();
 				safeHookCall(() => {
@@ -241,74 +559,108 @@ export function startBackgroundWorkers(args: {
 					});
 				});
 			}
-
-			let raw: { tags: Tags; content: string } | undefined;
-			let readError: Error | undefined;
-
-			try {
-				raw = await ctx.storage.readRawContent(docRef);
-			} catch (error) {
-				readError = toError(error);
-			}
-
-			const { source, publisher, label } = resolveDocumentMetadata(
-				docRef,
-				raw?.tags,
-			);
-
-			const docStartTime = Date.now();
-
-			const documentsCount = await ctx.storage.getDocumentCounts();
+			await processQueued(docRef, raw, readError, metadata);
+		} catch (error) {
+			// Queue and status writes can fail too (backend error, lock
+			// timeout). Retry the document later instead of losing the worker.
+			queue.release(docRef, refreshIntervalMs);
 			safeHookCall(() => {
-				hooks?.onDocumentProcessingStarted?.({
+				hooks?.onDocumentProcessingCompleted?.({
+					success: false,
 					source,
 					publisher,
 					label,
-					documentsCount,
+					error: toError(error).message,
+					attempts: 0,
+					willRetry: true,
 				});
 			});
+		} finally {
+			activeWorkers--;
+		}
 
+		if (activeWorkers === 0 && queue.size() === 0) {
 			try {
-				if (readError) {
-					throw readError;
-				}
-
-				const usage = await processDocument(docRef, ctx, raw, source);
-				const completedDocumentsCount = await ctx.storage.getDocumentCounts();
+				const counts = await ctx.storage.getDocumentCounts();
 				safeHookCall(() => {
-					hooks?.onDocumentProcessingCompleted?.({
-						success: true,
-						source,
-						publisher,
-						label,
-						documentsCount: completedDocumentsCount,
-						elapsedMs: Date.now() - docStartTime,
-						inputTokens: usage?.inputTokens ?? 0,
-						outputTokens: usage?.outputTokens ?? 0,
-						totalTokens: usage?.totalTokens ?? 0,
-					});
+					hooks?.onProcessingCompleted?.({ documentsCount: counts });
 				});
-			} catch (error) {
+			} catch {
+				// Counts are informational, skip the event.
+			}
+		}
+	}
+
+	/**
+	 * Process a dequeued document and record the outcome in the queue.
+	 * Throws only when that bookkeeping fails.
+	 */
+	async function processQueued(
+		docRef: DocumentRef,
+		raw: { tags: Tags; content: string } | undefined,
+		readError: Error | undefined,
+		metadata: ReturnType<typeof resolveDocumentMetadata>,
+	): Promise<void> {
+		const { source, publisher, label } = metadata;
+		const docStartTime = Date.now();
+
+		const documentsCount = await ctx.storage.getDocumentCounts();
+		safeHookCall(() => {
+			hooks?.onDocumentProcessingStarted?.({
+				source,
+				publisher,
+				label,
+				documentsCount,
+			});
+		});
+
+		let result: Awaited<ReturnType<typeof processDocument>>;
+		try {
+			if (readError) {
+				throw readError;
+			}
+			result = await processDocument(docRef, ctx, raw, source);
+		} catch (error) {
+			const message = toError(error).message;
+			const outcome = await queue.fail(docRef, message);
+			if (outcome.type === "dead-letter") {
+				await ctx.storage.setDocumentStatus(docRef, "failed", message);
+			}
+			// Removed documents fail because their files are gone, that's expected.
+			if (outcome.type !== "removed") {
 				safeHookCall(() => {
 					hooks?.onDocumentProcessingCompleted?.({
 						success: false,
 						source,
 						publisher,
 						label,
-						error: toError(error).message,
+						error: message,
+						attempts: outcome.attempts,
+						willRetry: outcome.type === "retry",
 					});
 				});
 			}
-
-			activeWorkers--;
-
-			if (activeWorkers === 0 && queueSize(queue) === 0) {
-				const counts = await ctx.storage.getDocumentCounts();
-				safeHookCall(() => {
-					hooks?.onProcessingCompleted?.({ documentsCount: counts });
-				});
-			}
+			return;
 		}
+
+		const { usage, validation, segments } = result;
+		await queue.complete(docRef);
+		const completedDocumentsCount = await ctx.storage.getDocumentCounts();
+		safeHookCall(() => {
+			hooks?.onDocumentProcessingCompleted?.({
+				success: true,
+				source,
+				publisher,
+				label,
+				documentsCount: completedDocumentsCount,
+				elapsedMs: Date.now() - docStartTime,
+				inputTokens: usage?.inputTokens ?? 0,
+				outputTokens: usage?.outputTokens ?? 0,
+				totalTokens: usage?.totalTokens ?? 0,
+				validation,
+				segments,
+			});
+		});
 	}
 
 	for (let i = 0; i < concurrency; i++) {
@@ -328,10 +680,6 @@ export async function enqueueUnprocessedDocuments(args: {
 	queue: ProcessingQueue;
 }): Promise<number> {
 	const refs = await args.storage.getUnprocessedContents();
-
-	for (const ref of refs) {
-		enqueue(args.queue, ref);
-	}
-
-	return refs.length;
+	const added = await args.queue.enqueueMany(refs);
+	return added.length;
 }
@@ -0,0 +1,164 @@
+import YAML from "yaml";
+import type { TagSchema } from "../config.js";
+import { TIME_RANGE_TAG, isTimedFormat } from "../formats/index.js";
+import type { OutputMode, ValidationIssue } from "../types.js";
+
+const PROCESSING_TEMPLATE = `# INSTRUCTIONS
+Clean, chunk, and tag the raw content for **grep-based search** in the domain: {DOMAIN}.
+
+## Core Principle
+Optimize for **single-pass grep scanning**: a single grep hit should reveal what a chunk is about without reading other chunks.
+
+## Objectives
+- Remove noise and boilerplate: ads, sponsors, intros/outros, CTAs, repetitions, contact or social links, and sign-offs.
+- Preserve **all meaning and factual detail exactly** (facts, names, dates, numbers, ranges, uncertainty, conditions, and meaningful URLs).
+- Use **minimal wording** while keeping all information.
+- Chunk the content into **semantic sections** (prefer fewer, richer chunks when possible; do not pad content to reach size targets).
+
+{OUTPUT_FORMAT}
+
+## Tagging Rules
+- Use ONLY fields defined in the SCHEMA (field names must exactly match schema).
+- Do not invent new fields.
+- Omit fields with no value.
+- One tag field per line.
+- DO NOT duplicate fields. For arrays, use comma-separated values.
+- For enums, use only allowed enum values from the schema.
+- Use ISO-8601 for dates (YYYY-MM-DD).
+- Keep tag values grep-friendly: snake_case where appropriate, tickers/codes/symbols in UPPERCASE.
+- Maintain tag order as per schema.
+
+## Content Rules
+- Output MUST be plain text or Markdown with simple formatting (headings, lists, bold/italic).
+- Rewrite content to be token-efficient and grep-efficient without altering meaning.
+- Split content into short paragraphs separated by blank lines.
+- Each paragraph MUST be 1-3 sentences.
+- Each sentence MUST be declarative and information-dense.
+- Keep entities, tickers, and terms explicit; avoid pronouns.
+- Normalize numbers (e.g., "1,000,000.00", "24%").
+- Preserve uncertainty, ranges, and conditional statements exactly.
+- Do not add interpretation, synthesis, or analysis.
+- Preserve emotional tone and intent where relevant.
+- Use scores and reaction metrics (likes, dislikes, upvotes, downvotes) to infer which posts or comments carry higher importance, agreement, disagreement, or emotional weight. Incorporate these signals when summarizing content and when determining how to break it into semantic chunks.
+{FORMAT_RULES}
+# TAG SCHEMA:
+{TAG_SCHEMA}
+
+# RAW CONTENT:
+{CONTENT}`;
+
+const TEXT_OUTPUT_FORMAT = `## Output Format (Markdown only)
+
+\`\`\`markdown
+## 01 Short descriptive title for chunk 1
+field_1=value_1,value_4
+field_2=value_2
+field_3=value_3
+<cleaned, condensed content>
+
+## 02 Short descriptive title for chunk 2
+field_1=value_1
+field_4=value_4
+field_5=value_5,value_6
+<cleaned, condensed content>
+\`\`\``;
+
+const STRUCTURED_OUTPUT_FORMAT = `## Output Format (JSON)
+Return a JSON object with a \`chunks\` array, in content order. Each chunk has:
+- \`title\`: short descriptive title of the chunk
+- \`tags\`: an object with every SCHEMA field. Use null for fields with no value and arrays for array fields.
+- \`content\`: cleaned, condensed content (plain text or simple Markdown)`;
+
+const TIMED_FORMAT_RULES = `
+## Timestamp Rules
+- The raw content is a transcript. Each paragraph starts with a \`[HH:MM:SS-HH:MM:SS]\` time range marker.
+- Add a \`${TIME_RANGE_TAG}=HH:MM:SS-HH:MM:SS\` tag line as the FIRST tag line of every chunk, even though it is not in the SCHEMA.
+- The range starts at the start of the first paragraph and ends at the end of the last paragraph the chunk is based on.
+- Do not copy the time range markers into the chunk content.
+`;
+
+const THREAD_FORMAT_RULES = `
+## Thread Rules
+- The raw content is a discussion thread: the post first, then comments as a nested list where deeper indentation means a reply to the comment above.
+- Every comment header line shows the author, \`score: N\` and timestamp. Weigh comments by score relative to their siblings and the post.
+- Keep who said what: attribute opinions and claims to their authors where it matters.
+`;
+
+function getFormatRules(format: unknown): string {
+	if (isTimedFormat(format)) return TIMED_FORMAT_RULES;
+	if (format === "thread") return THREAD_FORMAT_RULES;
+	return "";
+}
+
+export function createProcessingPrompt(args: {
+	content: string;
+	domain: string;
+	tagSchema: TagSchema;
+	format: unknown;
+	outputMode: OutputMode;
+	customProcessingPrompt?: string | undefined;
+}): string {
+	const formatRules = getFormatRules(args.format);
+
+	if (args.customProcessingPrompt) {
+		return args.customProcessingPrompt
+			.replaceAll("{FORMAT_RULES}", formatRules)
+			.replaceAll("{CONTENT}", args.content);
+	}
+
+	return PROCESSING_TEMPLATE.replaceAll("{DOMAIN}", args.domain)
+		.replaceAll(
+			"{OUTPUT_FORMAT}",
+			args.outputMode === "structured"
+				? STRUCTURED_OUTPUT_FORMAT
+				: TEXT_OUTPUT_FORMAT,
+		)
+		.replaceAll("{TAG_SCHEMA}", YAML.stringify(args.tagSchema))
+		.replaceAll("{FORMAT_RULES}", formatRules)
+		.replaceAll("{CONTENT}", args.content);
+}
+
+const CORRECTION_TEMPLATE = `# INSTRUCTIONS
+Your previous output does not follow the required output format. Fix the problems listed below and return the COMPLETE corrected output. Keep all content; only fix the format and tags.
+
+## Problems
+{PROBLEMS}
+
+## Output Format (Markdown only)
+
+\`\`\`markdown
+## 01 Short descriptive title for chunk 1
+field_1=value_1,value_4
+field_2=value_2
+<cleaned, condensed content>
+
+## 02 Short descriptive title for chunk 2
+field_1=value_1
+<cleaned, condensed content>
+\`\`\`
+
+- Every chunk starts with a \`## NN Title\` heading, numbered from 01.
+- Tag lines (\`field=value\`) follow directly below the heading, one field per line, using ONLY fields and enum values from the SCHEMA.
+- Return only the chunks, without any other text.
+{FORMAT_RULES}
+# TAG SCHEMA:
+{TAG_SCHEMA}
+
+# PREVIOUS OUTPUT:
+{OUTPUT}`;
+
+/** Prompt asking the model to fix output that could not be repaired automatically. */
+export function createCorrectionPrompt(
+	output: string,
+	problems: ValidationIssue[],
+	tagSchema: TagSchema,
+	format: unknown,
+): string {
+	return CORRECTION_TEMPLATE.replaceAll(
+		"{PROBLEMS}",
+		problems.map((problem) => `- ${problem.message}`).join("\n"),
+	)
+		.replaceAll("{FORMAT_RULES}", getFormatRules(format))
+		.replaceAll("{TAG_SCHEMA}", YAML.stringify(tagSchema))
+		.replaceAll("{OUTPUT}", output);
+}
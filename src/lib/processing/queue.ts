@@ -0,0 +1,447 @@
+import type { StorageBackend } from "../storage/backend.js";
+import { createChangeCheck } from "../storage/changes.js";
+import { createFsStorageBackend } from "../storage/fs-backend.js";
+import { type WorkspaceLock, createWorkspaceLock } from "../storage/lock.js";
+import type { DocumentRef } from "../storage/types.js";
+import type { RetryOptions } from "../types.js";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 30_000;
+const DEFAULT_MAX_DELAY_MS = 60 * 60 * 1000;
+
+export interface QueueEntry {
+	ref: DocumentRef;
+	/** Number of failed processing attempts so far */
+	attempts: number;
+	enqueuedAt: string;
+	/** Earliest time the next attempt may start (ISO-8601). Absent means now. */
+	nextAttemptAt?: string;
+	lastError?: string;
+}
+
+export interface DeadLetterEntry {
+	ref: DocumentRef;
+	attempts: number;
+	lastError: string;
+	failedAt: string;
+}
+
+export type QueueFailureOutcome =
+	| { type: "retry"; attempts: number; nextAttemptAt: string }
+	| { type: "dead-letter"; attempts: number }
+	/** The document was removed while it was being processed. */
+	| { type: "removed" };
+
+interface QueueFile {
+	pending: QueueEntry[];
+	deadLetters: DeadLetterEntry[];
+}
+
+interface QueueState {
+	pending: Map<DocumentRef, QueueEntry>;
+	deadLetters: Map<DocumentRef, DeadLetterEntry>;
+}
+
+/** A change to the queue, applied in memory and replayed on the shared file. */
+type QueueChange = (state: QueueState) => void;
+
+/**
+ * Durable processing queue persisted under `.greptor/queue.json`.
+ *
+ * A document stays in the queue until it is processed or moved to the
+ * dead-letter list, so documents picked up by a worker that crashed are
+ * retried on the next start.
+ *
+ * Instances sharing a workspace each keep a copy of the queue. Changes are
+ * merged into the file under the {@link WorkspaceLock}, and {@link refresh}
+ * picks up the changes of other instances.
+ */
+export interface ProcessingQueue {
+	/**
+	 * Add a document. Returns false if it is already queued or dead-lettered.
+	 * A document that is being processed is queued again once its current
+	 * attempt ends.
+	 */
+	enqueue(ref: DocumentRef): Promise<boolean>;
+	/** Add documents in a single write. Returns the refs that were added. */
+	enqueueMany(refs: DocumentRef[]): Promise<DocumentRef[]>;
+	/** Take the next document that is due and not being processed. */
+	dequeue(): DocumentRef | undefined;
+	/**
+	 * Hand back a dequeued document without an attempt, e.g. when another
+	 * instance is processing it. It isn't dequeued again for `delayMs`.
+	 */
+	release(ref: DocumentRef, delayMs?: number): void;
+	/** Whether a document is queued, including scheduled retries. */
+	has(ref: DocumentRef): boolean;
+	/** Remove a successfully processed document. */
+	complete(ref: DocumentRef): Promise<void>;
+	/** Record a failed attempt and schedule a retry or dead-letter the document. */
+	fail(ref: DocumentRef, error: string): Promise<QueueFailureOutcome>;
+	/** Number of queued documents, including scheduled retries. */
+	size(): number;
+	getDeadLetters(): DeadLetterEntry[];
+	/** Move dead-lettered documents back to the queue (all when `refs` is omitted). */
+	requeueDeadLetters(refs?: DocumentRef[]): Promise<DocumentRef[]>;
+	/**
+	 * Drop documents from the queue and the dead-letter list. Returns the refs
+	 * that were found.
+	 */
+	remove(refs: DocumentRef[]): Promise<DocumentRef[]>;
+	/** Point a queued or dead-lettered document to its new ref after a move. */
+	rename(from: DocumentRef, to: DocumentRef): Promise<void>;
+	/**
+	 * Reload the queue file to pick up changes of other instances. Does
+	 * nothing when the file didn't change since the last reload.
+	 */
+	refresh(): Promise<void>;
+}
+
+/** Storage key of the queue file. */
+export const QUEUE_KEY = ".greptor/queue.json";
+
+async function readQueueFile(backend: StorageBackend): Promise<QueueState> {
+	const content = await backend.read(QUEUE_KEY);
+	const parsed =
+		content === undefined
+			? undefined
+			: (JSON.parse(content) as Partial<QueueFile> | undefined);
+
+	return {
+		pending: new Map(
+			(parsed?.pending ?? []).map((entry) => [entry.ref, entry]),
+		),
+		deadLetters: new Map(
+			(parsed?.deadLetters ?? []).map((entry) => [entry.ref, entry]),
+		),
+	};
+}
+
+function resolveBackend(args: {
+	baseDir?: string;
+	backend?: StorageBackend;
+}): StorageBackend {
+	if (args.backend) return args.backend;
+	if (args.baseDir !== undefined) return createFsStorageBackend(args.baseDir);
+	throw new Error("Provide `baseDir` or `backend` for the processing queue");
+}
+
+/**
+ * Opens the queue stored in `backend`, or on the local filesystem under
+ * `baseDir`.
+ */
+export async function createProcessingQueue(args: {
+	baseDir?: string;
+	backend?: StorageBackend;
+	retry?: RetryOptions | undefined;
+	lock?: WorkspaceLock | undefined;
+}): Promise<ProcessingQueue> {
+	const backend = resolveBackend(args);
+	const lock = args.lock ?? createWorkspaceLock(backend);
+	const maxAttempts = Math.max(
+		1,
+		args.retry?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+	);
+	const baseDelayMs = args.retry?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+	const maxDelayMs = args.retry?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+	const hasChanged = createChangeCheck(backend, QUEUE_KEY);
+	await hasChanged();
+	const state = await readQueueFile(backend);
+	const inFlight = new Set<DocumentRef>();
+	/** In-flight documents that changed after their attempt started. */
+	const changed = new Set<DocumentRef>();
+	/** In-flight documents that were removed after their attempt started. */
+	const removed = new Set<DocumentRef>();
+	/** Released documents and when they may be dequeued again */
+	const deferred = new Map<DocumentRef, number>();
+
+	/** Changes not written to the queue file yet */
+	let unsaved: QueueChange[] = [];
+	let writing: Promise<void> = Promise.resolve();
+	let scheduledSave: Promise<void> | undefined;
+
+	function apply(change: QueueChange): void {
+		change(state);
+		unsaved.push(change);
+	}
+
+	/** Replace the in-memory state with the file's, plus our unsaved changes. */
+	function replaceState(shared: QueueState): void {
+		for (const change of unsaved) {
+			change(shared);
+		}
+		state.pending = shared.pending;
+		state.deadLetters = shared.deadLetters;
+	}
+
+	/**
+	 * Merge the unsaved changes into the queue file. Calls made before the
+	 * write starts share it, so bursts of mutations result in a single write.
+	 */
+	function save(): Promise<void> {
+		if (!scheduledSave) {
+			scheduledSave = writing.then(async () => {
+				scheduledSave = undefined;
+				const changes = unsaved;
+				unsaved = [];
+
+				try {
+					await lock.withLock(async () => {
+						const shared = await readQueueFile(backend);
+						for (const change of changes) {
+							change(shared);
+						}
+						const data: QueueFile = {
+							pending: [...shared.pending.values()],
+							deadLetters: [...shared.deadLetters.values()],
+						};
+						await backend.write(QUEUE_KEY, JSON.stringify(data, null, 2));
+						replaceState(shared);
+					});
+				} catch (error) {
+					unsaved = [...changes, ...unsaved];
+					throw error;
+				}
+			});
+			writing = scheduledSave.catch(() => {});
+		}
+
+		return scheduledSave;
+	}
+
+	function isQueued(ref: DocumentRef): boolean {
+		return state.pending.has(ref) || state.deadLetters.has(ref);
+	}
+
+	function add(ref: DocumentRef): boolean {
+		if (isQueued(ref)) {
+			return false;
+		}
+
+		const entry: QueueEntry = {
+			ref,
+			attempts: 0,
+			enqueuedAt: new Date().toISOString(),
+		};
+		apply((shared) => {
+			if (!shared.pending.has(ref) && !shared.deadLetters.has(ref)) {
+				shared.pending.set(ref, entry);
+			}
+		});
+		return true;
+	}
+
+	function setPending(entry: QueueEntry): void {
+		apply((shared) => {
+			// Re-insert so the entry goes to the back of the queue.
+			shared.pending.delete(entry.ref);
+			shared.pending.set(entry.ref, entry);
+		});
+	}
+
+	function deletePending(ref: DocumentRef): void {
+		apply((shared) => {
+			shared.pending.delete(ref);
+		});
+	}
+
+	/** Queue a changed document again as a fresh entry. Returns false otherwise. */
+	function restartIfChanged(ref: DocumentRef): boolean {
+		if (!changed.delete(ref)) {
+			return false;
+		}
+
+		setPending({ ref, attempts: 0, enqueuedAt: new Date().toISOString() });
+		return true;
+	}
+
+	function getRetryDelay(attempts: number): number {
+		return Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+	}
+
+	return {
+		async enqueue(ref) {
+			if (inFlight.has(ref)) {
+				changed.add(ref);
+				return true;
+			}
+			if (!add(ref)) {
+				return false;
+			}
+			await save();
+			return true;
+		},
+
+		async enqueueMany(refs) {
+			const added = refs.filter(add);
+			if (added.length > 0) {
+				await save();
+			}
+			return added;
+		},
+
+		dequeue() {
+			const now = Date.now();
+			for (const entry of state.pending.values()) {
+				if (inFlight.has(entry.ref)) continue;
+				if ((deferred.get(entry.ref) ?? 0) > now) continue;
+				if (entry.nextAttemptAt && Date.parse(entry.nextAttemptAt) > now) {
+					continue;
+				}
+
+				inFlight.add(entry.ref);
+				deferred.delete(entry.ref);
+				return entry.ref;
+			}
+
+			return undefined;
+		},
+
+		release(ref, delayMs = 0) {
+			inFlight.delete(ref);
+			changed.delete(ref);
+			removed.delete(ref);
+			if (delayMs > 0) {
+				deferred.set(ref, Date.now() + delayMs);
+			}
+		},
+
+		has: (ref) => state.pending.has(ref),
+
+		async complete(ref) {
+			inFlight.delete(ref);
+			if (removed.delete(ref)) {
+				return;
+			}
+			if (!restartIfChanged(ref)) {
+				deletePending(ref);
+			}
+			await save();
+		},
+
+		async fail(ref, error) {
+			inFlight.delete(ref);
+			if (removed.delete(ref)) {
+				return { type: "removed" };
+			}
+			if (restartIfChanged(ref)) {
+				await save();
+				return {
+					type: "retry",
+					attempts: 0,
+					nextAttemptAt: new Date().toISOString(),
+				};
+			}
+			const entry = state.pending.get(ref) ?? {
+				ref,
+				attempts: 0,
+				enqueuedAt: new Date().toISOString(),
+			};
+			const attempts = entry.attempts + 1;
+
+			if (attempts >= maxAttempts) {
+				const deadLetter: DeadLetterEntry = {
+					ref,
+					attempts,
+					lastError: error,
+					failedAt: new Date().toISOString(),
+				};
+				apply((shared) => {
+					shared.pending.delete(ref);
+					shared.deadLetters.set(ref, deadLetter);
+				});
+				await save();
+				return { type: "dead-letter", attempts };
+			}
+
+			const nextAttemptAt = new Date(
+				Date.now() + getRetryDelay(attempts),
+			).toISOString();
+			setPending({ ...entry, attempts, lastError: error, nextAttemptAt });
+			await save();
+			return { type: "retry", attempts, nextAttemptAt };
+		},
+
+		size() {
+			return state.pending.size;
+		},
+
+		getDeadLetters() {
+			return [...state.deadLetters.values()].map((entry) => ({ ...entry }));
+		},
+
+		async requeueDeadLetters(refs) {
+			const selected = refs ?? [...state.deadLetters.keys()];
+			const requeued: DocumentRef[] = [];
+
+			for (const ref of selected) {
+				if (!state.deadLetters.has(ref)) continue;
+				apply((shared) => {
+					shared.deadLetters.delete(ref);
+				});
+				add(ref);
+				requeued.push(ref);
+			}
+
+			if (requeued.length > 0) {
+				await save();
+			}
+			return requeued;
+		},
+
+		async remove(refs) {
+			const found: DocumentRef[] = [];
+
+			for (const ref of refs) {
+				changed.delete(ref);
+				if (inFlight.has(ref)) {
+					removed.add(ref);
+				}
+				if (isQueued(ref)) {
+					found.push(ref);
+					apply((shared) => {
+						shared.pending.delete(ref);
+						shared.deadLetters.delete(ref);
+					});
+				}
+			}
+
+			if (found.length > 0) {
+				await save();
+			}
+			return found;
+		},
+
+		async rename(from, to) {
+			const entry = state.pending.get(from);
+			const deadLetter = state.deadLetters.get(from);
+			if (!entry && !deadLetter) {
+				return;
+			}
+
+			apply((shared) => {
+				const sharedEntry = shared.pending.get(from);
+				if (sharedEntry) {
+					shared.pending.delete(from);
+					shared.pending.set(to, { ...sharedEntry, ref: to });
+				}
+				const sharedDeadLetter = shared.deadLetters.get(from);
+				if (sharedDeadLetter) {
+					shared.deadLetters.delete(from);
+					shared.deadLetters.set(to, { ...sharedDeadLetter, ref: to });
+				}
+			});
+			await save();
+		},
+
+		async refresh() {
+			const refreshed = writing.then(async () => {
+				if (!(await hasChanged())) return;
+				replaceState(await readQueueFile(backend));
+			});
+			writing = refreshed.catch(() => {});
+			await refreshed;
+		},
+	};
+}
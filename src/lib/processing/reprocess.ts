@@ -0,0 +1,29 @@
+import type { DocumentRef, FileStorage } from "../storage/index.js";
+import type { ReprocessFilter } from "../types.js";
+
+/**
+ * Finds processed documents matching the filter whose processing
+ * fingerprint in the manifest differs from the current one for their
+ * source (or all matching documents with `filter.all`).
+ */
+export async function findStaleDocuments(args: {
+	storage: FileStorage;
+	getFingerprint: (source: string | undefined) => string;
+	filter?: ReprocessFilter | undefined;
+}): Promise<DocumentRef[]> {
+	const { from, to, all, ...filter } = args.filter ?? {};
+
+	return args.storage
+		.listDocuments({ ...filter, status: "processed" })
+		.filter((entry) => {
+			if (from || to) {
+				const createdAt = Date.parse(entry.createdAt ?? "");
+				if (Number.isNaN(createdAt)) return false;
+				if (from && createdAt < from.getTime()) return false;
+				if (to && createdAt > to.getTime()) return false;
+			}
+
+			return all || entry.fingerprint !== args.getFingerprint(entry.source);
+		})
+		.map((entry) => entry.ref);
+}
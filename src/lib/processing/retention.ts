@@ -0,0 +1,145 @@
+import { promisify } from "node:util";
+import { gzip } from "node:zlib";
+import type { DocumentRef, FileStorage } from "../storage/index.js";
+import type { ManifestEntry } from "../storage/manifest.js";
+import type {
+	ExpiredDocument,
+	RetentionReport,
+	RetentionRule,
+	RetentionRules,
+} from "../types.js";
+import type { ProcessingQueue } from "./queue.js";
+
+const gzipAsync = promisify(gzip);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Storage key prefix of archived documents. */
+export const ARCHIVE_PREFIX = "archive/";
+
+function getRule(
+	rules: RetentionRules,
+	source: string,
+): RetentionRule | undefined {
+	return rules[source] ?? rules["*"];
+}
+
+function getCreatedAt(entry: ManifestEntry): string {
+	return entry.createdAt ?? entry.addedAt;
+}
+
+/**
+ * Documents that exceed the retention rule of their source: created more
+ * than `maxAgeDays` ago, or beyond the newest `maxDocumentsPerPublisher` of
+ * their publisher. Documents without a publisher are counted together.
+ */
+export function findExpiredDocuments(args: {
+	storage: FileStorage;
+	rules: RetentionRules;
+	now?: Date;
+}): ExpiredDocument[] {
+	const now = (args.now ?? new Date()).getTime();
+	const expired = new Map<DocumentRef, ExpiredDocument>();
+
+	const byPublisher = new Map<string, ManifestEntry[]>();
+	for (const entry of args.storage.listDocuments()) {
+		const key = `${entry.source}\0${entry.publisher ?? ""}`;
+		const group = byPublisher.get(key);
+		if (group) {
+			group.push(entry);
+		} else {
+			byPublisher.set(key, [entry]);
+		}
+	}
+
+	for (const entries of byPublisher.values()) {
+		const source = entries[0]?.source ?? "";
+		const rule = getRule(args.rules, source);
+		if (!rule) continue;
+
+		// Newest first.
+		const sorted = entries.sort((a, b) =>
+			getCreatedAt(b).localeCompare(getCreatedAt(a)),
+		);
+
+		sorted.forEach((entry, position) => {
+			const age = now - Date.parse(getCreatedAt(entry));
+			const reason =
+				rule.maxAgeDays !== undefined && age > rule.maxAgeDays * DAY_MS
+					? "max-age"
+					: rule.maxDocumentsPerPublisher !== undefined &&
+							position >= rule.maxDocumentsPerPublisher
+						? "max-documents"
+						: undefined;
+			if (!reason) return;
+
+			expired.set(entry.ref, {
+				ref: entry.ref,
+				source: entry.source,
+				...(entry.publisher ? { publisher: entry.publisher } : {}),
+				createdAt: getCreatedAt(entry),
+				reason,
+				action: rule.action ?? "archive",
+			});
+		});
+	}
+
+	return [...expired.values()].sort((a, b) => a.ref.localeCompare(b.ref));
+}
+
+/** Writes gzipped copies of the raw and processed files to `archive/`. */
+async function archiveDocument(
+	storage: FileStorage,
+	ref: DocumentRef,
+): Promise<void> {
+	for (const layer of ["raw", "processed"] as const) {
+		const content = await storage.backend.read(`${layer}/${ref}`);
+		if (content === undefined) continue;
+		await storage.backend.write(
+			`${ARCHIVE_PREFIX}${layer}/${ref}.gz`,
+			new Uint8Array(await gzipAsync(content)),
+		);
+	}
+}
+
+/**
+ * Archives or deletes expired documents and drops them from the queue.
+ * With `dryRun`, only reports what would be affected.
+ */
+export async function applyRetention(args: {
+	storage: FileStorage;
+	queue: ProcessingQueue;
+	rules: RetentionRules;
+	dryRun?: boolean | undefined;
+	now?: Date;
+}): Promise<RetentionReport> {
+	const { storage, queue } = args;
+	const dryRun = args.dryRun ?? false;
+	const documents = findExpiredDocuments({
+		storage,
+		rules: args.rules,
+		...(args.now ? { now: args.now } : {}),
+	});
+	const report: RetentionReport = {
+		dryRun,
+		documents,
+		archived: [],
+		deleted: [],
+	};
+	if (dryRun) {
+		return report;
+	}
+
+	for (const document of documents) {
+		if (document.action === "archive") {
+			await archiveDocument(storage, document.ref);
+		}
+		await queue.remove([document.ref]);
+		await storage.removeDocuments([document.ref]);
+		report[document.action === "archive" ? "archived" : "deleted"].push(
+			document.ref,
+		);
+	}
+
+	return report;
+}
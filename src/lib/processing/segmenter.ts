@@ -0,0 +1,146 @@
+import { estimateTokens } from "../llm/rate-limiter.js";
+
+const HEADING_PATTERN = /^#{1,6}\s/;
+const SENTENCE_PATTERN = /[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g;
+
+/**
+ * Splits text into blocks separated by blank lines. Blank lines inside
+ * fenced code blocks don't end a block.
+ */
+function splitBlocks(text: string): string[] {
+	const blocks: string[] = [];
+	let current: string[] = [];
+	let inFence = false;
+
+	for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+		}
+
+		if (!inFence && !line.trim()) {
+			if (current.length > 0) {
+				blocks.push(current.join("\n"));
+				current = [];
+			}
+			continue;
+		}
+
+		current.push(line);
+	}
+
+	if (current.length > 0) {
+		blocks.push(current.join("\n"));
+	}
+
+	return blocks;
+}
+
+/** Splits a block that is over the budget into lines, sentences, then characters. */
+function splitOversizedBlock(block: string, maxTokens: number): string[] {
+	if (estimateTokens(block) <= maxTokens) {
+		return [block];
+	}
+
+	const lines = block.split("\n");
+	if (lines.length > 1) {
+		return pack(
+			lines.flatMap((line) => splitOversizedBlock(line, maxTokens)),
+			maxTokens,
+			"\n",
+		);
+	}
+
+	const sentences = block.match(SENTENCE_PATTERN)?.filter((s) => s.trim());
+	if (sentences && sentences.length > 1) {
+		return pack(
+			sentences.flatMap((sentence) =>
+				splitOversizedBlock(sentence.trim(), maxTokens),
+			),
+			maxTokens,
+			" ",
+		);
+	}
+
+	// A single sentence over the budget: cut at the closest space.
+	const maxChars = maxTokens * 4;
+	const parts: string[] = [];
+	let rest = block;
+	while (rest.length > maxChars) {
+		const space = rest.lastIndexOf(" ", maxChars);
+		const cut = space > maxChars / 2 ? space : maxChars;
+		parts.push(rest.slice(0, cut).trim());
+		rest = rest.slice(cut).trim();
+	}
+	if (rest) {
+		parts.push(rest);
+	}
+	return parts;
+}
+
+/** Greedily joins parts into pieces within the budget. */
+function pack(parts: string[], maxTokens: number, separator: string): string[] {
+	const packed: string[] = [];
+	let current = "";
+
+	for (const part of parts) {
+		const candidate = current ? `${current}${separator}${part}` : part;
+		if (current && estimateTokens(candidate) > maxTokens) {
+			packed.push(current);
+			current = part;
+		} else {
+			current = candidate;
+		}
+	}
+
+	if (current) {
+		packed.push(current);
+	}
+
+	return packed;
+}
+
+/**
+ * Splits raw content into segments of at most `maxTokens` (estimated) along
+ * paragraph boundaries, preferring to start a new segment at a heading once
+ * the current one is half full. Paragraphs over the budget are split by
+ * lines, then sentences. Content that fits is returned as a single segment.
+ */
+export function splitIntoSegments(
+	content: string,
+	maxTokens: number,
+): string[] {
+	if (estimateTokens(content) <= maxTokens) {
+		return [content];
+	}
+
+	const blocks = splitBlocks(content).flatMap((block) =>
+		splitOversizedBlock(block, maxTokens),
+	);
+
+	const segments: string[] = [];
+	let current: string[] = [];
+	let currentTokens = 0;
+
+	for (const block of blocks) {
+		const tokens = estimateTokens(block);
+		const full = currentTokens + tokens > maxTokens;
+		const headingBreak =
+			HEADING_PATTERN.test(block) && currentTokens >= maxTokens / 2;
+
+		if (current.length > 0 && (full || headingBreak)) {
+			segments.push(current.join("\n\n"));
+			current = [];
+			currentTokens = 0;
+		}
+
+		current.push(block);
+		// Account for the blank line joining blocks.
+		currentTokens += tokens + 1;
+	}
+
+	if (current.length > 0) {
+		segments.push(current.join("\n\n"));
+	}
+
+	return segments;
+}
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import type { TagSchema, TagSchemaItem } from "../config.js";
+import { TIME_RANGE_TAG } from "../formats/index.js";
+import type { ChunkTag, ProcessedChunk } from "./chunks.js";
+
+type TagValue = string | number | boolean | string[] | number[] | null;
+
+export interface StructuredChunks {
+	chunks: {
+		title: string;
+		tags: Record<string, TagValue | undefined>;
+		content: string;
+	}[];
+}
+
+function enumSchema(field: TagSchemaItem) {
+	const [first, ...rest] = field.enumValues ?? [];
+	return first === undefined ? z.string() : z.enum([first, ...rest]);
+}
+
+function fieldSchema(field: TagSchemaItem): z.ZodType<TagValue> {
+	switch (field.type) {
+		case "string":
+			return z.string().nullable();
+		case "string[]":
+			return z.array(z.string()).nullable();
+		case "number":
+			return z.number().nullable();
+		case "number[]":
+			return z.array(z.number()).nullable();
+		case "boolean":
+			return z.boolean().nullable();
+		case "enum":
+			return enumSchema(field).nullable();
+		case "enum[]":
+			return z.array(enumSchema(field)).nullable();
+		case "date":
+			return z.iso.date().nullable();
+	}
+}
+
+/**
+ * Derives the structured output schema from the tag schema. Every field is
+ * required but nullable, as providers with strict JSON schema support
+ * don't allow optional properties.
+ */
+export function createChunkSchema(
+	tagSchema: TagSchema,
+	options: { allowTimeRange?: boolean } = {},
+): z.ZodType<StructuredChunks> {
+	const tags: Record<string, z.ZodType<TagValue>> = {};
+	if (options.allowTimeRange) {
+		tags[TIME_RANGE_TAG] = z
+			.string()
+			.regex(/^\d{2}:\d{2}:\d{2}-\d{2}:\d{2}:\d{2}$/)
+			.describe(
+				"Time range of the chunk in the transcript (HH:MM:SS-HH:MM:SS)",
+			);
+	}
+	for (const field of tagSchema) {
+		tags[field.name] = fieldSchema(field).describe(field.description);
+	}
+
+	return z.object({
+		chunks: z.array(
+			z.object({
+				title: z.string().describe("Short descriptive title of the chunk"),
+				tags: z.object(tags),
+				content: z.string().describe("Cleaned, condensed content"),
+			}),
+		),
+	});
+}
+
+/** Converts structured output into chunks, ready for validation and rendering. */
+export function toProcessedChunks(output: StructuredChunks): ProcessedChunk[] {
+	return output.chunks.map((chunk, index) => {
+		const tags: ChunkTag[] = [];
+		for (const [name, value] of Object.entries(chunk.tags)) {
+			if (value === null || value === undefined) continue;
+			const rendered = Array.isArray(value) ? value.join(",") : String(value);
+			if (rendered) {
+				tags.push({ name, value: rendered });
+			}
+		}
+
+		return {
+			number: index + 1,
+			title: chunk.title,
+			tags,
+			content: chunk.content,
+		};
+	});
+}
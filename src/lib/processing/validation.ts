@@ -0,0 +1,289 @@
+import type { TagSchema, TagSchemaItem } from "../config.js";
+import { TIME_RANGE_TAG } from "../formats/index.js";
+import type { ValidationIssue } from "../types.js";
+import type { ChunkTag, ProcessedChunk } from "./chunks.js";
+
+const TIME_RANGE_PATTERN = /^\d{2}:\d{2}:\d{2}-\d{2}:\d{2}:\d{2}$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TITLE_FALLBACK_WORDS = 8;
+
+export interface ChunkValidationResult {
+	chunks: ProcessedChunk[];
+	issues: ValidationIssue[];
+}
+
+function normalizeName(name: string): string {
+	return name
+		.trim()
+		.toLowerCase()
+		.replace(/[\s-]+/g, "_");
+}
+
+function normalizeEnumValue(value: string): string {
+	return value
+		.trim()
+		.toLowerCase()
+		.replace(/[\s-]+/g, "_");
+}
+
+function splitList(value: string): string[] {
+	return value
+		.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+function normalizeNumber(value: string): string | undefined {
+	const cleaned = value.replace(/[,_\s]/g, "");
+	if (!cleaned) return undefined;
+	const parsed = Number(cleaned);
+	return Number.isFinite(parsed) ? String(parsed) : undefined;
+}
+
+function normalizeBoolean(value: string): string | undefined {
+	const lowered = value.trim().toLowerCase();
+	if (["true", "yes", "y", "1"].includes(lowered)) return "true";
+	if (["false", "no", "n", "0"].includes(lowered)) return "false";
+	return undefined;
+}
+
+function normalizeDate(value: string): string | undefined {
+	const trimmed = value.trim();
+	if (ISO_DATE_PATTERN.test(trimmed)) {
+		return Number.isNaN(Date.parse(trimmed)) ? undefined : trimmed;
+	}
+
+	const isoPrefix = /^(\d{4}-\d{2}-\d{2})T/.exec(trimmed)?.[1];
+	if (isoPrefix) return isoPrefix;
+
+	const parsed = Date.parse(trimmed);
+	if (Number.isNaN(parsed)) return undefined;
+	return new Date(parsed).toISOString().slice(0, 10);
+}
+
+function matchEnum(
+	value: string,
+	allowed: readonly string[],
+): string | undefined {
+	if (allowed.includes(value)) return value;
+	const normalized = normalizeEnumValue(value);
+	return allowed.find((option) => normalizeEnumValue(option) === normalized);
+}
+
+/**
+ * Normalizes a tag value to its schema type. Returns the normalized values
+ * (one for scalar types) and the values that could not be normalized.
+ */
+export function normalizeTagValues(
+	field: TagSchemaItem,
+	rawValues: string[],
+): { values: string[]; invalid: string[] } {
+	const values: string[] = [];
+	const invalid: string[] = [];
+	const add = (normalized: string | undefined, raw: string) => {
+		if (normalized === undefined) {
+			invalid.push(raw);
+		} else if (!values.includes(normalized)) {
+			values.push(normalized);
+		}
+	};
+
+	for (const raw of rawValues) {
+		switch (field.type) {
+			case "number":
+			case "number[]":
+				add(normalizeNumber(raw), raw);
+				break;
+			case "boolean":
+				add(normalizeBoolean(raw), raw);
+				break;
+			case "date":
+				add(normalizeDate(raw), raw);
+				break;
+			case "enum":
+			case "enum[]":
+				add(matchEnum(raw, field.enumValues ?? []), raw);
+				break;
+			default:
+				add(raw.trim() || undefined, raw);
+		}
+	}
+
+	return { values, invalid };
+}
+
+function isArrayType(field: TagSchemaItem): boolean {
+	return field.type.endsWith("[]");
+}
+
+function validateTags(
+	chunkNumber: number,
+	tags: ChunkTag[],
+	schema: TagSchema,
+	allowTimeRange: boolean,
+	issues: ValidationIssue[],
+): ChunkTag[] {
+	const fieldsByName = new Map(schema.map((field) => [field.name, field]));
+	const collected = new Map<string, string[]>();
+	let timeRange: string | undefined;
+
+	for (const tag of tags) {
+		const name = fieldsByName.has(tag.name)
+			? tag.name
+			: normalizeName(tag.name);
+
+		if (name === TIME_RANGE_TAG && allowTimeRange) {
+			if (!TIME_RANGE_PATTERN.test(tag.value)) {
+				issues.push({
+					chunk: chunkNumber,
+					field: name,
+					action: "removed",
+					message: `Invalid time range '${tag.value}'`,
+				});
+			} else if (timeRange === undefined) {
+				timeRange = tag.value;
+			}
+			continue;
+		}
+
+		const field = fieldsByName.get(name);
+		if (!field) {
+			issues.push({
+				chunk: chunkNumber,
+				field: tag.name,
+				action: "removed",
+				message: `Unknown field '${tag.name}'`,
+			});
+			continue;
+		}
+
+		if (name !== tag.name) {
+			issues.push({
+				chunk: chunkNumber,
+				field: name,
+				action: "repaired",
+				message: `Renamed field '${tag.name}' to '${name}'`,
+			});
+		}
+
+		const existing = collected.get(name);
+		if (existing) {
+			issues.push({
+				chunk: chunkNumber,
+				field: name,
+				action: "repaired",
+				message: isArrayType(field)
+					? "Merged duplicate field"
+					: "Dropped duplicate field, kept the first value",
+			});
+			if (!isArrayType(field)) continue;
+		}
+
+		const rawValues = isArrayType(field) ? splitList(tag.value) : [tag.value];
+		collected.set(name, [...(existing ?? []), ...rawValues]);
+	}
+
+	const result: ChunkTag[] = [];
+	if (timeRange !== undefined) {
+		result.push({ name: TIME_RANGE_TAG, value: timeRange });
+	}
+
+	// Emit tags in schema order.
+	for (const field of schema) {
+		const rawValues = collected.get(field.name);
+		if (!rawValues) continue;
+
+		const { values, invalid } = normalizeTagValues(field, rawValues);
+		const original = isArrayType(field) ? rawValues.join(",") : rawValues[0];
+
+		if (invalid.length > 0) {
+			issues.push({
+				chunk: chunkNumber,
+				field: field.name,
+				action: "removed",
+				message: `Invalid ${field.type} value${invalid.length > 1 ? "s" : ""} '${invalid.join(",")}'`,
+			});
+		}
+
+		if (values.length === 0) continue;
+
+		const value = values.join(",");
+		if (invalid.length === 0 && value !== original) {
+			issues.push({
+				chunk: chunkNumber,
+				field: field.name,
+				action: "repaired",
+				message: `Normalized '${original}' to '${value}'`,
+			});
+		}
+
+		result.push({ name: field.name, value });
+	}
+
+	return result;
+}
+
+/**
+ * Validates processed chunks against the tag schema and deterministically
+ * repairs what can be repaired: unknown fields and invalid values are
+ * removed, field names and values are normalized, duplicates are merged,
+ * tags are put in schema order and chunks are renumbered.
+ */
+export function validateChunks(
+	chunks: ProcessedChunk[],
+	schema: TagSchema,
+	options: { allowTimeRange?: boolean } = {},
+): ChunkValidationResult {
+	const issues: ValidationIssue[] = [];
+	const valid: ProcessedChunk[] = [];
+
+	for (const chunk of chunks) {
+		const number = valid.length + 1;
+
+		if (!chunk.content.trim()) {
+			issues.push({
+				chunk: chunk.number,
+				action: "removed",
+				message: "Removed chunk without content",
+			});
+			continue;
+		}
+
+		if (chunk.number !== number) {
+			issues.push({
+				chunk: chunk.number,
+				action: "repaired",
+				message: `Renumbered chunk ${chunk.number} to ${number}`,
+			});
+		}
+
+		let title = chunk.title.replace(/\s+/g, " ").trim();
+		if (!title) {
+			title = chunk.content
+				.replace(/\s+/g, " ")
+				.split(" ")
+				.slice(0, TITLE_FALLBACK_WORDS)
+				.join(" ");
+			issues.push({
+				chunk: number,
+				action: "repaired",
+				message: "Added missing chunk title",
+			});
+		}
+
+		valid.push({
+			number,
+			title,
+			tags: validateTags(
+				number,
+				chunk.tags,
+				schema,
+				options.allowTimeRange ?? false,
+				issues,
+			),
+			content: chunk.content.trim(),
+		});
+	}
+
+	return { chunks: valid, issues };
+}
@@ -0,0 +1,264 @@
+import type { TagSchema, TagSchemaItem } from "../config.js";
+import { type ProcessedChunk, parseChunks } from "../processing/chunks.js";
+import { normalizeTagValues } from "../processing/validation.js";
+import type { FileStorage } from "../storage/file-storage.js";
+import type { ManifestEntry } from "../storage/manifest.js";
+import type {
+	SearchQuery,
+	SearchResult,
+	TagFilter,
+	TagValueType,
+	Tags,
+} from "../types.js";
+
+const DEFAULT_SEARCH_LIMIT = 100;
+
+interface TagMatcher {
+	name: string;
+	field: TagSchemaItem | undefined;
+	matches(values: string[]): boolean;
+}
+
+function isArrayField(field: TagSchemaItem | undefined): boolean {
+	return field?.type.endsWith("[]") ?? false;
+}
+
+function splitList(value: string): string[] {
+	return value
+		.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+function toDateString(value: Date | string): string {
+	return value instanceof Date ? value.toISOString() : value.trim();
+}
+
+/**
+ * Values as the schema normalizes them, lowercased so that strings and
+ * enums compare case-insensitively. Values of unknown fields are only
+ * trimmed and lowercased.
+ */
+function normalize(
+	field: TagSchemaItem | undefined,
+	values: string[],
+): string[] {
+	const normalized = field
+		? normalizeTagValues(field, values).values
+		: values.map((value) => value.trim()).filter(Boolean);
+	return normalized.map((value) => value.toLowerCase());
+}
+
+function createTagMatcher(
+	name: string,
+	filter: TagFilter,
+	field: TagSchemaItem | undefined,
+): TagMatcher {
+	const wanted = (Array.isArray(filter) ? filter : [filter]).map(String);
+
+	// Dates match by prefix, so `2025-10` selects the whole month.
+	if (field?.type === "date") {
+		return {
+			name,
+			field,
+			matches: (values) =>
+				values.some((value) =>
+					wanted.some((prefix) => value.startsWith(prefix.trim())),
+				),
+		};
+	}
+
+	const expected = normalize(field, wanted);
+	if (field && expected.length < wanted.length) {
+		const { invalid } = normalizeTagValues(field, wanted);
+		const allowed =
+			field.enumValues && field.enumValues.length > 0
+				? ` Allowed values: ${field.enumValues.join(", ")}`
+				: "";
+		throw new Error(
+			`Invalid value '${invalid.join(", ")}' for ${field.type} field '${name}'.${allowed}`,
+		);
+	}
+
+	return {
+		name,
+		field,
+		matches: (values) => values.some((value) => expected.includes(value)),
+	};
+}
+
+function frontmatterValues(value: TagValueType | undefined): string[] {
+	if (value === undefined) return [];
+	if (value instanceof Date) return [value.toISOString().slice(0, 10)];
+	if (Array.isArray(value)) return value.map(String);
+	return [String(value)];
+}
+
+/**
+ * Normalized values of a field on a chunk, falling back to the document's
+ * frontmatter.
+ */
+function getTagValues(
+	matcher: TagMatcher,
+	chunk: ProcessedChunk,
+	documentTags: Tags,
+): string[] {
+	const tag = chunk.tags.find((candidate) => candidate.name === matcher.name);
+	const raw = tag
+		? isArrayField(matcher.field)
+			? splitList(tag.value)
+			: [tag.value]
+		: frontmatterValues(documentTags[matcher.name]);
+	return normalize(matcher.field, raw);
+}
+
+/** Chunk tag values converted to their schema types. */
+function toTypedTags(
+	chunk: ProcessedChunk,
+	fields: Map<string, TagSchemaItem>,
+): Tags {
+	const tags: Tags = {};
+	for (const { name, value } of chunk.tags) {
+		if (name in tags) continue;
+
+		switch (fields.get(name)?.type) {
+			case "number":
+				tags[name] = Number(value);
+				break;
+			case "number[]":
+				tags[name] = splitList(value).map(Number);
+				break;
+			case "boolean":
+				tags[name] = value === "true";
+				break;
+			case "string[]":
+			case "enum[]":
+				tags[name] = splitList(value);
+				break;
+			default:
+				tags[name] = value;
+		}
+	}
+	return tags;
+}
+
+function sameName(a: string, b: string): boolean {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function getCreatedAt(entry: ManifestEntry): string {
+	return entry.createdAt ?? entry.addedAt;
+}
+
+function matchesDocument(entry: ManifestEntry, query: SearchQuery): boolean {
+	if (query.source && !sameName(entry.source, query.source)) {
+		return false;
+	}
+	if (
+		query.publisher &&
+		!(entry.publisher && sameName(entry.publisher, query.publisher))
+	) {
+		return false;
+	}
+
+	const createdAt = getCreatedAt(entry);
+	if (query.from && createdAt < toDateString(query.from)) {
+		return false;
+	}
+	if (query.to) {
+		// Compare only as much as given, so `to: "2025-10"` includes October.
+		const to = toDateString(query.to);
+		if (createdAt.slice(0, to.length) > to) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Parses `name=value` filters. Comma-separated values and repeated names
+ * are alternatives: `ticker=NVDA,AMD` matches either ticker.
+ */
+export function parseTagFilters(filters: string[]): Record<string, TagFilter> {
+	const parsed: Record<string, string[]> = {};
+	for (const filter of filters) {
+		const separator = filter.indexOf("=");
+		const name = filter.slice(0, separator).trim();
+		const values = filter
+			.slice(separator + 1)
+			.split(",")
+			.map((value) => value.trim())
+			.filter(Boolean);
+		if (separator === -1 || !name || values.length === 0) {
+			throw new Error(`Invalid tag filter '${filter}', expected name=value`);
+		}
+		parsed[name] = [...(parsed[name] ?? []), ...values];
+	}
+	return parsed;
+}
+
+/**
+ * Finds chunks of processed documents matching the query, newest documents
+ * first and chunks in document order. Throws when a tag filter has a value
+ * its schema type doesn't allow, e.g. an unknown enum value.
+ */
+export async function searchChunks(args: {
+	storage: FileStorage;
+	tagSchema: TagSchema;
+	query: SearchQuery;
+}): Promise<SearchResult[]> {
+	const { storage, tagSchema, query } = args;
+	const limit = query.limit ?? DEFAULT_SEARCH_LIMIT;
+	const fields = new Map(tagSchema.map((field) => [field.name, field]));
+	const toMatchers = (filters: Record<string, TagFilter> = {}) =>
+		Object.entries(filters).map(([name, filter]) =>
+			createTagMatcher(name, filter, fields.get(name)),
+		);
+	const matchers = toMatchers(query.tags);
+	const excluded = toMatchers(query.excludeTags);
+	const text = query.text?.trim().toLowerCase();
+
+	const documents = storage
+		.listDocuments({ status: "processed" })
+		.filter((entry) => matchesDocument(entry, query))
+		.sort((a, b) => getCreatedAt(b).localeCompare(getCreatedAt(a)));
+
+	const results: SearchResult[] = [];
+	for (const entry of documents) {
+		if (results.length >= limit) break;
+
+		let document: { tags: Tags; content: string };
+		try {
+			document = await storage.readProcessedContent(entry.ref);
+		} catch {
+			// Removed since the manifest was read.
+			continue;
+		}
+
+		for (const chunk of parseChunks(document.content).chunks) {
+			const matches = (matcher: TagMatcher) =>
+				matcher.matches(getTagValues(matcher, chunk, document.tags));
+			if (!matchers.every(matches) || excluded.some(matches)) continue;
+			if (
+				text &&
+				!`${chunk.title}\n${chunk.content}`.toLowerCase().includes(text)
+			) {
+				continue;
+			}
+
+			results.push({
+				ref: entry.ref,
+				chunk: chunk.number,
+				title: chunk.title,
+				tags: toTypedTags(chunk, fields),
+				content: chunk.content,
+				source: entry.source,
+				...(entry.publisher ? { publisher: entry.publisher } : {}),
+				createdAt: getCreatedAt(entry),
+			});
+			if (results.length >= limit) break;
+		}
+	}
+
+	return results;
+}
@@ -0,0 +1,77 @@
+import type { GreptorHooks } from "../types.js";
+
+/** Name of a hook without the `on` prefix, e.g. `documentProcessingCompleted`. */
+export type GreptorEventType = {
+	[K in keyof GreptorHooks]-?: K extends `on${infer Name}`
+		? Uncapitalize<Name>
+		: never;
+}[keyof GreptorHooks];
+
+export interface GreptorEvent {
+	type: GreptorEventType;
+	data: unknown;
+}
+
+/** Hooks that forward every event to the current listeners. */
+export interface HookBroadcaster {
+	/** Pass these as `hooks` to {@link createGreptor}. */
+	hooks: Required<GreptorHooks>;
+	/** Returns a function that removes the listener. */
+	subscribe(listener: (event: GreptorEvent) => void): () => void;
+}
+
+/**
+ * Creates hooks that broadcast events, e.g. to server-sent event streams.
+ * `forward` hooks are called as well, so user hooks keep working.
+ */
+export function createHookBroadcaster(
+	forward: GreptorHooks = {},
+): HookBroadcaster {
+	const listeners = new Set<(event: GreptorEvent) => void>();
+
+	function emit(type: GreptorEventType, data: unknown): void {
+		for (const listener of listeners) {
+			try {
+				listener({ type, data });
+			} catch {
+				// A failing listener must not affect the others.
+			}
+		}
+	}
+
+	return {
+		hooks: {
+			onProcessingStarted: (event) => {
+				emit("processingStarted", event);
+				forward.onProcessingStarted?.(event);
+			},
+			onProcessingCompleted: (event) => {
+				emit("processingCompleted", event);
+				forward.onProcessingCompleted?.(event);
+			},
+			onDocumentProcessingStarted: (event) => {
+				emit("documentProcessingStarted", event);
+				forward.onDocumentProcessingStarted?.(event);
+			},
+			onDocumentProcessingCompleted: (event) => {
+				emit("documentProcessingCompleted", event);
+				forward.onDocumentProcessingCompleted?.(event);
+			},
+			onRateLimited: (event) => {
+				emit("rateLimited", event);
+				forward.onRateLimited?.(event);
+			},
+			onDocumentsRemoved: (event) => {
+				emit("documentsRemoved", event);
+				forward.onDocumentsRemoved?.(event);
+			},
+		},
+
+		subscribe(listener) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+	};
+}
@@ -0,0 +1,313 @@
+import { timingSafeEqual } from "node:crypto";
+import {
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+	createServer,
+} from "node:http";
+import { z } from "zod";
+import type { Greptor } from "../greptor.js";
+import { parseTagFilters } from "../search/search.js";
+import type { GreptorEatInput, SearchQuery, SearchResult } from "../types.js";
+import type { HookBroadcaster } from "./events.js";
+
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+const SSE_KEEPALIVE_MS = 15_000;
+
+export interface HttpServerOptions {
+	greptor: Greptor;
+	/** Events of the Greptor instance, streamed from `GET /events` */
+	events?: HookBroadcaster | undefined;
+	/** Require `Authorization: Bearer <token>` on every request */
+	token?: string | undefined;
+	/** Largest accepted request body. Defaults to 10 MB. */
+	maxBodyBytes?: number | undefined;
+}
+
+type HttpError = Error & { status: number };
+
+function httpError(status: number, message: string): HttpError {
+	return Object.assign(new Error(message), { status });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+	res.writeHead(status, { "content-type": "application/json" });
+	res.end(JSON.stringify(body));
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+	const header = req.headers.authorization ?? "";
+	const given = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+	const expected = Buffer.from(token);
+	return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(
+	req: IncomingMessage,
+	maxBytes: number,
+): Promise<unknown> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += (chunk as Buffer).length;
+		if (size > maxBytes) {
+			throw httpError(413, `Request body exceeds ${maxBytes} bytes`);
+		}
+		chunks.push(chunk as Buffer);
+	}
+
+	try {
+		return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+	} catch {
+		throw httpError(400, "Invalid JSON body");
+	}
+}
+
+const tagValueSchema = z.union([
+	z.string(),
+	z.number(),
+	z.boolean(),
+	z.array(z.string()),
+	z.array(z.number()),
+	z.array(z.boolean()),
+]);
+
+const threadCommentSchema = z.object({
+	author: z.string(),
+	content: z.string(),
+	score: z.number().optional(),
+	createdAt: z.coerce.date().optional(),
+	get children() {
+		return z.array(threadCommentSchema).optional();
+	},
+});
+
+const eatInputBaseSchema = z.object({
+	label: z.string().min(1),
+	source: z.string().min(1),
+	publisher: z.string().optional(),
+	id: z.string().optional(),
+	creationDate: z.coerce.date().optional(),
+	tags: z.record(z.string(), tagValueSchema).optional(),
+	overwrite: z.boolean().optional(),
+});
+
+/** JSON body of a document. Date strings become dates, as the formats expect. */
+const eatInputSchema = z.discriminatedUnion("format", [
+	eatInputBaseSchema.extend({
+		format: z.enum(["text", "html", "vtt", "srt"]),
+		content: z.string(),
+	}),
+	eatInputBaseSchema.extend({
+		format: z.literal("thread"),
+		content: z.object({
+			post: z.object({
+				author: z.string(),
+				content: z.string(),
+				title: z.string().optional(),
+				url: z.string().optional(),
+				score: z.number().optional(),
+				createdAt: z.coerce.date().optional(),
+			}),
+			comments: z.array(threadCommentSchema),
+		}),
+	}),
+]);
+
+function toEatInput(value: unknown, label = "Document"): GreptorEatInput {
+	const result = eatInputSchema.safeParse(value);
+	if (!result.success) {
+		throw httpError(
+			400,
+			`${label} is invalid:\n${z.prettifyError(result.error)}`,
+		);
+	}
+	return result.data;
+}
+
+function toSearchQuery(params: URLSearchParams): SearchQuery {
+	const limit = params.get("limit");
+	if (
+		limit !== null &&
+		!(Number.isInteger(Number(limit)) && Number(limit) > 0)
+	) {
+		throw httpError(400, `Invalid limit '${limit}'`);
+	}
+
+	const query: SearchQuery = {
+		tags: parseTagFilters(params.getAll("tag")),
+		excludeTags: parseTagFilters(params.getAll("not")),
+	};
+	for (const key of ["text", "source", "publisher", "from", "to"] as const) {
+		const value = params.get(key);
+		if (value) query[key] = value;
+	}
+	if (limit !== null) query.limit = Number(limit);
+	return query;
+}
+
+/**
+ * HTTP API of a Greptor instance:
+ *
+ * - `POST /documents` - eat a document, or an array of documents
+ * - `GET /documents/:ref` - manifest entry and content (`?layer=raw|processed`)
+ * - `GET /search` - search chunks (`tag`, `not`, `text`, `source`,
+ *   `publisher`, `from`, `to`, `limit`)
+ * - `GET /status` - document counts, queue depth and failures
+ * - `GET /events` - processing hooks as server-sent events
+ */
+export function createHttpServer(options: HttpServerOptions): Server {
+	const { greptor, events, token } = options;
+	const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+	async function postDocuments(req: IncomingMessage, res: ServerResponse) {
+		const body = await readJsonBody(req, maxBodyBytes);
+
+		if (Array.isArray(body)) {
+			const inputs = body.map((item, index) =>
+				toEatInput(item, `Document ${index}`),
+			);
+			sendJson(res, 200, await greptor.eatMany(inputs));
+			return;
+		}
+
+		const result = await greptor.eat(toEatInput(body));
+		const status = result.success ? 201 : result.duplicateOf ? 409 : 400;
+		sendJson(res, status, result);
+	}
+
+	async function getDocument(
+		ref: string,
+		url: URL,
+		res: ServerResponse,
+	): Promise<void> {
+		const document = greptor.getDocument(ref);
+		if (!document) {
+			throw httpError(404, `Unknown document '${ref}'`);
+		}
+
+		const layer =
+			url.searchParams.get("layer") ??
+			(document.status === "processed" ? "processed" : "raw");
+		if (layer !== "raw" && layer !== "processed") {
+			throw httpError(400, `Invalid layer '${layer}'`);
+		}
+		if (layer === "processed" && document.status !== "processed") {
+			throw httpError(404, `Document '${ref}' isn't processed yet`);
+		}
+
+		const { tags, content } = await greptor.readDocument(ref, layer);
+		sendJson(res, 200, { document, layer, tags, content });
+	}
+
+	async function search(url: URL, res: ServerResponse): Promise<void> {
+		let results: SearchResult[];
+		try {
+			results = await greptor.search(toSearchQuery(url.searchParams));
+		} catch (error) {
+			// Tag values the schema doesn't allow, e.g. unknown enum values.
+			throw httpError(
+				400,
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+		sendJson(res, 200, results);
+	}
+
+	async function getStatus(res: ServerResponse): Promise<void> {
+		const deadLetters = await greptor.getDeadLetters();
+		sendJson(res, 200, {
+			documentsCount: await greptor.getDocumentCounts(),
+			queue: { pending: greptor.getQueueSize(), failed: deadLetters.length },
+			failures: deadLetters,
+		});
+	}
+
+	function streamEvents(req: IncomingMessage, res: ServerResponse): void {
+		if (!events) {
+			throw httpError(404, "Events are not available");
+		}
+
+		res.writeHead(200, {
+			"content-type": "text/event-stream",
+			"cache-control": "no-cache",
+			connection: "keep-alive",
+		});
+		res.write(": connected\n\n");
+
+		const unsubscribe = events.subscribe((event) => {
+			res.write(
+				`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`,
+			);
+		});
+		// Comments keep proxies from closing idle streams.
+		const keepalive = setInterval(
+			() => res.write(": keepalive\n\n"),
+			SSE_KEEPALIVE_MS,
+		);
+
+		req.on("close", () => {
+			clearInterval(keepalive);
+			unsubscribe();
+		});
+	}
+
+	async function route(req: IncomingMessage, res: ServerResponse) {
+		if (token && !isAuthorized(req, token)) {
+			res.setHeader("www-authenticate", "Bearer");
+			throw httpError(401, "Unauthorized");
+		}
+
+		const url = new URL(req.url ?? "/", "http://localhost");
+		const method = req.method ?? "GET";
+		const path = url.pathname;
+
+		const allow = (...methods: string[]) => {
+			if (!methods.includes(method)) {
+				res.setHeader("allow", methods.join(", "));
+				throw httpError(405, `Method ${method} not allowed`);
+			}
+		};
+
+		if (path === "/documents") {
+			allow("POST");
+			return postDocuments(req, res);
+		}
+		if (path.startsWith("/documents/")) {
+			allow("GET");
+			let ref: string;
+			try {
+				ref = decodeURIComponent(path.slice("/documents/".length));
+			} catch {
+				throw httpError(400, "Malformed document ref");
+			}
+			return getDocument(ref, url, res);
+		}
+		if (path === "/search") {
+			allow("GET");
+			return search(url, res);
+		}
+		if (path === "/status") {
+			allow("GET");
+			return getStatus(res);
+		}
+		if (path === "/events") {
+			allow("GET");
+			return streamEvents(req, res);
+		}
+
+		throw httpError(404, "Not found");
+	}
+
+	return createServer((req, res) => {
+		route(req, res).catch((error: unknown) => {
+			const status = (error as Partial<HttpError>).status ?? 500;
+			const message = error instanceof Error ? error.message : String(error);
+			if (res.headersSent) {
+				res.end();
+				return;
+			}
+			sendJson(res, status, { error: message });
+		});
+	});
+}
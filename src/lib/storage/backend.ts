@@ -0,0 +1,39 @@
+/**
+ * Storage for Greptor's files: raw and processed documents, the processing
+ * queue, the config and compressed archives. Keys are `/`-separated paths relative to
+ * the storage root, e.g. `raw/youtube/2025-12/2025-12-06-some-label.md` or
+ * `.greptor/queue.json`.
+ *
+ * Implement this interface to keep Greptor's data somewhere other than the
+ * local filesystem and pass it as `GreptorOptions.storage`.
+ */
+export interface StorageBackend {
+	/** Read a file. Resolves to `undefined` when it doesn't exist. */
+	read(key: string): Promise<string | undefined>;
+	/** Read a binary file. Resolves to `undefined` when it doesn't exist. */
+	readBytes(key: string): Promise<Uint8Array | undefined>;
+	/**
+	 * Create or overwrite a file. Strings are written as UTF-8. Readers must
+	 * never see a partially written file.
+	 */
+	write(key: string, content: string | Uint8Array): Promise<void>;
+	/**
+	 * Create a file unless it exists, atomically across processes. Resolves
+	 * to false when the file exists.
+	 */
+	writeIfAbsent(key: string, content: string): Promise<boolean>;
+	/**
+	 * Delete a file only if its content is still `content`, atomically across
+	 * processes. Resolves to false when it changed or doesn't exist.
+	 */
+	removeIfMatch(key: string, content: string): Promise<boolean>;
+	/** When a file was last written. Resolves to `undefined` when it doesn't exist. */
+	lastModified(key: string): Promise<Date | undefined>;
+	/** Append to a file, creating it when it doesn't exist. */
+	append(key: string, content: string): Promise<void>;
+	exists(key: string): Promise<boolean>;
+	/** All keys under the prefix (recursively), sorted. */
+	list(prefix: string): Promise<string[]>;
+	/** Delete a file. Deleting a missing file is not an error. */
+	remove(key: string): Promise<void>;
+}
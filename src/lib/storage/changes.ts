@@ -0,0 +1,35 @@
+import type { StorageBackend } from "./backend.js";
+
+/**
+ * How long after a write its modification time is trusted. S3 reports
+ * whole seconds and clocks of instances drift, so a second write shortly
+ * after the first can keep the same time.
+ */
+const SETTLE_MS = 5_000;
+
+/**
+ * Returns a check that resolves to true when the file may have changed
+ * since the last time the check resolved to true, so callers reload it
+ * only then. Costs one `lastModified` call instead of reading the file.
+ */
+export function createChangeCheck(
+	backend: StorageBackend,
+	key: string,
+): () => Promise<boolean> {
+	let seen: { modified: number | undefined; checkedAt: number } | undefined;
+
+	return async () => {
+		const checkedAt = Date.now();
+		const modified = (await backend.lastModified(key))?.getTime();
+		if (
+			seen &&
+			seen.modified === modified &&
+			(modified === undefined || seen.checkedAt - modified > SETTLE_MS)
+		) {
+			return false;
+		}
+
+		seen = { modified, checkedAt };
+		return true;
+	};
+}
@@ -1,128 +1,149 @@
-import type { Dirent } from "node:fs";
-import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
-import path from "node:path";
 import YAML from "yaml";
 import type {
 	DocumentRef,
 	DocumentAddResult as DocumentSaveResult,
 } from "../storage/types.js";
-import type { GreptorEatInput, SourceCounts, Tags } from "../types.js";
-import { fileExists } from "../utils/file.js";
+import type {
+	DocumentListFilter,
+	DocumentVersion,
+	RawDocumentInput,
+	SourceCounts,
+	Tags,
+} from "../types.js";
+import type { StorageBackend } from "./backend.js";
+import { createFsStorageBackend } from "./fs-backend.js";
+import { type DocumentLayout, createDocumentLayout } from "./layout.js";
+import { type WorkspaceLock, createWorkspaceLock } from "./lock.js";
+import {
+	type DocumentManifest,
+	type ManifestEntry,
+	createManifest,
+	hashContent,
+	loadManifest,
+} from "./manifest.js";
 
 export const RAW_DIR_NAME = "raw";
 export const PROCESSED_DIR_NAME = "processed";
+/** Storage key prefix of previous raw versions of overwritten documents. */
+export const HISTORY_PREFIX = ".greptor/history/";
 
+/** Raw and processed documents, stored in a {@link StorageBackend}. */
 export interface FileStorage {
-	readonly baseDir: string;
-	readonly rawContentPath: string;
-	readonly processedContentPath: string;
+	readonly backend: StorageBackend;
+	/** Path layout of new documents */
+	readonly layout: DocumentLayout;
 
-	saveRawContent(input: GreptorEatInput): Promise<DocumentSaveResult>;
+	saveRawContent(input: RawDocumentInput): Promise<DocumentSaveResult>;
 	readRawContent(ref: DocumentRef): Promise<{ tags: Tags; content: string }>;
 	getUnprocessedContents(): Promise<DocumentRef[]>;
-	saveProcessedContent(ref: DocumentRef, content: string): Promise<void>;
+	saveProcessedContent(
+		ref: DocumentRef,
+		content: string,
+		details?: ProcessedContentDetails,
+	): Promise<void>;
+	readProcessedContent(
+		ref: DocumentRef,
+	): Promise<{ tags: Tags; content: string }>;
+	getProcessedContents(): Promise<DocumentRef[]>;
 	getDocumentCounts(): Promise<SourceCounts>;
+	/** Manifest entry of a document. */
+	getDocument(ref: DocumentRef): ManifestEntry | undefined;
+	listDocuments(filter?: DocumentListFilter): ManifestEntry[];
+	/** Mark a document as failed (dead-lettered) or back to pending. */
+	setDocumentStatus(
+		ref: DocumentRef,
+		status: "pending" | "failed",
+		error?: string,
+	): Promise<void>;
+	/** Rebuild the manifest from the stored files. Returns the number of documents. */
+	rebuildManifest(): Promise<number>;
+	/**
+	 * Add raw files missing from the manifest, e.g. written by other tools or
+	 * by hand. Returns their refs.
+	 */
+	indexNewRawFiles(): Promise<DocumentRef[]>;
+	/** Raw versions of a document, oldest first. The last one is `current`. */
+	listVersions(ref: DocumentRef): Promise<DocumentVersion[]>;
+	/** Raw file content of a version returned by {@link listVersions}. */
+	readVersion(ref: DocumentRef, versionId: string): Promise<string>;
+	/**
+	 * Delete the raw and processed files, the history and the manifest entry
+	 * of documents. Returns the refs that existed.
+	 */
+	removeDocuments(refs: DocumentRef[]): Promise<DocumentRef[]>;
+	/**
+	 * Move a document's files, history and manifest entry to a new ref.
+	 * Throws when the target ref is taken.
+	 */
+	moveDocument(from: DocumentRef, to: DocumentRef): Promise<void>;
+	/** Reload the manifest to pick up documents added by other instances. */
+	refresh(): Promise<void>;
+}
+
+export interface FileStorageOptions {
+	/** Keep the previous raw file when a document is overwritten. */
+	keepHistory?: boolean;
+	/** Path template for new documents, see {@link createDocumentLayout} */
+	layout?: string | undefined;
+	/** Lock shared with the queue of the same workspace */
+	lock?: WorkspaceLock | undefined;
+}
+
+export interface ProcessedContentDetails {
+	fingerprint?: string;
+	usage?: ManifestEntry["usage"];
 }
 
-export async function createFileStorage(baseDir: string): Promise<FileStorage> {
-	const rawContentPath = path.join(baseDir, RAW_DIR_NAME);
-	const processedContentPath = path.join(baseDir, PROCESSED_DIR_NAME);
+/** Version IDs are save timestamps that are safe to use as file names. */
+function toVersionId(savedAt: string): string {
+	return savedAt.replace(/[:.]/g, "-");
+}
 
-	const sourceCounts: SourceCounts = {};
+function fromVersionId(id: string): string {
+	return id.replace(
+		/^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3}Z)$/,
+		"$1:$2:$3.$4",
+	);
+}
 
-	function resolveLayerPath(
+function asString(value: unknown): string | undefined {
+	if (value instanceof Date) return value.toISOString();
+	if (typeof value === "number") return String(value);
+	return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+/**
+ * Creates document storage on a backend, or on the local filesystem under
+ * `baseDir` when given a path.
+ */
+export async function createFileStorage(
+	baseDirOrBackend: string | StorageBackend,
+	options: FileStorageOptions = {},
+): Promise<FileStorage> {
+	const backend =
+		typeof baseDirOrBackend === "string"
+			? createFsStorageBackend(baseDirOrBackend)
+			: baseDirOrBackend;
+	const keepHistory = options.keepHistory ?? false;
+	const layout = createDocumentLayout(options.layout);
+	const lock = options.lock ?? createWorkspaceLock(backend);
+
+	function resolveLayerKey(
 		layer: "raw" | "processed",
 		ref: DocumentRef,
 	): string {
-		return path.join(baseDir, layer, ref);
+		return `${layer}/${ref}`;
 	}
 
-	function getYearMonthSegment(date: Date): string {
-		const year = String(date.getUTCFullYear());
-		const month = String(date.getUTCMonth() + 1).padStart(2, "0");
-		return `${year}-${month}`;
-	}
-
-	function sanitize(
-		name: string,
-		maxLength = 50,
-		fallback = "unknown",
+	function buildRawFileContent(
+		input: RawDocumentInput,
+		createdAt: string,
 	): string {
-		const trimmed = name.trim();
-		let sanitized = trimmed.toLowerCase().replace(/[^a-z0-9]+/g, "-");
-		sanitized = sanitized.replace(/^-+/, "").replace(/-+$/, "");
-		sanitized = sanitized.replace(/-+/g, "-");
-
-		if (sanitized.length > maxLength) {
-			sanitized = sanitized.slice(0, maxLength);
-		}
-
-		if (!sanitized || sanitized === "") {
-			return fallback;
-		}
-
-		return sanitized;
-	}
-
-	function generateDocumentRef(args: {
-		id?: string;
-		label: string;
-		source: string;
-		publisher?: string;
-		timestamp?: Date;
-	}): DocumentRef {
-		const effectiveTimestamp = args.timestamp ?? new Date();
-		const isoDate = effectiveTimestamp.toISOString().split("T")[0];
-		const safeId = sanitize(args.id ?? "", 50, "unknown");
-		const safeTitle = sanitize(args.label, 50, safeId);
-		const yearMonth = getYearMonthSegment(effectiveTimestamp);
-		const source = sanitize(args.source, 20, "unknown");
-		const publisher = args.publisher
-			? sanitize(args.publisher, 50, "unknown")
-			: undefined;
-
-		const fileName = `${isoDate}-${safeTitle}.md`;
-
-		return path.posix.join(
-			source,
-			...(publisher ? [publisher] : []),
-			yearMonth,
-			fileName,
-		);
-	}
-
-	function getSourceNameFromRef(ref: DocumentRef): string {
-		return ref.split("/")[0] ?? "unknown";
-	}
-
-	async function initializeSourceCounts(): Promise<void> {
-		const rawRefs = await listLayerRefs("raw");
-		const processedRefs = await listLayerRefs("processed");
-
-		for (const ref of rawRefs) {
-			const source = getSourceNameFromRef(ref);
-			if (!sourceCounts[source]) {
-				sourceCounts[source] = { fetched: 0, processed: 0 };
-			}
-			sourceCounts[source].fetched++;
-		}
-
-		for (const ref of processedRefs) {
-			const source = getSourceNameFromRef(ref);
-			if (!sourceCounts[source]) {
-				sourceCounts[source] = { fetched: 0, processed: 0 };
-			}
-			sourceCounts[source].processed++;
-		}
-	}
-
-	function buildRawFileContent(input: GreptorEatInput): string {
 		const yamlHeader = {
 			id: input.id,
 			title: input.label,
-			created_at: input.creationDate
-				? input.creationDate.toISOString()
-				: new Date().toISOString(),
+			created_at: createdAt,
+			format: input.format,
 			...input.tags,
 			source: input.source,
 			...(input.publisher ? { publisher: input.publisher } : {}),
@@ -142,73 +163,162 @@ export async function createFileStorage(baseDir: string): Promise<FileStorage> {
 	async function listLayerRefs(
 		layer: "raw" | "processed",
 	): Promise<DocumentRef[]> {
-		const rootFull = path.join(baseDir, layer);
-		const results: DocumentRef[] = [];
-
-		const walk = async (
-			dirFull: string,
-			dirRelative: string,
-		): Promise<void> => {
-			let entries: Dirent[];
-			try {
-				entries = await readdir(dirFull, { withFileTypes: true });
-			} catch {
-				return;
-			}
+		const layerPrefix = `${layer}/`;
+		const keys = await backend.list(layerPrefix);
+		return keys
+			.filter((key) => key.toLowerCase().endsWith(".md"))
+			.map((key) => key.slice(layerPrefix.length));
+	}
 
-			for (const entry of entries) {
-				const nextFull = path.join(dirFull, entry.name);
-				const nextRelative = path.posix.join(dirRelative, entry.name);
-				if (entry.isDirectory()) {
-					await walk(nextFull, nextRelative);
-					continue;
-				}
-				if (entry.isFile() && entry.name.toLowerCase().endsWith(".md")) {
-					results.push(nextRelative);
-				}
+	/**
+	 * Writes a new raw file, appending `-2`, `-3`, ... to the file name until
+	 * the ref is free. Other instances can't claim the same ref meanwhile.
+	 */
+	async function claimFreeRef(
+		ref: DocumentRef,
+		content: string,
+	): Promise<DocumentRef> {
+		const base = ref.replace(/\.md$/, "");
+		let candidate = ref;
+		for (
+			let n = 2;
+			!(await backend.writeIfAbsent(
+				resolveLayerKey("raw", candidate),
+				content,
+			));
+			n++
+		) {
+			candidate = `${base}-${n}.md`;
+		}
+		return candidate;
+	}
+
+	/** Operations in progress per key, e.g. per document. */
+	const running = new Map<string, Promise<void>>();
+
+	/**
+	 * Runs `fn` once earlier operations holding any of the keys settled, so
+	 * operations on the same document never interleave.
+	 */
+	function serialize<T>(keys: string[], fn: () => Promise<T>): Promise<T> {
+		const result = Promise.all(keys.map((key) => running.get(key))).then(fn);
+		const done = result.then(
+			() => {},
+			() => {},
+		);
+		for (const key of keys) {
+			running.set(key, done);
+		}
+		void done.then(() => {
+			for (const key of keys) {
+				if (running.get(key) === done) running.delete(key);
 			}
-		};
+		});
+		return result;
+	}
 
-		await walk(rootFull, "");
-		results.sort((a, b) => a.localeCompare(b));
-		return results;
+	function getDocumentKey(ref: DocumentRef): string {
+		return `ref\0${ref}`;
 	}
 
-	async function saveRawContent(
-		input: GreptorEatInput,
+	function getHistoryPrefix(ref: DocumentRef): string {
+		return `${HISTORY_PREFIX}${ref.replace(/\.md$/, "")}/`;
+	}
+
+	/** Copies the current raw file of a document to its history. */
+	async function archiveRawVersion(entry: ManifestEntry): Promise<void> {
+		const content = await backend.read(resolveLayerKey("raw", entry.ref));
+		if (content === undefined) return;
+		await backend.write(
+			`${getHistoryPrefix(entry.ref)}${toVersionId(entry.addedAt)}.md`,
+			content,
+		);
+	}
+
+	async function writeRawContent(
+		input: RawDocumentInput,
+		contentHash: string,
 	): Promise<DocumentSaveResult> {
-		try {
-			const content = buildRawFileContent(input);
-			const ref = generateDocumentRef({
-				id: input.id ?? "unknown",
-				label: input.label,
-				source: input.source,
-				...(input.publisher ? { publisher: input.publisher } : {}),
-				...(input.creationDate ? { timestamp: input.creationDate } : {}),
-			});
+		const addedAt = new Date().toISOString();
+
+		const sameId =
+			input.id !== undefined
+				? manifest.findById(input.source, input.id)
+				: undefined;
+		const existing =
+			sameId ?? manifest.findByContentHash(input.source, contentHash);
+		if (existing && !input.overwrite) {
+			return {
+				type: "duplicate",
+				ref: existing.ref,
+				reason: sameId ? "id" : "content",
+			};
+		}
 
-			const fullPath = resolveLayerPath("raw", ref);
-			if (!input.overwrite && (await fileExists(fullPath))) {
-				return {
-					type: "duplicate",
-					ref,
-				};
-			}
+		const createdAt =
+			input.creationDate?.toISOString() ?? existing?.createdAt ?? addedAt;
+		const rawContent = buildRawFileContent(input, createdAt);
 
-			await mkdir(path.dirname(fullPath), { recursive: true });
+		const toEntry = (ref: DocumentRef): ManifestEntry => ({
+			ref,
+			...(input.id ? { id: input.id } : {}),
+			contentHash,
+			source: input.source,
+			...(input.publisher ? { publisher: input.publisher } : {}),
+			createdAt,
+			addedAt,
+			status: "pending",
+		});
+
+		if (existing) {
+			const { ref } = existing;
+			// Hold the document as well, so a processed save of the old content
+			// can't land after the overwrite.
+			return serialize([getDocumentKey(ref)], async () => {
+				const rawKey = resolveLayerKey("raw", ref);
+				if ((await backend.read(rawKey)) === rawContent) {
+					// Nothing changed, keep the processed file.
+					return { type: "duplicate", ref, reason: "content" };
+				}
+				if (keepHistory) {
+					await archiveRawVersion(existing);
+				}
+				// The processed file describes the old content.
+				await backend.remove(resolveLayerKey("processed", ref));
+				await backend.write(rawKey, rawContent);
+				await manifest.set(toEntry(ref));
+				return { type: "updated", ref };
+			});
+		}
 
-			await writeFile(fullPath, content, "utf8");
+		const ref = await claimFreeRef(
+			layout.format({
+				...input,
+				timestamp: input.creationDate ?? new Date(addedAt),
+			}),
+			rawContent,
+		);
+		await manifest.set(toEntry(ref));
+		return { type: "added", ref };
+	}
 
-			const source = getSourceNameFromRef(ref);
-			if (!sourceCounts[source]) {
-				sourceCounts[source] = { fetched: 0, processed: 0 };
-			}
-			sourceCounts[source].fetched++;
+	/**
+	 * Saves of inputs with the same ID or content are serialized, so only the
+	 * first is stored and the others are duplicates of it. Other saves run in
+	 * parallel: claiming a ref is atomic.
+	 */
+	async function saveRawContent(
+		input: RawDocumentInput,
+	): Promise<DocumentSaveResult> {
+		const contentHash = hashContent(input.content);
+		const keys = [
+			`hash\0${input.source}\0${contentHash}`,
+			...(input.id !== undefined ? [`id\0${input.source}\0${input.id}`] : []),
+		];
+		const result = serialize(keys, () => writeRawContent(input, contentHash));
 
-			return {
-				type: "added",
-				ref,
-			};
+		try {
+			return await result;
 		} catch (error) {
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
@@ -219,21 +329,24 @@ export async function createFileStorage(baseDir: string): Promise<FileStorage> {
 		}
 	}
 
-	async function readRawContent(
+	async function readLayerContent(
+		layer: "raw" | "processed",
 		ref: DocumentRef,
 	): Promise<{ tags: Tags; content: string }> {
-		const fullPath = resolveLayerPath("raw", ref);
-		const content = await readFile(fullPath, "utf8");
+		const content = await backend.read(resolveLayerKey(layer, ref));
+		if (content === undefined) {
+			throw new Error(`The ${layer} file '${ref}' doesn't exist.`);
+		}
 		if (!content.startsWith("---\n")) {
 			throw new Error(
-				`Invalid raw file format. The file '${ref}' doesn't have yaml header.`,
+				`Invalid ${layer} file format. The file '${ref}' doesn't have yaml header.`,
 			);
 		}
 
 		const endIndex = content.indexOf("\n---", 4);
 		if (endIndex === -1) {
 			throw new Error(
-				`Invalid raw file format. The file '${ref}' doesn't have yaml header.`,
+				`Invalid ${layer} file format. The file '${ref}' doesn't have yaml header.`,
 			);
 		}
 
@@ -247,7 +360,7 @@ export async function createFileStorage(baseDir: string): Promise<FileStorage> {
 			Array.isArray(parsed)
 		) {
 			throw new Error(
-				`Invalid raw file format. The file '${ref}' has a non-object yaml header.`,
+				`Invalid ${layer} file format. The file '${ref}' has a non-object yaml header.`,
 			);
 		}
 
@@ -256,42 +369,269 @@ export async function createFileStorage(baseDir: string): Promise<FileStorage> {
 		return { tags, content: body };
 	}
 
-	async function getUnprocessedContents(): Promise<DocumentRef[]> {
-		const rawRefs = await listLayerRefs("raw");
-		const processedRefs = await listLayerRefs("processed");
-		const processedSet = new Set(processedRefs);
-		return rawRefs.filter((ref) => !processedSet.has(ref));
+	function listDocuments(filter: DocumentListFilter = {}): ManifestEntry[] {
+		return manifest
+			.entries()
+			.filter(
+				(entry) =>
+					(!filter.status || entry.status === filter.status) &&
+					(!filter.source || entry.source === filter.source) &&
+					(!filter.publisher || entry.publisher === filter.publisher),
+			);
 	}
 
 	async function saveProcessedContent(
 		ref: DocumentRef,
 		content: string,
+		details: ProcessedContentDetails = {},
+	): Promise<void> {
+		// A removal waits for the save, or the save for the removal and then
+		// fails: neither leaves an orphaned processed file or entry behind.
+		await serialize([getDocumentKey(ref)], async () => {
+			const { error: _, ...entry } =
+				manifest.get(ref) ?? (await readManifestEntry(ref));
+			await backend.write(resolveLayerKey("processed", ref), content);
+			await manifest.set({
+				...entry,
+				status: "processed",
+				processedAt: new Date().toISOString(),
+				...(details.fingerprint ? { fingerprint: details.fingerprint } : {}),
+				...(details.usage ? { usage: details.usage } : {}),
+			});
+		});
+	}
+
+	/** Builds a manifest entry from the stored raw and processed files. */
+	async function readManifestEntry(ref: DocumentRef): Promise<ManifestEntry> {
+		const raw = await readLayerContent("raw", ref);
+		const id = asString(raw.tags.id);
+		const publisher = asString(raw.tags.publisher);
+		const createdAt = asString(raw.tags.created_at);
+		const entry: ManifestEntry = {
+			ref,
+			...(id ? { id } : {}),
+			contentHash: hashContent(raw.content),
+			source:
+				asString(raw.tags.source) ??
+				layout.parse(ref)?.source ??
+				ref.split("/")[0] ??
+				"unknown",
+			...(publisher ? { publisher } : {}),
+			...(createdAt ? { createdAt } : {}),
+			addedAt: createdAt ?? new Date().toISOString(),
+			status: "pending",
+		};
+
+		const processed = await backend.read(resolveLayerKey("processed", ref));
+		if (processed === undefined) {
+			return entry;
+		}
+
+		const fingerprint = /^processing_fingerprint:\s*(\S+)\s*$/m.exec(
+			processed.slice(0, processed.indexOf("\n---", 4)),
+		)?.[1];
+		return {
+			...entry,
+			status: "processed",
+			...(fingerprint ? { fingerprint } : {}),
+		};
+	}
+
+	async function rebuildManifest(): Promise<number> {
+		const entries: ManifestEntry[] = [];
+		for (const ref of await listLayerRefs("raw")) {
+			const previous = manifest.get(ref);
+			let entry: ManifestEntry;
+			try {
+				entry = await readManifestEntry(ref);
+			} catch {
+				// Skip unreadable raw files, processing them would fail anyway.
+				continue;
+			}
+
+			// Keep what the files don't record.
+			entries.push({
+				...entry,
+				...(previous?.addedAt ? { addedAt: previous.addedAt } : {}),
+				...(previous?.processedAt && entry.status === "processed"
+					? { processedAt: previous.processedAt }
+					: {}),
+				...(previous?.usage && entry.status === "processed"
+					? { usage: previous.usage }
+					: {}),
+				...(previous?.status === "failed" && entry.status === "pending"
+					? {
+							status: "failed",
+							...(previous.error ? { error: previous.error } : {}),
+						}
+					: {}),
+			});
+		}
+
+		await manifest.replaceAll(entries);
+		return entries.length;
+	}
+
+	async function indexNewRawFiles(): Promise<DocumentRef[]> {
+		const added: DocumentRef[] = [];
+		for (const ref of await listLayerRefs("raw")) {
+			if (manifest.get(ref)) continue;
+			try {
+				await manifest.set(await readManifestEntry(ref));
+			} catch {
+				// Skip unreadable raw files, e.g. while they are being written.
+				continue;
+			}
+			added.push(ref);
+		}
+		return added;
+	}
+
+	async function listVersions(ref: DocumentRef): Promise<DocumentVersion[]> {
+		const entry = manifest.get(ref);
+		if (!entry) {
+			throw new Error(`Document '${ref}' doesn't exist.`);
+		}
+
+		const prefix = getHistoryPrefix(ref);
+		const versions = (await backend.list(prefix))
+			.map((key) => key.slice(prefix.length))
+			.filter((name) => /^[^/]+\.md$/.test(name))
+			.map((name) => {
+				const id = name.slice(0, -".md".length);
+				return { id, savedAt: fromVersionId(id) };
+			});
+
+		return [...versions, { id: "current", savedAt: entry.addedAt }];
+	}
+
+	async function readVersion(
+		ref: DocumentRef,
+		versionId: string,
+	): Promise<string> {
+		const key =
+			versionId === "current"
+				? resolveLayerKey("raw", ref)
+				: `${getHistoryPrefix(ref)}${versionId}.md`;
+		const content = /^[\w-]+$/.test(versionId)
+			? await backend.read(key)
+			: undefined;
+		if (content === undefined) {
+			throw new Error(`Version '${versionId}' of '${ref}' doesn't exist.`);
+		}
+		return content;
+	}
+
+	async function removeDocuments(refs: DocumentRef[]): Promise<DocumentRef[]> {
+		const removed: DocumentRef[] = [];
+
+		for (const ref of refs) {
+			const existed = await serialize([getDocumentKey(ref)], async () => {
+				const keys = [
+					resolveLayerKey("raw", ref),
+					resolveLayerKey("processed", ref),
+					...(await backend.list(getHistoryPrefix(ref))),
+				];
+				const existed =
+					manifest.get(ref) !== undefined ||
+					(await backend.exists(keys[0] ?? ""));
+
+				for (const key of keys) {
+					await backend.remove(key);
+				}
+				await manifest.delete(ref);
+				return existed;
+			});
+
+			if (existed) {
+				removed.push(ref);
+			}
+		}
+
+		return removed;
+	}
+
+	async function moveDocument(
+		from: DocumentRef,
+		to: DocumentRef,
 	): Promise<void> {
-		const processedFullPath = resolveLayerPath("processed", ref);
-		await mkdir(path.dirname(processedFullPath), { recursive: true });
-		await writeFile(processedFullPath, content, "utf8");
+		const entry = manifest.get(from);
+		if (!entry) {
+			throw new Error(`Document '${from}' doesn't exist.`);
+		}
+		if (
+			manifest.get(to) ||
+			(await backend.exists(resolveLayerKey("raw", to)))
+		) {
+			throw new Error(`Can't move '${from}', '${to}' already exists.`);
+		}
 
-		const source = getSourceNameFromRef(ref);
-		if (!sourceCounts[source]) {
-			sourceCounts[source] = { fetched: 0, processed: 0 };
+		const historyPrefix = getHistoryPrefix(from);
+		const moves: [string, string][] = [
+			[resolveLayerKey("raw", from), resolveLayerKey("raw", to)],
+			[resolveLayerKey("processed", from), resolveLayerKey("processed", to)],
+			...(await backend.list(historyPrefix)).map((key): [string, string] => [
+				key,
+				`${getHistoryPrefix(to)}${key.slice(historyPrefix.length)}`,
+			]),
+		];
+
+		// Copy everything before deleting anything, so a failure leaves the
+		// document readable at its old ref.
+		for (const [source, target] of moves) {
+			const content = await backend.read(source);
+			if (content !== undefined) {
+				await backend.write(target, content);
+			}
+		}
+		await manifest.set({ ...entry, ref: to });
+		await manifest.delete(from);
+		for (const [source] of moves) {
+			await backend.remove(source);
 		}
-		sourceCounts[source].processed++;
 	}
 
-	await initializeSourceCounts();
+	const loadedManifest = await loadManifest(backend, lock);
+	const manifest: DocumentManifest =
+		loadedManifest ?? createManifest(backend, [], lock);
+	if (!loadedManifest) {
+		// No manifest yet (e.g. data from an older version): index the files.
+		await rebuildManifest();
+	}
 
 	return {
-		baseDir,
-		rawContentPath,
-		processedContentPath,
+		backend,
+		layout,
 		saveRawContent,
-		readRawContent,
-		getUnprocessedContents,
+		readRawContent: (ref) => readLayerContent("raw", ref),
+		getUnprocessedContents: async () =>
+			manifest
+				.entries()
+				.filter((entry) => entry.status !== "processed")
+				.map((entry) => entry.ref),
 		saveProcessedContent,
-		getDocumentCounts: async (): Promise<SourceCounts> => {
-			return Object.fromEntries(
-				Object.entries(sourceCounts).map(([k, v]) => [k, { ...v }]),
-			);
+		readProcessedContent: (ref) => readLayerContent("processed", ref),
+		getProcessedContents: async () =>
+			listDocuments({ status: "processed" }).map((entry) => entry.ref),
+		getDocumentCounts: async (): Promise<SourceCounts> => manifest.getCounts(),
+		getDocument: (ref) => manifest.get(ref),
+		listDocuments,
+		async setDocumentStatus(ref, status, error) {
+			const entry = manifest.get(ref);
+			if (!entry) return;
+			const { error: _, ...rest } = entry;
+			await manifest.set({
+				...rest,
+				status,
+				...(status === "failed" && error ? { error } : {}),
+			});
 		},
+		rebuildManifest,
+		indexNewRawFiles,
+		listVersions,
+		readVersion,
+		removeDocuments,
+		moveDocument,
+		refresh: () => manifest.refresh(),
 	};
 }
@@ -0,0 +1,182 @@
+import { randomUUID } from "node:crypto";
+import type { Dirent } from "node:fs";
+import {
+	appendFile,
+	link,
+	mkdir,
+	readFile,
+	readdir,
+	rename,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { fileExists } from "../utils/file.js";
+import type { StorageBackend } from "./backend.js";
+
+/** Suffix of files being written, renamed into place when complete. */
+const TEMP_SUFFIX = ".greptor-tmp";
+
+function getErrorCode(error: unknown): string | undefined {
+	return (error as NodeJS.ErrnoException | undefined)?.code;
+}
+
+function isNotFound(error: unknown): boolean {
+	return getErrorCode(error) === "ENOENT";
+}
+
+function getTempPath(fullPath: string): string {
+	return `${fullPath}.${randomUUID().slice(0, 8)}${TEMP_SUFFIX}`;
+}
+
+/** Stores files under `baseDir`, the default backend. */
+export function createFsStorageBackend(baseDir: string): StorageBackend {
+	const root = path.resolve(baseDir);
+
+	function resolveKey(key: string): string {
+		const fullPath = path.resolve(root, ...key.split("/"));
+		if (fullPath !== root && !fullPath.startsWith(`${root}${path.sep}`)) {
+			throw new Error(`Storage key '${key}' is outside of ${baseDir}`);
+		}
+		return fullPath;
+	}
+
+	async function list(prefix: string): Promise<string[]> {
+		const results: string[] = [];
+
+		const walk = async (dirFull: string, dirKey: string): Promise<void> => {
+			let entries: Dirent[];
+			try {
+				entries = await readdir(dirFull, { withFileTypes: true });
+			} catch {
+				return;
+			}
+
+			for (const entry of entries) {
+				const nextFull = path.join(dirFull, entry.name);
+				const nextKey = dirKey ? `${dirKey}/${entry.name}` : entry.name;
+				if (entry.isDirectory()) {
+					await walk(nextFull, nextKey);
+				} else if (
+					entry.isFile() &&
+					nextKey.startsWith(prefix) &&
+					!entry.name.endsWith(TEMP_SUFFIX)
+				) {
+					results.push(nextKey);
+				}
+			}
+		};
+
+		// Walk the deepest directory the prefix names, then filter by prefix.
+		const dirKey = prefix.includes("/")
+			? prefix.slice(0, prefix.lastIndexOf("/"))
+			: "";
+		await walk(resolveKey(dirKey), dirKey);
+		results.sort((a, b) => a.localeCompare(b));
+		return results;
+	}
+
+	return {
+		async read(key) {
+			try {
+				return await readFile(resolveKey(key), "utf8");
+			} catch (error) {
+				if (isNotFound(error)) return undefined;
+				throw error;
+			}
+		},
+
+		async readBytes(key) {
+			try {
+				return new Uint8Array(await readFile(resolveKey(key)));
+			} catch (error) {
+				if (isNotFound(error)) return undefined;
+				throw error;
+			}
+		},
+
+		// Write to a temp file and rename it, so a crash never leaves a
+		// truncated file behind.
+		async write(key, content) {
+			const fullPath = resolveKey(key);
+			const tempPath = getTempPath(fullPath);
+			await mkdir(path.dirname(fullPath), { recursive: true });
+			try {
+				await writeFile(tempPath, content, "utf8");
+				await rename(tempPath, fullPath);
+			} catch (error) {
+				await rm(tempPath, { force: true });
+				throw error;
+			}
+		},
+
+		// Link a complete temp file into place: unlike the `wx` flag, readers
+		// never see the file before its content is written.
+		async writeIfAbsent(key, content) {
+			const fullPath = resolveKey(key);
+			const tempPath = getTempPath(fullPath);
+			await mkdir(path.dirname(fullPath), { recursive: true });
+			try {
+				await writeFile(tempPath, content, "utf8");
+				await link(tempPath, fullPath);
+				return true;
+			} catch (error) {
+				if (getErrorCode(error) === "EEXIST") return false;
+				throw error;
+			} finally {
+				await rm(tempPath, { force: true });
+			}
+		},
+
+		// Rename the file away first: only one process can win the rename, and
+		// it checks that it moved the expected content.
+		async removeIfMatch(key, content) {
+			const fullPath = resolveKey(key);
+			const tempPath = getTempPath(fullPath);
+			try {
+				await rename(fullPath, tempPath);
+			} catch (error) {
+				if (isNotFound(error)) return false;
+				throw error;
+			}
+
+			try {
+				if ((await readFile(tempPath, "utf8")) === content) {
+					return true;
+				}
+				// Replaced meanwhile: put it back unless yet another file took
+				// its place.
+				await link(tempPath, fullPath).catch((error: unknown) => {
+					if (getErrorCode(error) !== "EEXIST") throw error;
+				});
+				return false;
+			} finally {
+				await rm(tempPath, { force: true });
+			}
+		},
+
+		async lastModified(key) {
+			try {
+				return (await stat(resolveKey(key))).mtime;
+			} catch (error) {
+				if (isNotFound(error)) return undefined;
+				throw error;
+			}
+		},
+
+		async append(key, content) {
+			const fullPath = resolveKey(key);
+			await mkdir(path.dirname(fullPath), { recursive: true });
+			await appendFile(fullPath, content, "utf8");
+		},
+
+		exists: (key) => fileExists(resolveKey(key)),
+
+		list,
+
+		async remove(key) {
+			await rm(resolveKey(key), { force: true });
+		},
+	};
+}
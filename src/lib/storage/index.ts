@@ -1,2 +1,8 @@
 export * from "./types.js";
 export * from "./file-storage.js";
+export * from "./backend.js";
+export * from "./fs-backend.js";
+export * from "./layout.js";
+export * from "./lock.js";
+export * from "./memory-backend.js";
+export * from "./s3-backend.js";
@@ -0,0 +1,302 @@
+import type { TagValueType, Tags } from "../types.js";
+import type { DocumentRef } from "./types.js";
+
+/** The layout Greptor has always used. */
+export const DEFAULT_LAYOUT =
+	"{source}/{publisher}/{yyyy}-{mm}/{date}-{slug}.md";
+
+/**
+ * Placeholders filled from the document. Any other name is read from the
+ * document's tags. `{name:N}` limits a value to N characters.
+ *
+ * - `source`, `publisher` - sanitized names (20 and 50 characters by default)
+ * - `yyyy`, `mm`, `dd` - creation date parts (UTC)
+ * - `date` - creation date as `YYYY-MM-DD`
+ * - `week` - ISO week as `YYYY-Www`
+ * - `slug` - sanitized label, falling back to the ID
+ * - `id` - sanitized document ID
+ */
+const BUILT_IN_PATTERNS: Record<string, string> = {
+	source: "[^/]+?",
+	publisher: "[^/]+?",
+	yyyy: "\\d{4}",
+	mm: "\\d{2}",
+	dd: "\\d{2}",
+	date: "\\d{4}-\\d{2}-\\d{2}",
+	week: "\\d{4}-W\\d{2}",
+	slug: "[^/]+?",
+	id: "[^/]+?",
+};
+
+const DEFAULT_MAX_LENGTHS: Record<string, number> = { source: 20 };
+const DEFAULT_MAX_LENGTH = 50;
+
+const PLACEHOLDER_PATTERN = /\{([a-z_][a-z0-9_]*)(?::(\d+))?\}/gi;
+
+interface Placeholder {
+	name: string;
+	maxLength: number;
+}
+
+type SegmentPart = string | Placeholder;
+
+interface Segment {
+	parts: SegmentPart[];
+	/**
+	 * The segment is a single placeholder that may have no value
+	 * (`publisher` or a tag). It is left out of refs without that value.
+	 */
+	optional: boolean;
+}
+
+/** Document fields a layout can use. */
+export interface LayoutDocument {
+	source: string;
+	publisher?: string | undefined;
+	id?: string | undefined;
+	label: string;
+	/** Creation date */
+	timestamp: Date;
+	tags?: Tags | undefined;
+}
+
+/** A document path template, e.g. {@link DEFAULT_LAYOUT}. */
+export interface DocumentLayout {
+	readonly template: string;
+	/** Ref of a document in this layout. */
+	format(document: LayoutDocument): DocumentRef;
+	/**
+	 * Placeholder values of a ref in this layout (sanitized, as they appear in
+	 * the path). Undefined when the ref doesn't match.
+	 */
+	parse(ref: DocumentRef): Record<string, string> | undefined;
+	/**
+	 * Glob for refs with the given placeholder values, the others match
+	 * anything. `{ yyyy: "2025", mm: "12" }` selects December 2025.
+	 */
+	glob(values: Record<string, string>): string;
+}
+
+export function sanitizePathSegment(
+	name: string,
+	maxLength = DEFAULT_MAX_LENGTH,
+	fallback = "unknown",
+): string {
+	let sanitized = name
+		.trim()
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-");
+	sanitized = sanitized.replace(/^-+/, "").replace(/-+$/, "");
+	sanitized = sanitized.replace(/-+/g, "-");
+
+	if (sanitized.length > maxLength) {
+		sanitized = sanitized.slice(0, maxLength);
+	}
+
+	return sanitized || fallback;
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function pad(value: number): string {
+	return String(value).padStart(2, "0");
+}
+
+function getIsoWeek(date: Date): string {
+	// The ISO week belongs to the year of its Thursday.
+	const thursday = new Date(
+		Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+	);
+	thursday.setUTCDate(thursday.getUTCDate() + 3 - ((date.getUTCDay() + 6) % 7));
+	const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+	const week =
+		Math.floor((thursday.getTime() - yearStart) / 86_400_000 / 7) + 1;
+	return `${thursday.getUTCFullYear()}-W${pad(week)}`;
+}
+
+function tagToString(value: TagValueType | undefined): string | undefined {
+	if (value === undefined) return undefined;
+	if (value instanceof Date) return value.toISOString().slice(0, 10);
+	if (Array.isArray(value)) {
+		return value.length > 0 ? value.map(String).join("-") : undefined;
+	}
+	return String(value);
+}
+
+function parseSegments(template: string): Segment[] {
+	if (!template.endsWith(".md")) {
+		throw new Error(`Invalid layout '${template}': it must end with .md`);
+	}
+
+	return template.split("/").map((segment) => {
+		if (!segment || segment === "." || segment === "..") {
+			throw new Error(
+				`Invalid layout '${template}': empty or relative path segment`,
+			);
+		}
+
+		const parts: SegmentPart[] = [];
+		let last = 0;
+		for (const match of segment.matchAll(PLACEHOLDER_PATTERN)) {
+			const name = (match[1] ?? "").toLowerCase();
+			parts.push(segment.slice(last, match.index));
+			parts.push({
+				name,
+				maxLength: match[2]
+					? Number(match[2])
+					: (DEFAULT_MAX_LENGTHS[name] ?? DEFAULT_MAX_LENGTH),
+			});
+			last = match.index + match[0].length;
+		}
+		parts.push(segment.slice(last));
+
+		const literal = parts.filter((part) => typeof part === "string").join("");
+		if (/[{}]/.test(literal)) {
+			throw new Error(
+				`Invalid layout '${template}': malformed placeholder in '${segment}'`,
+			);
+		}
+
+		const nonEmpty = parts.filter((part) => part !== "");
+		const only = nonEmpty.length === 1 ? nonEmpty[0] : undefined;
+		return {
+			parts: nonEmpty,
+			optional:
+				typeof only === "object" &&
+				(only.name === "publisher" || !(only.name in BUILT_IN_PATTERNS)),
+		};
+	});
+}
+
+/** Parses a layout template. Throws when the template is invalid. */
+export function createDocumentLayout(
+	template: string = DEFAULT_LAYOUT,
+): DocumentLayout {
+	const segments = parseSegments(template);
+
+	const placeholderNames: string[] = [];
+	const pattern = segments
+		.map((segment, index) => {
+			const body = segment.parts
+				.map((part) => {
+					if (typeof part === "string") return escapeRegExp(part);
+					placeholderNames.push(part.name);
+					return `(${BUILT_IN_PATTERNS[part.name] ?? "[^/]+?"})`;
+				})
+				.join("");
+			if (index === segments.length - 1) return body;
+			return segment.optional ? `(?:${body}/)?` : `${body}/`;
+		})
+		.join("");
+	const regex = new RegExp(`^${pattern}$`);
+
+	function getValue(
+		placeholder: Placeholder,
+		document: LayoutDocument,
+	): string | undefined {
+		const { name, maxLength } = placeholder;
+		const date = document.timestamp;
+		const id = sanitizePathSegment(document.id ?? "", maxLength);
+
+		switch (name) {
+			case "source":
+				return sanitizePathSegment(document.source, maxLength);
+			case "publisher":
+				return document.publisher
+					? sanitizePathSegment(document.publisher, maxLength)
+					: undefined;
+			case "yyyy":
+				return String(date.getUTCFullYear());
+			case "mm":
+				return pad(date.getUTCMonth() + 1);
+			case "dd":
+				return pad(date.getUTCDate());
+			case "date":
+				return date.toISOString().slice(0, 10);
+			case "week":
+				return getIsoWeek(date);
+			case "slug":
+				return sanitizePathSegment(document.label, maxLength, id);
+			case "id":
+				return id;
+			default: {
+				const value = tagToString(document.tags?.[name]);
+				return value === undefined
+					? undefined
+					: sanitizePathSegment(value, maxLength);
+			}
+		}
+	}
+
+	return {
+		template,
+
+		format(document) {
+			const path: string[] = [];
+			for (const segment of segments) {
+				const values = segment.parts.map((part) =>
+					typeof part === "string" ? part : getValue(part, document),
+				);
+				if (segment.optional && values[0] === undefined) continue;
+				path.push(values.map((value) => value ?? "unknown").join(""));
+			}
+			return path.join("/");
+		},
+
+		parse(ref) {
+			const match = regex.exec(ref);
+			if (!match) return undefined;
+
+			const values: Record<string, string> = {};
+			placeholderNames.forEach((name, index) => {
+				const value = match[index + 1];
+				if (value !== undefined && !(name in values)) {
+					values[name] = value;
+				}
+			});
+			return values;
+		},
+
+		glob(given) {
+			const values = { ...given };
+			// Without a month folder, the month is only visible in the date.
+			if (
+				!values.date &&
+				values.yyyy &&
+				values.mm &&
+				!placeholderNames.includes("mm")
+			) {
+				values.date = `${values.yyyy}-${values.mm}-*`;
+			}
+
+			const globbed = segments.map((segment, index) => {
+				const isFile = index === segments.length - 1;
+				const body = segment.parts
+					.map((part) =>
+						typeof part === "string" ? part : (values[part.name] ?? "*"),
+					)
+					.join("")
+					.replace(/\*(?:[-_.]?\*)+/g, "*");
+				if (/^[*\-_.]*$/.test(body)) return segment.optional ? "**" : "*";
+				if (isFile && /^[*\-_.]*\.md$/.test(body)) return "*.md";
+				return body;
+			});
+
+			// Runs of wildcard directories match any depth.
+			const collapsed: string[] = [];
+			for (const [index, segment] of globbed.entries()) {
+				const isFile = index === globbed.length - 1;
+				const wildcard = !isFile && (segment === "*" || segment === "**");
+				const previous = collapsed.at(-1);
+				if (wildcard && (previous === "**" || previous === "*")) {
+					collapsed[collapsed.length - 1] = "**";
+				} else {
+					collapsed.push(wildcard && index === 0 ? "**" : segment);
+				}
+			}
+			return collapsed.join("/");
+		},
+	};
+}
@@ -0,0 +1,233 @@
+import { createHash, randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import { sleep } from "../utils/sleep.js";
+import type { StorageBackend } from "./backend.js";
+import type { DocumentRef } from "./types.js";
+
+/** Storage key of the workspace lock file. */
+export const LOCK_KEY = ".greptor/lock";
+/** Storage key prefix of document lease files. */
+export const LEASES_PREFIX = ".greptor/leases/";
+
+/** A lock held longer than this belongs to a crashed process. */
+const DEFAULT_STALE_LOCK_MS = 30_000;
+const DEFAULT_LOCK_TIMEOUT_MS = 60_000;
+const LOCK_RETRY_MS = 20;
+const DEFAULT_LEASE_TTL_MS = 10 * 60 * 1000;
+
+interface LockFile {
+	owner: string;
+	acquiredAt: string;
+	nonce: string;
+}
+
+interface LeaseFile {
+	ref: DocumentRef;
+	owner: string;
+	expiresAt: string;
+}
+
+/** Identifies this process in lock and lease files. */
+export function createOwnerId(): string {
+	return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+function parseJson<T>(content: string | undefined): T | undefined {
+	if (content === undefined) return undefined;
+	try {
+		return JSON.parse(content) as T;
+	} catch {
+		// Partially written by a crashed process.
+		return undefined;
+	}
+}
+
+/**
+ * Mutual exclusion between Greptor instances sharing a workspace, for
+ * read-modify-write updates of shared files like the queue. The lock is a
+ * file under `.greptor/`, taken over when its holder didn't release it in
+ * time.
+ */
+export interface WorkspaceLock {
+	readonly owner: string;
+	/** Run `fn` while holding the lock. */
+	withLock<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+export function createWorkspaceLock(
+	backend: StorageBackend,
+	options: { owner?: string; staleMs?: number; timeoutMs?: number } = {},
+): WorkspaceLock {
+	const owner = options.owner ?? createOwnerId();
+	const staleMs = options.staleMs ?? DEFAULT_STALE_LOCK_MS;
+	const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+
+	/** Callers in this process queue up here instead of polling the file. */
+	let local: Promise<unknown> = Promise.resolve();
+
+	/** Resolves to the lock file content, to release only our own lock. */
+	async function acquire(): Promise<string> {
+		const deadline = Date.now() + timeoutMs;
+		// Unique per acquisition, so a takeover never removes a newer lock.
+		const content = JSON.stringify({
+			owner,
+			acquiredAt: new Date().toISOString(),
+			nonce: randomUUID(),
+		} satisfies LockFile);
+
+		while (!(await backend.writeIfAbsent(LOCK_KEY, content))) {
+			const current = await backend.read(LOCK_KEY);
+			if (current === undefined) {
+				continue;
+			}
+
+			// Age by the file's time: content that doesn't parse still belongs
+			// to a holder.
+			const modifiedAt = await backend.lastModified(LOCK_KEY);
+			if (modifiedAt && Date.now() - modifiedAt.getTime() > staleMs) {
+				// Of all waiters, only one removes this exact lock.
+				await backend.removeIfMatch(LOCK_KEY, current);
+				continue;
+			}
+			if (Date.now() > deadline) {
+				throw new Error(
+					`Timed out waiting for the workspace lock held by ${parseJson<LockFile>(current)?.owner ?? "another process"}`,
+				);
+			}
+			await sleep(LOCK_RETRY_MS);
+		}
+		return content;
+	}
+
+	async function release(content: string): Promise<void> {
+		// Another process may have taken over a lock we held for too long.
+		await backend.removeIfMatch(LOCK_KEY, content);
+	}
+
+	return {
+		owner,
+
+		withLock<T>(fn: () => Promise<T>): Promise<T> {
+			const run = local.then(async () => {
+				const content = await acquire();
+				try {
+					return await fn();
+				} finally {
+					await release(content);
+				}
+			});
+			local = run.catch(() => {});
+			return run;
+		},
+	};
+}
+
+/**
+ * Per-document leases, so that only one Greptor instance processes a
+ * document at a time. A lease expires after its TTL unless renewed, which
+ * lets other instances pick up documents of a crashed process.
+ */
+export interface DocumentLeases {
+	/** Take the lease. Resolves to false when another instance holds it. */
+	acquire(ref: DocumentRef): Promise<boolean>;
+	/** Extend a lease this instance holds. */
+	renew(ref: DocumentRef): Promise<void>;
+	release(ref: DocumentRef): Promise<void>;
+	/** Renew the lease while `fn` runs, then release it. */
+	hold<T>(ref: DocumentRef, fn: () => Promise<T>): Promise<T>;
+}
+
+export function createDocumentLeases(
+	backend: StorageBackend,
+	lock: WorkspaceLock,
+	options: { ttlMs?: number } = {},
+): DocumentLeases {
+	const ttlMs = options.ttlMs ?? DEFAULT_LEASE_TTL_MS;
+	const { owner } = lock;
+
+	function getLeaseKey(ref: DocumentRef): string {
+		const hash = createHash("sha256").update(ref).digest("hex").slice(0, 32);
+		return `${LEASES_PREFIX}${hash}.json`;
+	}
+
+	function createLease(ref: DocumentRef): string {
+		const lease: LeaseFile = {
+			ref,
+			owner,
+			expiresAt: new Date(Date.now() + ttlMs).toISOString(),
+		};
+		return JSON.stringify(lease);
+	}
+
+	async function readLease(ref: DocumentRef): Promise<LeaseFile | undefined> {
+		return parseJson<LeaseFile>(await backend.read(getLeaseKey(ref)));
+	}
+
+	async function acquire(ref: DocumentRef): Promise<boolean> {
+		const key = getLeaseKey(ref);
+		if (await backend.writeIfAbsent(key, createLease(ref))) {
+			return true;
+		}
+
+		// Take over expired leases under the lock, so only one instance wins.
+		return lock.withLock(async () => {
+			const content = await backend.read(key);
+			if (content === undefined) {
+				// Released meanwhile; others may create it outside the lock.
+				return backend.writeIfAbsent(key, createLease(ref));
+			}
+
+			const current = parseJson<LeaseFile>(content);
+			if (current?.owner !== owner) {
+				// A lease that doesn't parse is held until its file is a TTL old.
+				const expiresAt = current
+					? Date.parse(current.expiresAt)
+					: ((await backend.lastModified(key))?.getTime() ?? 0) + ttlMs;
+				if (expiresAt > Date.now()) {
+					return false;
+				}
+			}
+			await backend.write(key, createLease(ref));
+			return true;
+		});
+	}
+
+	async function renew(ref: DocumentRef): Promise<void> {
+		await lock.withLock(async () => {
+			const current = await readLease(ref);
+			if (current?.owner === owner) {
+				await backend.write(getLeaseKey(ref), createLease(ref));
+			}
+		});
+	}
+
+	async function release(ref: DocumentRef): Promise<void> {
+		await lock.withLock(async () => {
+			const current = await readLease(ref);
+			if (current?.owner === owner) {
+				await backend.remove(getLeaseKey(ref));
+			}
+		});
+	}
+
+	return {
+		acquire,
+		renew,
+		release,
+
+		async hold(ref, fn) {
+			const timer = setInterval(() => {
+				renew(ref).catch(() => {});
+			}, ttlMs / 3);
+			timer.unref?.();
+
+			try {
+				return await fn();
+			} finally {
+				clearInterval(timer);
+				// A lease we fail to release expires after its TTL.
+				await release(ref).catch(() => {});
+			}
+		},
+	};
+}
@@ -0,0 +1,327 @@
+import { createHash } from "node:crypto";
+import type { SourceCounts } from "../types.js";
+import type { StorageBackend } from "./backend.js";
+import { createChangeCheck } from "./changes.js";
+import { sanitizePathSegment } from "./layout.js";
+import { type WorkspaceLock, createWorkspaceLock } from "./lock.js";
+import type { DocumentRef } from "./types.js";
+
+/** Storage key of the manifest file. */
+export const MANIFEST_KEY = ".greptor/manifest.jsonl";
+
+/** Rewrite the manifest on load once it has this many superseded lines per entry. */
+const COMPACTION_RATIO = 2;
+
+/**
+ * Processing status of a document:
+ * - `pending` - raw content saved, waiting for processing
+ * - `processed` - processed file written
+ * - `failed` - processing failed on every retry (dead-lettered)
+ */
+export type DocumentStatus = "pending" | "processed" | "failed";
+
+export interface ManifestEntry {
+	ref: DocumentRef;
+	id?: string;
+	/** SHA-256 of the raw document body */
+	contentHash: string;
+	source: string;
+	publisher?: string;
+	/** Document creation date (ISO-8601) */
+	createdAt?: string;
+	/** When the raw document was saved (ISO-8601) */
+	addedAt: string;
+	status: DocumentStatus;
+	processedAt?: string;
+	/** Fingerprint of the configuration the document was processed with */
+	fingerprint?: string;
+	usage?: {
+		inputTokens: number;
+		outputTokens: number;
+		totalTokens: number;
+	};
+	/** Last processing error for `failed` documents */
+	error?: string;
+}
+
+/** Manifest line recording that a document was removed. */
+interface ManifestTombstone {
+	ref: DocumentRef;
+	deleted: true;
+}
+
+/**
+ * Index of all documents, persisted as JSON lines under
+ * `.greptor/manifest.jsonl`. Every change appends the full entry; on load
+ * the last line for a ref wins. Appends and rewrites hold the
+ * {@link WorkspaceLock}, so instances sharing a workspace don't lose lines.
+ */
+export interface DocumentManifest {
+	get(ref: DocumentRef): ManifestEntry | undefined;
+	entries(): ManifestEntry[];
+	/** Add or replace an entry. */
+	set(entry: ManifestEntry): Promise<void>;
+	/** Update fields of an existing entry. Returns false if there is none. */
+	update(
+		ref: DocumentRef,
+		changes: Partial<Omit<ManifestEntry, "ref">>,
+	): Promise<boolean>;
+	/** Remove an entry. Returns false if there is none. */
+	delete(ref: DocumentRef): Promise<boolean>;
+	/** Replace all entries, e.g. after rebuilding them from the stored files. */
+	replaceAll(entries: ManifestEntry[]): Promise<void>;
+	/** Document counts per source, kept up to date on every change. */
+	getCounts(): SourceCounts;
+	/** Document with the given ID from the source. */
+	findById(source: string, id: string): ManifestEntry | undefined;
+	/** Document from the source with the given content hash. */
+	findByContentHash(source: string, hash: string): ManifestEntry | undefined;
+	/**
+	 * Reload the manifest file to pick up changes of other instances. Does
+	 * nothing when the file didn't change since the last reload.
+	 */
+	refresh(): Promise<void>;
+}
+
+/**
+ * Hash of a document body, normalized so that whitespace and Unicode
+ * representation changes don't produce a different hash.
+ */
+export function hashContent(content: string): string {
+	const normalized = content.normalize("NFC").replace(/\s+/g, " ").trim();
+	return createHash("sha256").update(normalized, "utf8").digest("hex");
+}
+
+/** Counts use the source name as it appears in default refs. */
+function getCountKey(entry: ManifestEntry): string {
+	return sanitizePathSegment(entry.source, 20);
+}
+
+function parseLines(content: string): {
+	entries: ManifestEntry[];
+	lines: number;
+} {
+	const byRef = new Map<DocumentRef, ManifestEntry>();
+	let lines = 0;
+
+	for (const line of content.split("\n")) {
+		if (!line.trim()) continue;
+		lines++;
+		try {
+			const entry = JSON.parse(line) as ManifestEntry | ManifestTombstone;
+			if (typeof entry.ref === "string") {
+				// Re-insert so entries keep the order of their last change.
+				byRef.delete(entry.ref);
+				if (!("deleted" in entry)) {
+					byRef.set(entry.ref, entry);
+				}
+			}
+		} catch {
+			// A crash during an append can leave a partial last line.
+		}
+	}
+
+	return { entries: [...byRef.values()], lines };
+}
+
+/**
+ * Loads the manifest. Returns `undefined` when there is no manifest yet, so
+ * the caller can build it from the stored files.
+ */
+export async function loadManifest(
+	backend: StorageBackend,
+	lock: WorkspaceLock = createWorkspaceLock(backend),
+): Promise<DocumentManifest | undefined> {
+	// Compact under the lock, so lines appended meanwhile aren't lost.
+	return lock.withLock(async () => {
+		const content = await backend.read(MANIFEST_KEY);
+		if (content === undefined) {
+			return undefined;
+		}
+
+		const { entries, lines } = parseLines(content);
+		if (lines > Math.max(entries.length, 1) * COMPACTION_RATIO) {
+			await backend.write(MANIFEST_KEY, serialize(entries));
+		}
+		return createManifest(backend, entries, lock);
+	});
+}
+
+function serialize(entries: ManifestEntry[]): string {
+	return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
+
+/** Creates a manifest with the given entries. Nothing is written until a change. */
+export function createManifest(
+	backend: StorageBackend,
+	initialEntries: ManifestEntry[] = [],
+	lock: WorkspaceLock = createWorkspaceLock(backend),
+): DocumentManifest {
+	const byRef = new Map<DocumentRef, ManifestEntry>();
+	const byId = new Map<string, DocumentRef>();
+	const byHash = new Map<string, DocumentRef>();
+	const counts: SourceCounts = {};
+
+	let writing: Promise<void> = Promise.resolve();
+	let scheduledAppend: Promise<void> | undefined;
+	let pendingLines: string[] = [];
+	const hasChanged = createChangeCheck(backend, MANIFEST_KEY);
+
+	function count(entry: ManifestEntry, delta: 1 | -1): void {
+		const source = getCountKey(entry);
+		const sourceCount = counts[source] ?? { fetched: 0, processed: 0 };
+		sourceCount.fetched += delta;
+		if (entry.status === "processed") {
+			sourceCount.processed += delta;
+		}
+		if (sourceCount.fetched > 0) {
+			counts[source] = sourceCount;
+		} else {
+			delete counts[source];
+		}
+	}
+
+	function index(entry: ManifestEntry, add: boolean): void {
+		const keys: [Map<string, DocumentRef>, string | undefined][] = [
+			[
+				byId,
+				entry.id === undefined ? undefined : `${entry.source}\0${entry.id}`,
+			],
+			[byHash, `${entry.source}\0${entry.contentHash}`],
+		];
+		for (const [map, key] of keys) {
+			if (key === undefined) continue;
+			if (add) {
+				map.set(key, entry.ref);
+			} else if (map.get(key) === entry.ref) {
+				map.delete(key);
+			}
+		}
+	}
+
+	function drop(ref: DocumentRef): boolean {
+		const existing = byRef.get(ref);
+		if (!existing) {
+			return false;
+		}
+		count(existing, -1);
+		index(existing, false);
+		byRef.delete(ref);
+		return true;
+	}
+
+	function put(entry: ManifestEntry): void {
+		drop(entry.ref);
+		byRef.set(entry.ref, entry);
+		count(entry, 1);
+		index(entry, true);
+	}
+
+	function lookup(
+		map: Map<string, DocumentRef>,
+		key: string,
+	): ManifestEntry | undefined {
+		const ref = map.get(key);
+		return ref === undefined ? undefined : byRef.get(ref);
+	}
+
+	function reset(entries: ManifestEntry[]): void {
+		byRef.clear();
+		byId.clear();
+		byHash.clear();
+		for (const source of Object.keys(counts)) {
+			delete counts[source];
+		}
+		for (const entry of entries) {
+			put(entry);
+		}
+	}
+
+	/** Lines added before the append starts share it. */
+	function append(entry: ManifestEntry | ManifestTombstone): Promise<void> {
+		pendingLines.push(JSON.stringify(entry));
+		if (!scheduledAppend) {
+			scheduledAppend = writing.then(async () => {
+				scheduledAppend = undefined;
+				const lines = pendingLines;
+				pendingLines = [];
+				// Backends without a native append read and rewrite the file.
+				await lock.withLock(() =>
+					backend.append(MANIFEST_KEY, `${lines.join("\n")}\n`),
+				);
+			});
+			writing = scheduledAppend.catch(() => {});
+		}
+		return scheduledAppend;
+	}
+
+	reset(initialEntries);
+
+	return {
+		get: (ref) => byRef.get(ref),
+
+		entries: () => [...byRef.values()],
+
+		async set(entry) {
+			put(entry);
+			await append(entry);
+		},
+
+		async update(ref, changes) {
+			const existing = byRef.get(ref);
+			if (!existing) {
+				return false;
+			}
+
+			const entry = { ...existing, ...changes };
+			put(entry);
+			await append(entry);
+			return true;
+		},
+
+		async delete(ref) {
+			if (!drop(ref)) {
+				return false;
+			}
+			await append({ ref, deleted: true });
+			return true;
+		},
+
+		async replaceAll(entries) {
+			reset(entries);
+
+			const content = serialize(entries);
+			const rewrite = writing.then(() =>
+				lock.withLock(() => backend.write(MANIFEST_KEY, content)),
+			);
+			writing = rewrite.catch(() => {});
+			await rewrite;
+		},
+
+		async refresh() {
+			const reload = writing.then(async () => {
+				if (!(await hasChanged())) return;
+				const content = (await backend.read(MANIFEST_KEY)) ?? "";
+				// Lines not appended yet are applied on top of the file.
+				const { entries } = parseLines(
+					`${content}\n${pendingLines.join("\n")}`,
+				);
+				reset(entries);
+			});
+			writing = reload.catch(() => {});
+			await reload;
+		},
+
+		findById: (source, id) => lookup(byId, `${source}\0${id}`),
+
+		findByContentHash: (source, hash) => lookup(byHash, `${source}\0${hash}`),
+
+		getCounts: () =>
+			Object.fromEntries(
+				Object.entries(counts).map(([source, sourceCount]) => [
+					source,
+					{ ...sourceCount },
+				]),
+			),
+	};
+}
@@ -0,0 +1,60 @@
+import type { StorageBackend } from "./backend.js";
+
+/**
+ * Keeps files in memory, e.g. for tests. Pass `files` to start with
+ * existing content.
+ */
+export function createMemoryStorageBackend(
+	files: Record<string, string> = {},
+): StorageBackend {
+	const store = new Map<string, string | Uint8Array>(Object.entries(files));
+	const modified = new Map<string, Date>();
+
+	function read(key: string): string | undefined {
+		const content = store.get(key);
+		return typeof content === "string" || content === undefined
+			? content
+			: new TextDecoder().decode(content);
+	}
+
+	return {
+		read: async (key) => read(key),
+		readBytes: async (key) => {
+			const content = store.get(key);
+			return typeof content === "string"
+				? new TextEncoder().encode(content)
+				: content?.slice();
+		},
+		write: async (key, content) => {
+			store.set(key, typeof content === "string" ? content : content.slice());
+			modified.set(key, new Date());
+		},
+		writeIfAbsent: async (key, content) => {
+			if (store.has(key)) return false;
+			store.set(key, content);
+			modified.set(key, new Date());
+			return true;
+		},
+		removeIfMatch: async (key, content) => {
+			if (read(key) !== content) return false;
+			store.delete(key);
+			modified.delete(key);
+			return true;
+		},
+		lastModified: async (key) =>
+			store.has(key) ? (modified.get(key) ?? new Date(0)) : undefined,
+		append: async (key, content) => {
+			store.set(key, (read(key) ?? "") + content);
+			modified.set(key, new Date());
+		},
+		exists: async (key) => store.has(key),
+		list: async (prefix) =>
+			[...store.keys()]
+				.filter((key) => key.startsWith(prefix))
+				.sort((a, b) => a.localeCompare(b)),
+		remove: async (key) => {
+			store.delete(key);
+			modified.delete(key);
+		},
+	};
+}
@@ -0,0 +1,140 @@
+import type { ProcessingQueue } from "../processing/queue.js";
+import type { FileStorage } from "./file-storage.js";
+import type { DocumentLayout } from "./layout.js";
+import type { DocumentRef } from "./types.js";
+
+export interface LayoutMove {
+	from: DocumentRef;
+	to: DocumentRef;
+}
+
+/**
+ * Refs of all documents in the new layout, computed from their manifest
+ * entries and raw frontmatter. Documents whose ref doesn't change are left
+ * out. Colliding targets get a `-2`, `-3`, ... suffix.
+ */
+export async function planLayoutMigration(args: {
+	storage: FileStorage;
+	layout: DocumentLayout;
+}): Promise<LayoutMove[]> {
+	const { storage, layout } = args;
+	const targets = new Map<DocumentRef, DocumentRef>();
+
+	for (const entry of storage.listDocuments()) {
+		const { tags } = await storage.readRawContent(entry.ref);
+		const label =
+			typeof tags.title === "string" && tags.title.trim()
+				? tags.title
+				: (entry.ref.split("/").at(-1) ?? "").replace(/\.md$/, "");
+
+		targets.set(
+			entry.ref,
+			layout.format({
+				source: entry.source,
+				publisher: entry.publisher,
+				id: entry.id,
+				label,
+				timestamp: new Date(entry.createdAt ?? entry.addedAt),
+				tags,
+			}),
+		);
+	}
+
+	// Documents that stay keep their ref, the others claim refs in order.
+	const claimed = new Set(
+		[...targets].filter(([ref, target]) => ref === target).map(([ref]) => ref),
+	);
+	const moves: LayoutMove[] = [];
+
+	for (const [ref, target] of targets) {
+		if (ref === target) continue;
+
+		const base = target.replace(/\.md$/, "");
+		let candidate = target;
+		for (let n = 2; claimed.has(candidate); n++) {
+			candidate = `${base}-${n}.md`;
+		}
+		claimed.add(candidate);
+		moves.push({ from: ref, to: candidate });
+	}
+
+	return breakMoveCycles(moves, (ref) => claimed.has(ref) || targets.has(ref));
+}
+
+/**
+ * Documents that swap refs (A to B and B to A) block each other. Breaks
+ * every such cycle by moving one of its documents through a temporary ref
+ * first, so all moves can run in order.
+ */
+function breakMoveCycles(
+	moves: LayoutMove[],
+	isTaken: (ref: DocumentRef) => boolean,
+): LayoutMove[] {
+	const bySource = new Map(moves.map((move) => [move.from, move]));
+	const visited = new Set<DocumentRef>();
+	const result = [...moves];
+
+	for (const move of moves) {
+		if (visited.has(move.from)) continue;
+
+		let current: LayoutMove | undefined = move;
+		while (current && !visited.has(current.from)) {
+			visited.add(current.from);
+			current = bySource.get(current.to);
+		}
+		if (current !== move) continue;
+
+		const base = move.to.replace(/\.md$/, "");
+		let temporary = `${base}.migrating.md`;
+		for (let n = 2; isTaken(temporary); n++) {
+			temporary = `${base}.migrating-${n}.md`;
+		}
+		result[result.indexOf(move)] = { from: move.from, to: temporary };
+		result.push({ from: temporary, to: move.to });
+	}
+
+	return result;
+}
+
+/**
+ * Moves all documents to the refs of a new layout, including their history,
+ * manifest entries and queue entries. Run it while no workers are
+ * processing. With `dryRun`, only returns the planned moves.
+ */
+export async function migrateLayout(args: {
+	storage: FileStorage;
+	queue: ProcessingQueue;
+	layout: DocumentLayout;
+	dryRun?: boolean | undefined;
+}): Promise<LayoutMove[]> {
+	const { storage, queue } = args;
+	const moves = await planLayoutMigration(args);
+	if (args.dryRun) {
+		return moves;
+	}
+
+	// A target can be the current ref of a document that moves later on.
+	let remaining = moves;
+	while (remaining.length > 0) {
+		const blocked: LayoutMove[] = [];
+		for (const move of remaining) {
+			if (storage.getDocument(move.to)) {
+				blocked.push(move);
+				continue;
+			}
+			await storage.moveDocument(move.from, move.to);
+			await queue.rename(move.from, move.to);
+		}
+
+		if (blocked.length === remaining.length) {
+			throw new Error(
+				`Can't move ${blocked.length} documents, their new refs are taken: ${blocked
+					.map((move) => move.to)
+					.join(", ")}`,
+			);
+		}
+		remaining = blocked;
+	}
+
+	return moves;
+}
@@ -0,0 +1,514 @@
+import { createHash, createHmac } from "node:crypto";
+import type { StorageBackend } from "./backend.js";
+
+export interface S3StorageOptions {
+	/** Endpoint URL, e.g. `https://s3.eu-west-1.amazonaws.com` or `http://localhost:9000` */
+	endpoint: string;
+	bucket: string;
+	/** Defaults to `AWS_REGION`, then `us-east-1` */
+	region?: string;
+	/** Key prefix for all of Greptor's files, e.g. `greptor/investing` */
+	prefix?: string;
+	/** Defaults to `AWS_ACCESS_KEY_ID` */
+	accessKeyId?: string;
+	/** Defaults to `AWS_SECRET_ACCESS_KEY` */
+	secretAccessKey?: string;
+	/** Defaults to `AWS_SESSION_TOKEN` */
+	sessionToken?: string;
+	/**
+	 * Address the bucket as `endpoint/bucket` instead of `bucket.endpoint`.
+	 * Defaults to true, which works with MinIO and most S3-compatible stores.
+	 */
+	forcePathStyle?: boolean;
+	/** Custom fetch, e.g. to add a proxy. Defaults to global fetch. */
+	fetch?: typeof fetch;
+}
+
+interface SigningCredentials {
+	accessKeyId: string;
+	secretAccessKey: string;
+	sessionToken?: string | undefined;
+	region: string;
+}
+
+const EMPTY_PAYLOAD_HASH = sha256Hex("");
+
+function sha256Hex(data: string | Uint8Array): string {
+	return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+	return createHmac("sha256", key).update(data, "utf8").digest();
+}
+
+/** RFC 3986 encoding as required by SigV4. */
+function encodeRfc3986(value: string): string {
+	return encodeURIComponent(value).replace(
+		/[!'()*]/g,
+		(char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+	);
+}
+
+/** Query string sorted and encoded the way SigV4 canonicalizes it. */
+function buildQuery(params: [string, string][]): string {
+	return params
+		.map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+		.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+		.join("&");
+}
+
+/**
+ * Signs a request with AWS Signature Version 4 and returns the headers to
+ * send, including `authorization`. `headers` must not contain `host`.
+ */
+export function signS3Request(args: {
+	method: string;
+	url: URL;
+	headers: Record<string, string>;
+	payloadHash: string;
+	credentials: SigningCredentials;
+	date?: Date;
+}): Record<string, string> {
+	const { method, url, payloadHash, credentials } = args;
+	const amzDate = (args.date ?? new Date())
+		.toISOString()
+		.replace(/[-:]/g, "")
+		.replace(/\.\d{3}/, "");
+	const dateStamp = amzDate.slice(0, 8);
+	const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+
+	const headers: Record<string, string> = {
+		...Object.fromEntries(
+			Object.entries(args.headers).map(([name, value]) => [
+				name.toLowerCase(),
+				value.trim(),
+			]),
+		),
+		"x-amz-content-sha256": payloadHash,
+		"x-amz-date": amzDate,
+		...(credentials.sessionToken
+			? { "x-amz-security-token": credentials.sessionToken }
+			: {}),
+	};
+	const signed = { host: url.host, ...headers };
+	const signedNames = Object.keys(signed).sort();
+
+	const canonicalQuery = buildQuery([...url.searchParams.entries()]);
+
+	const canonicalRequest = [
+		method,
+		url.pathname,
+		canonicalQuery,
+		...signedNames.map(
+			(name) => `${name}:${signed[name as keyof typeof signed]}`,
+		),
+		"",
+		signedNames.join(";"),
+		payloadHash,
+	].join("\n");
+
+	const stringToSign = [
+		"AWS4-HMAC-SHA256",
+		amzDate,
+		scope,
+		sha256Hex(canonicalRequest),
+	].join("\n");
+
+	const signingKey = hmac(
+		hmac(
+			hmac(
+				hmac(`AWS4${credentials.secretAccessKey}`, dateStamp),
+				credentials.region,
+			),
+			"s3",
+		),
+		"aws4_request",
+	);
+	const signature = createHmac("sha256", signingKey)
+		.update(stringToSign, "utf8")
+		.digest("hex");
+
+	return {
+		...headers,
+		authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedNames.join(";")}, Signature=${signature}`,
+	};
+}
+
+function decodeXml(value: string): string {
+	return value
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&#(\d+);/g, (_, code: string) =>
+			String.fromCodePoint(Number(code)),
+		)
+		.replace(/&amp;/g, "&");
+}
+
+function readXmlTags(xml: string, tag: string): string[] {
+	const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "g");
+	return [...xml.matchAll(pattern)].map((match) => decodeXml(match[1] ?? ""));
+}
+
+/**
+ * S3 has no append: appended objects are a base object plus one segment
+ * object per append, folded into the base every {@link COMPACTION_SEGMENTS}
+ * appends. Segments are hidden from listings.
+ */
+const SEGMENTS_SUFFIX = ".segments/";
+const SEGMENT_KEY_PATTERN = /\.segments\/\d{10}$/;
+/** Metadata of an appended object's base: the last segment folded into it. */
+const FOLDED_HEADER = "x-amz-meta-greptor-folded";
+const COMPACTION_SEGMENTS = 64;
+
+interface S3Object {
+	key: string;
+	lastModified: Date | undefined;
+}
+
+interface Segment extends S3Object {
+	seq: number;
+}
+
+function getSegmentKey(key: string, seq: number): string {
+	return `${key}${SEGMENTS_SUFFIX}${String(seq).padStart(10, "0")}`;
+}
+
+/** Last segment folded into the base, undefined when it isn't appended to. */
+function getFolded(response: Response): number | undefined {
+	const header = response.headers.get(FOLDED_HEADER);
+	return header === null ? undefined : Number(header);
+}
+
+/**
+ * Stores files in an S3 bucket or an S3-compatible object store (MinIO,
+ * Cloudflare R2, ...). Requests are signed with AWS Signature Version 4.
+ */
+export function createS3StorageBackend(
+	options: S3StorageOptions,
+): StorageBackend {
+	const accessKeyId = options.accessKeyId ?? process.env.AWS_ACCESS_KEY_ID;
+	const secretAccessKey =
+		options.secretAccessKey ?? process.env.AWS_SECRET_ACCESS_KEY;
+	if (!accessKeyId || !secretAccessKey) {
+		throw new Error(
+			"Missing S3 credentials. Provide `accessKeyId` and `secretAccessKey` or set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY",
+		);
+	}
+
+	const credentials: SigningCredentials = {
+		accessKeyId,
+		secretAccessKey,
+		sessionToken: options.sessionToken ?? process.env.AWS_SESSION_TOKEN,
+		region: options.region ?? process.env.AWS_REGION ?? "us-east-1",
+	};
+	const fetchFn = options.fetch ?? fetch;
+	const prefix = options.prefix ? `${options.prefix.replace(/\/+$/, "")}/` : "";
+
+	const endpoint = new URL(options.endpoint);
+	const bucketUrl =
+		(options.forcePathStyle ?? true)
+			? new URL(
+					`${endpoint.pathname.replace(/\/+$/, "")}/${options.bucket}/`,
+					endpoint,
+				)
+			: new URL(
+					`${endpoint.protocol}//${options.bucket}.${endpoint.host}${endpoint.pathname.replace(/\/+$/, "")}/`,
+				);
+
+	function objectUrl(key: string): URL {
+		const path = `${prefix}${key}`.split("/").map(encodeRfc3986).join("/");
+		return new URL(path, bucketUrl);
+	}
+
+	async function send(
+		method: string,
+		url: URL,
+		body?: string | Uint8Array,
+		extraHeaders: Record<string, string> = {},
+	): Promise<Response> {
+		const payloadHash =
+			body === undefined ? EMPTY_PAYLOAD_HASH : sha256Hex(body);
+		const headers = signS3Request({
+			method,
+			url,
+			headers:
+				body === undefined
+					? extraHeaders
+					: {
+							...extraHeaders,
+							"content-type":
+								typeof body === "string"
+									? "text/plain; charset=utf-8"
+									: "application/octet-stream",
+						},
+			payloadHash,
+			credentials,
+		});
+
+		return fetchFn(url, {
+			method,
+			headers,
+			...(body === undefined ? {} : { body }),
+		});
+	}
+
+	async function fail(
+		response: Response,
+		action: string,
+		key: string,
+	): Promise<never> {
+		const body = await response.text().catch(() => "");
+		const code = readXmlTags(body, "Code")[0];
+		throw new Error(
+			`S3 ${action} '${key}' failed with ${response.status}${code ? ` ${code}` : ""}`,
+		);
+	}
+
+	async function get(key: string): Promise<Response | undefined> {
+		const response = await send("GET", objectUrl(key));
+		if (response.status === 404) {
+			await response.body?.cancel();
+			return undefined;
+		}
+		if (!response.ok) return fail(response, "read", key);
+		return response;
+	}
+
+	async function head(key: string): Promise<Response | undefined> {
+		const response = await send("HEAD", objectUrl(key));
+		await response.body?.cancel();
+		if (response.status === 404) return undefined;
+		if (!response.ok) return fail(response, "stat", key);
+		return response;
+	}
+
+	async function write(
+		key: string,
+		content: string | Uint8Array,
+		folded?: number,
+	): Promise<void> {
+		const response = await send(
+			"PUT",
+			objectUrl(key),
+			content,
+			folded === undefined ? {} : { [FOLDED_HEADER]: String(folded) },
+		);
+		if (!response.ok) return fail(response, "write", key);
+		await response.body?.cancel();
+	}
+
+	// Conditional write, supported by S3 and most compatible stores.
+	async function writeIfAbsent(key: string, content: string): Promise<boolean> {
+		const response = await send("PUT", objectUrl(key), content, {
+			"if-none-match": "*",
+		});
+		if (response.status === 412 || response.status === 409) {
+			await response.body?.cancel();
+			return false;
+		}
+		if (!response.ok) return fail(response, "write", key);
+		await response.body?.cancel();
+		return true;
+	}
+
+	async function listObjects(keyPrefix: string): Promise<S3Object[]> {
+		const objects: S3Object[] = [];
+		let continuationToken: string | undefined;
+
+		do {
+			// Send the query exactly as signed: URLSearchParams would encode
+			// spaces as `+`.
+			const url = new URL(bucketUrl);
+			url.search = buildQuery([
+				["list-type", "2"],
+				["prefix", `${prefix}${keyPrefix}`],
+				...(continuationToken
+					? [["continuation-token", continuationToken] as [string, string]]
+					: []),
+			]);
+
+			const response = await send("GET", url);
+			if (!response.ok) return fail(response, "list", keyPrefix);
+
+			const xml = await response.text();
+			for (const contents of readXmlTags(xml, "Contents")) {
+				const key = readXmlTags(contents, "Key")[0];
+				const lastModified = readXmlTags(contents, "LastModified")[0];
+				if (key === undefined) continue;
+				objects.push({
+					key: key.slice(prefix.length),
+					lastModified: lastModified ? new Date(lastModified) : undefined,
+				});
+			}
+			continuationToken =
+				readXmlTags(xml, "IsTruncated")[0] === "true"
+					? readXmlTags(xml, "NextContinuationToken")[0]
+					: undefined;
+		} while (continuationToken);
+
+		return objects;
+	}
+
+	/** Segments of an appended object, oldest first. */
+	async function listSegments(key: string): Promise<Segment[]> {
+		const segmentPrefix = `${key}${SEGMENTS_SUFFIX}`;
+		return (await listObjects(segmentPrefix))
+			.filter((object) => SEGMENT_KEY_PATTERN.test(object.key))
+			.map((object) => ({
+				...object,
+				seq: Number(object.key.slice(segmentPrefix.length)),
+			}))
+			.sort((a, b) => a.seq - b.seq);
+	}
+
+	async function removeSegments(segments: Segment[]): Promise<void> {
+		for (const segment of segments) {
+			await remove(segment.key);
+		}
+	}
+
+	/**
+	 * Base content plus the segments appended since it was written.
+	 * Resolves to undefined when a compaction replaced the base meanwhile.
+	 */
+	async function readSegments(
+		key: string,
+		base: Response,
+		folded: number,
+	): Promise<{ content: string; segments: Segment[] } | undefined> {
+		const etag = base.headers.get("etag");
+		let content = await base.text();
+		const segments = (await listSegments(key)).filter(
+			(segment) => segment.seq > folded,
+		);
+		for (const segment of segments) {
+			const part = await read(segment.key);
+			if (part === undefined) return undefined;
+			content += part;
+		}
+		if ((await head(key))?.headers.get("etag") !== etag) {
+			return undefined;
+		}
+		return { content, segments };
+	}
+
+	async function read(key: string): Promise<string | undefined> {
+		for (;;) {
+			const response = await get(key);
+			if (!response) return undefined;
+			const folded = getFolded(response);
+			if (folded === undefined) return response.text();
+
+			const appended = await readSegments(key, response, folded);
+			if (appended) return appended.content;
+		}
+	}
+
+	/** Folds the segments into the base, keeping the last one to continue the numbering. */
+	async function compact(key: string): Promise<void> {
+		const response = await get(key);
+		const folded = response && getFolded(response);
+		if (!response || folded === undefined) return;
+		const appended = await readSegments(key, response, folded);
+		const last = appended?.segments.at(-1);
+		if (!appended || !last) return;
+
+		await write(key, appended.content, last.seq);
+		await removeSegments(appended.segments.slice(0, -1));
+	}
+
+	async function remove(key: string): Promise<void> {
+		const response = await send("DELETE", objectUrl(key));
+		await response.body?.cancel();
+		if (!response.ok && response.status !== 404) {
+			return fail(response, "remove", key);
+		}
+	}
+
+	return {
+		read,
+
+		async readBytes(key) {
+			const response = await get(key);
+			return response && new Uint8Array(await response.arrayBuffer());
+		},
+
+		write,
+
+		writeIfAbsent,
+
+		// Delete by ETag, so the object can't change between the check and the
+		// delete. Stores without conditional deletes ignore `if-match`.
+		async removeIfMatch(key, content) {
+			const response = await get(key);
+			if (!response) return false;
+			const etag = response.headers.get("etag");
+			if ((await response.text()) !== content || !etag) return false;
+
+			const deleted = await send("DELETE", objectUrl(key), undefined, {
+				"if-match": etag,
+			});
+			await deleted.body?.cancel();
+			if (deleted.status === 412 || deleted.status === 404) return false;
+			if (!deleted.ok) return fail(deleted, "remove", key);
+			return true;
+		},
+
+		async lastModified(key) {
+			const response = await head(key);
+			const header = response?.headers.get("last-modified");
+			const modified = header ? new Date(header) : undefined;
+			const folded = response && getFolded(response);
+			if (folded === undefined) return modified;
+
+			// Appends don't touch the base object.
+			return (await listSegments(key))
+				.filter((segment) => segment.seq > folded)
+				.reduce(
+					(latest, segment) =>
+						segment.lastModified && (!latest || segment.lastModified > latest)
+							? segment.lastModified
+							: latest,
+					modified,
+				);
+		},
+
+		// One new object per append instead of rewriting the whole object.
+		async append(key, content) {
+			const response = await head(key);
+			let folded = response && getFolded(response);
+			let segments = await listSegments(key);
+			if (folded === undefined) {
+				// First append since a plain write: mark the base. Leftover
+				// segments belong to content the write replaced.
+				folded = segments.at(-1)?.seq ?? 0;
+				await write(key, (await read(key)) ?? "", folded);
+				await removeSegments(segments.slice(0, -1));
+				segments = segments.slice(-1);
+			}
+
+			let seq = Math.max(folded, segments.at(-1)?.seq ?? 0) + 1;
+			while (!(await writeIfAbsent(getSegmentKey(key, seq), content))) {
+				seq++;
+			}
+			if (seq - folded >= COMPACTION_SEGMENTS) {
+				await compact(key);
+			}
+		},
+
+		async exists(key) {
+			return (await head(key)) !== undefined;
+		},
+
+		async list(keyPrefix) {
+			return (await listObjects(keyPrefix))
+				.map((object) => object.key)
+				.filter((key) => !SEGMENT_KEY_PATTERN.test(key))
+				.sort((a, b) => a.localeCompare(b));
+		},
+
+		remove,
+	};
+}
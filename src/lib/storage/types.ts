@@ -6,5 +6,13 @@ export type DocumentRef = string;
 
 export type DocumentAddResult =
 	| { type: "added"; ref: DocumentRef }
-	| { type: "duplicate"; ref: DocumentRef }
+	/** An existing document was overwritten and needs processing again */
+	| { type: "updated"; ref: DocumentRef }
+	| {
+			type: "duplicate";
+			/** The existing document the input matched */
+			ref: DocumentRef;
+			/** Matched on `(source, id)` or on the normalized content hash */
+			reason: "id" | "content";
+	  }
 	| { type: "error"; message: string };
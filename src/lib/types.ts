@@ -1,4 +1,6 @@
 import type { TagSchema } from "./config.js";
+import type { StorageBackend } from "./storage/backend.js";
+import type { DocumentStatus } from "./storage/manifest.js";
 import type { DocumentRef } from "./storage/types.js";
 
 type SourceName = string;
@@ -13,6 +15,28 @@ export interface DocumentProcessingStartedEvent {
 	documentsCount: SourceCounts;
 }
 
+/** A problem found in the LLM output when validating it against the tag schema */
+export interface ValidationIssue {
+	/** Chunk number the issue was found in, 0 for document-level issues */
+	chunk: number;
+	field?: string;
+	/**
+	 * - `repaired` - fixed deterministically (e.g. normalized enum value)
+	 * - `removed` - stripped from the output (e.g. unknown field)
+	 * - `unfixable` - sent back to the model with a correction prompt
+	 */
+	action: "repaired" | "removed" | "unfixable";
+	message: string;
+}
+
+export interface ValidationReport {
+	issues: ValidationIssue[];
+	/** Whether a correction prompt was needed to get valid output */
+	corrected: boolean;
+	/** Output mode that produced the stored chunks */
+	outputMode: OutputMode;
+}
+
 /** Event data for when document processing completes */
 export type DocumentProcessingCompletedEvent =
 	| {
@@ -25,10 +49,17 @@ export type DocumentProcessingCompletedEvent =
 			inputTokens: number;
 			outputTokens: number;
 			totalTokens: number;
+			validation: ValidationReport;
+			/** Number of segments the raw content was split into for processing */
+			segments: number;
 	  }
 	| {
 			success: false;
 			error: string;
+			/** Number of failed attempts for this document so far */
+			attempts: number;
+			/** False when the document was moved to the dead-letter list */
+			willRetry: boolean;
 			source: SourceName;
 			publisher?: string | undefined;
 			label: string;
@@ -45,6 +76,25 @@ export interface ProcessingCompletedEvent {
 	documentsCount: SourceCounts;
 }
 
+/** Event data for when an LLM call is delayed by rate limiting */
+export interface RateLimitedEvent {
+	/**
+	 * - `requests_per_minute` / `tokens_per_minute` - the configured budget is used up
+	 * - `provider_retry` - the provider rejected the call (e.g. 429, 503) and it is retried
+	 */
+	reason: "requests_per_minute" | "tokens_per_minute" | "provider_retry";
+	waitMs: number;
+	/** Retry attempt number, for `provider_retry` */
+	attempt?: number;
+	statusCode?: number;
+}
+
+/** Event data for when documents are removed with `remove()` */
+export interface DocumentsRemovedEvent {
+	refs: DocumentRef[];
+	documentsCount: SourceCounts;
+}
+
 /** Optional hooks for Greptor events */
 export interface GreptorHooks {
 	onProcessingStarted?: (event: ProcessingStartedEvent) => void;
@@ -53,6 +103,8 @@ export interface GreptorHooks {
 	onDocumentProcessingCompleted?: (
 		event: DocumentProcessingCompletedEvent,
 	) => void;
+	onRateLimited?: (event: RateLimitedEvent) => void;
+	onDocumentsRemoved?: (event: DocumentsRemovedEvent) => void;
 }
 
 export interface ModelConfig {
@@ -78,17 +130,124 @@ export interface ModelConfig {
 	options?: Record<string, unknown>;
 }
 
+export interface RetryOptions {
+	/** Attempts before a document is moved to the dead-letter list. Defaults to 5. */
+	maxAttempts?: number;
+	/** Delay before the first retry, doubled on every further attempt. Defaults to 30s. */
+	baseDelayMs?: number;
+	/** Upper bound for the retry delay. Defaults to 1h. */
+	maxDelayMs?: number;
+}
+
+export interface RateLimitOptions {
+	/** Maximum LLM requests per minute across all workers */
+	requestsPerMinute?: number;
+	/** Maximum LLM tokens (input + output) per minute across all workers */
+	tokensPerMinute?: number;
+	/** Retries for rate-limited or transient provider errors. Defaults to 5. */
+	maxRetries?: number;
+	/** Backoff before the first retry when the provider sends no `Retry-After`. Defaults to 2s. */
+	baseDelayMs?: number;
+	/** Upper bound for the backoff. Defaults to 2 minutes. */
+	maxDelayMs?: number;
+}
+
+/**
+ * How the model returns processed chunks:
+ * - `text` - Markdown chunks with `field=value` tag lines, parsed by Greptor
+ * - `structured` - JSON matching a schema derived from the tag schema, rendered by Greptor.
+ *   Requires a provider with JSON schema output; falls back to `text` when the call fails.
+ */
+export type OutputMode = "text" | "structured";
+
 export interface GreptorOptions {
-	basePath: string;
+	/** Directory for Greptor's data on the local filesystem. Required unless `storage` is set. */
+	basePath?: string;
+	/** Where to keep documents, the queue and the config. Defaults to the filesystem under `basePath`. */
+	storage?: StorageBackend;
 	topic: string;
 	model: ModelConfig;
 	workers?: number;
 	tagSchema: TagSchema;
 	hooks?: GreptorHooks;
 	customProcessingPrompts?: Record<string, string>;
+	/** Retry policy for documents that fail processing */
+	retry?: RetryOptions;
+	/** LLM rate limits shared by all workers */
+	rateLimit?: RateLimitOptions;
+	/** How the model returns processed chunks. Defaults to `text`. */
+	outputMode?: OutputMode;
+	/**
+	 * Token budget for the raw content sent in a single prompt. Larger
+	 * documents are split along paragraphs and headings, processed segment by
+	 * segment and merged. Defaults to 8,000.
+	 */
+	maxSegmentTokens?: number;
+	/**
+	 * Keep the previous raw version of overwritten documents under
+	 * `.greptor/history/`. Defaults to false.
+	 */
+	keepHistory?: boolean;
+	/**
+	 * Path template for new documents, relative to `raw/` and `processed/`.
+	 * Defaults to `{source}/{publisher}/{yyyy}-{mm}/{date}-{slug}.md`. Use
+	 * `greptor migrate-layout` to move existing documents to a new layout.
+	 */
+	layout?: string;
+	/**
+	 * How long another instance sharing the workspace waits before taking over
+	 * a document whose processor stopped renewing its lease, e.g. after a
+	 * crash. Defaults to 10 minutes.
+	 */
+	leaseTtlMs?: number;
+	/** Archive or delete old documents per source */
+	retention?: RetentionOptions;
+	/**
+	 * Record the options in `.greptor/config.yaml`. Defaults to true. Turn it
+	 * off when the options come from that file, so hand edits and comments
+	 * stay and a model override isn't persisted.
+	 */
+	writeConfig?: boolean;
 }
 
-export type SupportedFormat = "text";
+/**
+ * Formats whose content is a single string:
+ * - `text` - plain text or Markdown, stored as is
+ * - `html` - HTML page or fragment, converted to Markdown
+ * - `vtt` / `srt` - subtitles, merged into paragraphs with time ranges
+ */
+export type TextFormat = "text" | "html" | "vtt" | "srt";
+
+/**
+ * Input content format. `thread` takes a structured post with a comment tree
+ * (see {@link ThreadContent}); all other formats take a string.
+ */
+export type SupportedFormat = TextFormat | "thread";
+
+/** A comment in a discussion thread (Reddit, HN, Discourse, ...). */
+export interface ThreadComment {
+	author: string;
+	content: string;
+	score?: number | undefined;
+	createdAt?: Date | undefined;
+	/** Replies to this comment */
+	children?: ThreadComment[] | undefined;
+}
+
+/** The opening post of a discussion thread. */
+export interface ThreadPost {
+	author: string;
+	content: string;
+	title?: string | undefined;
+	url?: string | undefined;
+	score?: number | undefined;
+	createdAt?: Date | undefined;
+}
+
+export interface ThreadContent {
+	post: ThreadPost;
+	comments: ThreadComment[];
+}
 
 export type TagValueType =
 	| string
@@ -101,18 +260,212 @@ export type TagValueType =
 
 export type Tags = Record<string, TagValueType>;
 
-export interface GreptorEatInput {
-	content: string;
-	format: SupportedFormat;
+interface GreptorEatInputBase {
 	label: string;
 	source: string;
-	publisher?: string;
-	id?: string;
-	creationDate?: Date;
-	tags?: Tags;
-	overwrite?: boolean;
+	publisher?: string | undefined;
+	id?: string | undefined;
+	creationDate?: Date | undefined;
+	tags?: Tags | undefined;
+	/**
+	 * Replace the document with the same `id` (or the same content). Its
+	 * processed file is discarded and the document is processed again.
+	 */
+	overwrite?: boolean | undefined;
 }
 
+export type GreptorEatInput = GreptorEatInputBase &
+	(
+		| { format: TextFormat; content: string }
+		| { format: "thread"; content: ThreadContent }
+	);
+
+/** Eat input after its content was converted to the Markdown raw body. */
+export type RawDocumentInput = GreptorEatInputBase & {
+	format: SupportedFormat;
+	content: string;
+};
+
 export type GreptorEatResult =
 	| { success: true; message: string; ref: DocumentRef }
-	| { success: false; message: string };
+	| {
+			success: false;
+			message: string;
+			/** Existing document the input was a duplicate of */
+			duplicateOf?: DocumentRef;
+	  };
+
+export interface GreptorEatManyOptions {
+	/** Number of documents written in parallel. Defaults to 4. */
+	concurrency?: number;
+	/**
+	 * Maximum number of documents waiting in the processing queue. While the
+	 * background workers are running and the queue is at or above this size,
+	 * `eatMany` stops pulling new inputs until workers catch up. Defaults to 100.
+	 */
+	highWaterMark?: number;
+}
+
+export interface GreptorEatManyItem {
+	/** Position of the input in the source iterable */
+	index: number;
+	status: "added" | "updated" | "duplicate" | "error";
+	message: string;
+	ref?: DocumentRef;
+	/** Existing document the input was a duplicate of */
+	duplicateOf?: DocumentRef;
+}
+
+export interface GreptorEatManyResult {
+	added: number;
+	/** Existing documents replaced with `overwrite` */
+	updated: number;
+	duplicates: number;
+	errors: number;
+	/** Per-input results, ordered by input position */
+	items: GreptorEatManyItem[];
+}
+
+/**
+ * Thrown by `eatMany` when reading the inputs fails. The documents ingested
+ * before that are in `result`.
+ */
+export type EatManyError = Error & { result: GreptorEatManyResult };
+
+export interface ScanOptions {
+	/**
+	 * List `raw/` for files missing from the manifest (default: true). Skip
+	 * it when nothing was written there, e.g. as reported by a file watcher:
+	 * the listing is the expensive part of a scan.
+	 */
+	rawFiles?: boolean;
+}
+
+/** Selects processed documents to reprocess. All criteria are optional. */
+export interface ReprocessFilter {
+	source?: string;
+	publisher?: string;
+	/** Only documents created at or after this date */
+	from?: Date;
+	/** Only documents created at or before this date */
+	to?: Date;
+	/** Include documents whose fingerprint is current, not only stale ones */
+	all?: boolean;
+}
+
+/** How long documents of a source are kept. */
+export interface RetentionRule {
+	/** Expire documents created more than this many days ago */
+	maxAgeDays?: number;
+	/** Keep only the newest documents of each publisher */
+	maxDocumentsPerPublisher?: number;
+	/**
+	 * - `archive` - move to the compressed `archive/` layer (default)
+	 * - `delete` - delete like `remove()`
+	 */
+	action?: "archive" | "delete";
+}
+
+/** Retention rules by source name. The `*` rule applies to all other sources. */
+export type RetentionRules = Record<string, RetentionRule>;
+
+export interface RetentionOptions {
+	rules: RetentionRules;
+	/**
+	 * Time between the end of a sweep of expired documents and the next one
+	 * while the workers run, starting with `start()`. Defaults to 24 hours,
+	 * 0 disables the automatic sweep. At most 2^31-1 ms (about 24.8 days).
+	 */
+	sweepIntervalMs?: number;
+}
+
+/** A document that a retention rule expires. */
+export interface ExpiredDocument {
+	ref: DocumentRef;
+	source: string;
+	publisher?: string;
+	createdAt: string;
+	/** The limit the document exceeds */
+	reason: "max-age" | "max-documents";
+	action: "archive" | "delete";
+}
+
+export interface RetentionReport {
+	dryRun: boolean;
+	/** Expired documents, including those a dry run only reports */
+	documents: ExpiredDocument[];
+	archived: DocumentRef[];
+	deleted: DocumentRef[];
+}
+
+/** Selects documents to remove. */
+export interface RemoveFilter {
+	source: string;
+	/** Only documents from this publisher */
+	publisher?: string;
+	/** Only documents created before this date */
+	before?: Date;
+}
+
+/** A stored raw version of a document. */
+export interface DocumentVersion {
+	/** Version ID, `current` for the latest version */
+	id: string;
+	/** When the version was saved (ISO-8601) */
+	savedAt: string;
+}
+
+/** Selects documents from the manifest. All criteria are optional. */
+export interface DocumentListFilter {
+	status?: DocumentStatus;
+	source?: string;
+	publisher?: string;
+}
+
+/** Value(s) a chunk tag must have. An array matches any of its values. */
+export type TagFilter =
+	| string
+	| number
+	| boolean
+	| (string | number | boolean)[];
+
+/**
+ * Selects chunks of processed documents. All criteria are optional and must
+ * all match.
+ */
+export interface SearchQuery {
+	/**
+	 * Tag values per field, compared per the tag schema: enums ignore case,
+	 * array fields match when they contain any of the values, dates match by
+	 * prefix (`2025-10`). Fields missing on a chunk are looked up in the
+	 * document's frontmatter.
+	 */
+	tags?: Record<string, TagFilter>;
+	/** Tag values a chunk must not have, compared like `tags` */
+	excludeTags?: Record<string, TagFilter>;
+	/** Case-insensitive text in the chunk title or content */
+	text?: string;
+	source?: string;
+	publisher?: string;
+	/** Documents created on or after this date. Strings may be partial, e.g. `2025-10`. */
+	from?: Date | string;
+	/** Documents created on or before this date (inclusive, e.g. all of `2025-10`). */
+	to?: Date | string;
+	/** Maximum number of results. Defaults to 100. */
+	limit?: number;
+}
+
+/** A chunk matching a {@link SearchQuery}. */
+export interface SearchResult {
+	ref: DocumentRef;
+	/** Chunk number within the document */
+	chunk: number;
+	title: string;
+	/** Chunk tags, typed per the tag schema */
+	tags: Tags;
+	content: string;
+	source: string;
+	publisher?: string;
+	/** Document creation date (ISO-8601) */
+	createdAt: string;
+}
@@ -0,0 +1,145 @@
+const DEFAULT_CONTEXT_LINES = 3;
+/** Above this many changed lines, report the texts as replaced wholesale. */
+const MAX_EDIT_DISTANCE = 4000;
+
+interface DiffLine {
+	type: " " | "-" | "+";
+	text: string;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffLine[] {
+	const lines: DiffLine[] = [];
+	let x = a.length;
+	let y = b.length;
+
+	for (let d = trace.length - 1; d > 0; d--) {
+		const previous = trace[d - 1];
+		// `previous` holds the furthest x for diagonals -(d-1)..(d-1).
+		const at = (k: number) => previous?.[k + d - 1] ?? -1;
+		const k = x - y;
+		const prevK =
+			k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+		const prevX = at(prevK);
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			lines.push({ type: " ", text: a[x - 1] ?? "" });
+			x--;
+			y--;
+		}
+
+		if (prevK === k + 1) {
+			lines.push({ type: "+", text: b[prevY] ?? "" });
+		} else {
+			lines.push({ type: "-", text: a[prevX] ?? "" });
+		}
+		x = prevX;
+		y = prevY;
+	}
+
+	while (x > 0 && y > 0) {
+		lines.push({ type: " ", text: a[x - 1] ?? "" });
+		x--;
+		y--;
+	}
+
+	return lines.reverse();
+}
+
+/** Myers' shortest edit script over lines. */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+	const max = a.length + b.length;
+	const offset = max + 1;
+	const v = new Int32Array(2 * max + 3);
+	const trace: Int32Array[] = [];
+
+	for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+		for (let k = -d; k <= d; k += 2) {
+			const down =
+				k === -d ||
+				(k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0));
+			let x = down ? (v[offset + k + 1] ?? 0) : (v[offset + k - 1] ?? 0) + 1;
+			let y = x - k;
+			while (x < a.length && y < b.length && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+
+			if (x >= a.length && y >= b.length) {
+				trace.push(v.slice(offset - d, offset + d + 1));
+				return backtrack(a, b, trace);
+			}
+		}
+		trace.push(v.slice(offset - d, offset + d + 1));
+	}
+
+	return [
+		...a.map((text) => ({ type: "-" as const, text })),
+		...b.map((text) => ({ type: "+" as const, text })),
+	];
+}
+
+function formatRange(start: number, count: number): string {
+	return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Line-based diff of two texts in unified format, as produced by
+ * `diff -u`. Returns an empty string when the texts are equal.
+ */
+export function createUnifiedDiff(
+	oldText: string,
+	newText: string,
+	options: { oldLabel?: string; newLabel?: string; context?: number } = {},
+): string {
+	const context = options.context ?? DEFAULT_CONTEXT_LINES;
+	const lines = diffLines(oldText.split("\n"), newText.split("\n"));
+	if (lines.every((line) => line.type === " ")) {
+		return "";
+	}
+
+	const output = [
+		`--- ${options.oldLabel ?? "a"}`,
+		`+++ ${options.newLabel ?? "b"}`,
+	];
+
+	let i = 0;
+	let oldLine = 0;
+	let newLine = 0;
+
+	while (i < lines.length) {
+		// Skip to the next change, keeping track of line numbers.
+		const firstChange = lines.findIndex(
+			(line, index) => index >= i && line.type !== " ",
+		);
+		if (firstChange === -1) break;
+
+		const start = Math.max(i, firstChange - context);
+		oldLine += start - i;
+		newLine += start - i;
+
+		// Extend the hunk while changes are close enough to share context.
+		let end = firstChange;
+		for (let j = firstChange + 1; j < lines.length; j++) {
+			if (lines[j]?.type === " ") continue;
+			if (j - end > 2 * context) break;
+			end = j;
+		}
+		const stop = Math.min(lines.length, end + context + 1);
+
+		const hunk = lines.slice(start, stop);
+		const oldCount = hunk.filter((line) => line.type !== "+").length;
+		const newCount = hunk.filter((line) => line.type !== "-").length;
+		output.push(
+			`@@ -${formatRange(oldCount === 0 ? oldLine : oldLine + 1, oldCount)} +${formatRange(newCount === 0 ? newLine : newLine + 1, newCount)} @@`,
+			...hunk.map((line) => `${line.type}${line.text}`),
+		);
+
+		oldLine += oldCount;
+		newLine += newCount;
+		i = stop;
+	}
+
+	return output.join("\n");
+}
@@ -0,0 +1,6 @@
+export function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => {
+		const t = setTimeout(resolve, ms);
+		(t as unknown as { unref?: () => void }).unref?.();
+	});
+}
@@ -0,0 +1,34 @@
+import { expect, test } from "bun:test";
+import { createChangeCheck } from "../src/lib/storage/changes.js";
+import { createMemoryStorageBackend } from "../src/lib/storage/memory-backend.js";
+
+function createBackend(modified: { at: Date | undefined }) {
+	return {
+		...createMemoryStorageBackend(),
+		lastModified: async () => modified.at,
+	};
+}
+
+test("a file is reported once until its modification time changes", async () => {
+	const modified = { at: new Date(Date.now() - 60_000) as Date | undefined };
+	const hasChanged = createChangeCheck(createBackend(modified), "file");
+
+	expect(await hasChanged()).toBe(true);
+	expect(await hasChanged()).toBe(false);
+
+	modified.at = new Date(Date.now() - 30_000);
+	expect(await hasChanged()).toBe(true);
+	expect(await hasChanged()).toBe(false);
+
+	modified.at = undefined;
+	expect(await hasChanged()).toBe(true);
+	expect(await hasChanged()).toBe(false);
+});
+
+test("a recently written file is reported until its time can be trusted", async () => {
+	const modified = { at: new Date() as Date | undefined };
+	const hasChanged = createChangeCheck(createBackend(modified), "file");
+
+	expect(await hasChanged()).toBe(true);
+	expect(await hasChanged()).toBe(true);
+});
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { findConfigFile } from "../src/lib/config.js";
+
+let baseDir: string;
+
+beforeEach(async () => {
+	baseDir = await mkdtemp(path.join(tmpdir(), "greptor-config-"));
+});
+
+afterEach(async () => {
+	await rm(baseDir, { recursive: true, force: true });
+});
+
+describe("findConfigFile", () => {
+	test("finds the config in .greptor/", async () => {
+		await mkdir(path.join(baseDir, "workspace", ".greptor"), {
+			recursive: true,
+		});
+
+		expect(await findConfigFile(baseDir)).toBe(
+			path.join(baseDir, "workspace", ".greptor", "config.yaml"),
+		);
+	});
+
+	test("finds a pre-0.7 config in the base directory", async () => {
+		await writeFile(
+			path.join(baseDir, "config.yaml"),
+			"domain: Investing\ntagSchema: []\n",
+		);
+
+		expect(await findConfigFile(baseDir)).toBe(
+			path.join(baseDir, "config.yaml"),
+		);
+	});
+
+	test("ignores config files of other tools", async () => {
+		await writeFile(path.join(baseDir, "config.yaml"), "port: 8080\n");
+
+		expect(await findConfigFile(baseDir)).toBeUndefined();
+	});
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import type { StorageBackend } from "../src/lib/storage/backend.js";
+import { createFileStorage } from "../src/lib/storage/file-storage.js";
+import { createMemoryStorageBackend } from "../src/lib/storage/memory-backend.js";
+
+/** Memory backend whose writes under the prefix take a while. */
+function createSlowBackend(prefix = "processed/"): StorageBackend {
+	const backend = createMemoryStorageBackend();
+	const delay = (key: string) =>
+		key.startsWith(prefix)
+			? new Promise((resolve) => setTimeout(resolve, 20))
+			: Promise.resolve();
+	return {
+		...backend,
+		async write(key, content) {
+			await delay(key);
+			await backend.write(key, content);
+		},
+		async writeIfAbsent(key, content) {
+			await delay(key);
+			return backend.writeIfAbsent(key, content);
+		},
+	};
+}
+
+const document = {
+	label: "NVDA earnings",
+	source: "news",
+	format: "text" as const,
+	content: "Revenue grew.",
+};
+
+describe("file storage", () => {
+	test("removing a document while it is saved leaves nothing behind", async () => {
+		const backend = createSlowBackend();
+		const storage = await createFileStorage(backend);
+		const saved = await storage.saveRawContent(document);
+		if (saved.type !== "added") throw new Error(`Not added: ${saved.type}`);
+
+		const processing = storage.saveProcessedContent(saved.ref, "---\n---\n");
+		const removed = await storage.removeDocuments([saved.ref]);
+		await processing;
+
+		expect(removed).toEqual([saved.ref]);
+		expect(storage.getDocument(saved.ref)).toBeUndefined();
+		expect(await backend.list("processed/")).toEqual([]);
+	});
+
+	test("saving a removed document fails", async () => {
+		const storage = await createFileStorage(createSlowBackend());
+		const saved = await storage.saveRawContent(document);
+		if (saved.type !== "added") throw new Error(`Not added: ${saved.type}`);
+
+		const removing = storage.removeDocuments([saved.ref]);
+		await expect(
+			storage.saveProcessedContent(saved.ref, "---\n---\n"),
+		).rejects.toThrow("doesn't exist");
+		await removing;
+
+		expect(storage.getDocument(saved.ref)).toBeUndefined();
+	});
+
+	test("saves different documents in parallel", async () => {
+		const storage = await createFileStorage(createSlowBackend("raw/"));
+
+		const startedAt = Date.now();
+		const results = await Promise.all(
+			Array.from({ length: 5 }, (_, i) =>
+				storage.saveRawContent({
+					...document,
+					label: `Report ${i}`,
+					content: `Revenue ${i}`,
+				}),
+			),
+		);
+
+		expect(results.map((result) => result.type)).toEqual(
+			Array(5).fill("added"),
+		);
+		expect(Date.now() - startedAt).toBeLessThan(80);
+	});
+
+	test("saves of the same document are serialized", async () => {
+		const storage = await createFileStorage(createSlowBackend("raw/"));
+
+		const results = await Promise.all([
+			storage.saveRawContent({ ...document, id: "1" }),
+			storage.saveRawContent({ ...document, id: "1", content: "Other" }),
+			storage.saveRawContent({ ...document, id: "2" }),
+		]);
+
+		expect(results.map((result) => result.type)).toEqual([
+			"added",
+			"duplicate",
+			"duplicate",
+		]);
+	});
+
+	test("an overwrite waits for a processed save of the old content", async () => {
+		const backend = createSlowBackend();
+		const storage = await createFileStorage(backend);
+		const saved = await storage.saveRawContent({ ...document, id: "1" });
+		if (saved.type !== "added") throw new Error(`Not added: ${saved.type}`);
+
+		const processing = storage.saveProcessedContent(saved.ref, "---\n---\n");
+		const updated = await storage.saveRawContent({
+			...document,
+			id: "1",
+			content: "Revenue fell.",
+			overwrite: true,
+		});
+		await processing;
+
+		expect(updated).toEqual({ type: "updated", ref: saved.ref });
+		expect(storage.getDocument(saved.ref)?.status).toBe("pending");
+		expect(await backend.list("processed/")).toEqual([]);
+	});
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import {
+	type FingerprintInput,
+	createProcessingFingerprint,
+} from "../src/lib/processing/fingerprint.js";
+
+const input: FingerprintInput = {
+	domain: "Investing",
+	tagSchema: [
+		{
+			name: "ticker",
+			type: "string",
+			description: "Stock ticker",
+			enumValues: null,
+		},
+	],
+	model: { provider: "@ai-sdk/openai", model: "gpt-4o-mini" },
+};
+
+describe("createProcessingFingerprint", () => {
+	test("is stable for the same settings", () => {
+		expect(createProcessingFingerprint(input)).toBe(
+			createProcessingFingerprint({ ...input, outputMode: "text" }),
+		);
+		expect(createProcessingFingerprint(input)).toMatch(/^[0-9a-f]{16}$/);
+	});
+
+	test("changes with the schema, prompt, output mode and model", () => {
+		const fingerprint = createProcessingFingerprint(input);
+		const changed: FingerprintInput[] = [
+			{ ...input, domain: "Crypto" },
+			{
+				...input,
+				tagSchema: [
+					{
+						name: "ticker",
+						type: "string",
+						description: "Ticker symbol",
+						enumValues: null,
+					},
+				],
+			},
+			{ ...input, customProcessingPrompt: "Keep quotes verbatim." },
+			{ ...input, outputMode: "structured" },
+			{ ...input, model: { ...input.model, model: "gpt-4o" } },
+		];
+
+		for (const settings of changed) {
+			expect(createProcessingFingerprint(settings)).not.toBe(fingerprint);
+		}
+	});
+});
@@ -0,0 +1,21 @@
+import { createFsStorageBackend } from "../../src/lib/storage/fs-backend.js";
+import { createWorkspaceLock } from "../../src/lib/storage/lock.js";
+import { sleep } from "../../src/lib/utils/sleep.js";
+
+// Increments a counter file under the workspace lock. Lost updates mean two
+// processes held the lock at once.
+const [dir, iterations] = process.argv.slice(2);
+if (!dir || !iterations) {
+	throw new Error("Usage: lock-worker <dir> <iterations>");
+}
+
+const backend = createFsStorageBackend(dir);
+const lock = createWorkspaceLock(backend, { staleMs: 500, timeoutMs: 30_000 });
+
+for (let i = 0; i < Number(iterations); i++) {
+	await lock.withLock(async () => {
+		const count = Number((await backend.read("counter")) ?? "0");
+		await sleep(2);
+		await backend.write("counter", String(count + 1));
+	});
+}
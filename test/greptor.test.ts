@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import { CONFIG_KEY } from "../src/lib/config.js";
+import { createGreptor } from "../src/lib/greptor.js";
+import { createMemoryStorageBackend } from "../src/lib/storage/memory-backend.js";
+import type { GreptorOptions } from "../src/lib/types.js";
+
+function createOptions(
+	overrides: Partial<GreptorOptions> = {},
+): GreptorOptions {
+	return {
+		storage: createMemoryStorageBackend(),
+		topic: "Investing",
+		model: {
+			provider: "@ai-sdk/openai",
+			model: "gpt-4o-mini",
+			options: { apiKey: "test" },
+		},
+		tagSchema: [
+			{
+				name: "ticker",
+				type: "string",
+				description: "Stock ticker",
+				enumValues: null,
+			},
+		],
+		...overrides,
+	};
+}
+
+describe("createGreptor", () => {
+	test("records the options in the config", async () => {
+		const options = createOptions();
+		await createGreptor(options);
+
+		expect(await options.storage?.read(CONFIG_KEY)).toContain(
+			"domain: Investing",
+		);
+	});
+
+	test("leaves the config alone with writeConfig: false", async () => {
+		const options = createOptions({ writeConfig: false });
+		await options.storage?.write(CONFIG_KEY, "# hand-edited\n");
+		await createGreptor(options);
+
+		expect(await options.storage?.read(CONFIG_KEY)).toBe("# hand-edited\n");
+	});
+
+	test("rejects a sweep interval timers can't wait for", async () => {
+		await expect(
+			createGreptor(
+				createOptions({
+					retention: { rules: {}, sweepIntervalMs: 2 ** 31 },
+				}),
+			),
+		).rejects.toThrow("retention.sweepIntervalMs: At most 2147483647 ms");
+	});
+
+	test("reports invalid options by their path before touching storage", async () => {
+		const storage = createMemoryStorageBackend();
+		const options = createOptions({ storage, workers: 0 });
+		const [field] = options.tagSchema;
+		if (!field) throw new Error("No tag field");
+		Object.assign(field, { foo: true });
+
+		const error = await createGreptor(options).catch((error) => error);
+
+		expect(error.message).toBe(
+			"Invalid Greptor options:\ntagSchema[0].foo: Unknown field\nworkers: Too small: expected number to be >0",
+		);
+		expect(await storage.list("")).toEqual([]);
+	});
+});
+
+describe("retention sweep", () => {
+	test("the next sweep starts after the previous one finished", async () => {
+		const backend = createMemoryStorageBackend();
+		const removals: string[][] = [];
+		const greptor = await createGreptor(
+			createOptions({
+				storage: {
+					...backend,
+					async write(key, content) {
+						// Archiving takes longer than the interval.
+						if (key.startsWith("archive/")) {
+							await new Promise((resolve) => setTimeout(resolve, 50));
+						}
+						await backend.write(key, content);
+					},
+				},
+				retention: { rules: { "*": { maxAgeDays: 1 } }, sweepIntervalMs: 5 },
+				hooks: { onDocumentsRemoved: (event) => removals.push(event.refs) },
+			}),
+		);
+		const eaten = await greptor.eat({
+			label: "Old news",
+			source: "news",
+			format: "text",
+			content: "Old news.",
+			creationDate: new Date("2020-01-01"),
+		});
+		if (!eaten.success) throw new Error(eaten.message);
+
+		await greptor.start();
+		await new Promise((resolve) => setTimeout(resolve, 200));
+		await greptor.stop();
+
+		expect(removals).toEqual([[eaten.ref]]);
+	});
+});
+
+describe("eatMany", () => {
+	test("stops all loops when the inputs throw and keeps their results", async () => {
+		const greptor = await createGreptor(createOptions());
+		let pulled = 0;
+		async function* inputs() {
+			for (const n of [1, 2, 3]) {
+				pulled++;
+				yield {
+					label: `Report ${n}`,
+					source: "news",
+					format: "text" as const,
+					content: `Revenue ${n}`,
+				};
+			}
+			throw new Error("Feed unavailable");
+		}
+
+		const error = await greptor
+			.eatMany(inputs(), { concurrency: 3 })
+			.catch((error) => error);
+
+		expect(error.message).toBe("Failed to read inputs: Feed unavailable");
+		expect(error.result.added).toBe(3);
+		expect(greptor.listDocuments()).toHaveLength(pulled);
+	});
+});
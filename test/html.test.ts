@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import { htmlToMarkdown, renderRawContent } from "../src/lib/formats/index.js";
+
+describe("htmlToMarkdown", () => {
+	test("keeps structure and drops page chrome", () => {
+		const html = `<!doctype html>
+<html><head><title>Ignored</title><script>track()</script></head>
+<body>
+	<nav><a href="/">Home</a></nav>
+	<main>
+		<h1>NVDA earnings</h1>
+		<p>Revenue grew <strong>94%</strong>, see <a href="https://x.test/q">the report</a>.</p>
+		<ul><li>Data center</li><li>Gaming</li></ul>
+		<table><tr><th>Quarter</th><th>Revenue</th></tr><tr><td>Q3</td><td>$35B</td></tr></table>
+		<pre><code class="language-ts">const x = 1;</code></pre>
+	</main>
+	<footer>Copyright</footer>
+</body></html>`;
+
+		expect(htmlToMarkdown(html)).toBe(
+			[
+				"# NVDA earnings",
+				"Revenue grew **94%**, see [the report](https://x.test/q).",
+				"- Data center\n- Gaming",
+				"| Quarter | Revenue |\n| --- | --- |\n| Q3 | $35B |",
+				"```ts\nconst x = 1;\n```",
+			].join("\n\n"),
+		);
+	});
+
+	test("matches chrome class names as whole tokens only", () => {
+		const html = `<body>
+	<div class="container has-sidebar"><p>Kept</p></div>
+	<div class="post social-proof"><p>Also kept</p></div>
+	<div class="sidebar"><p>Dropped</p></div>
+</body>`;
+
+		expect(htmlToMarkdown(html)).toBe("Kept\n\nAlso kept");
+	});
+
+	test("never drops containers of the main content", () => {
+		const html = `<body>
+	<div class="menu"><article><p>First</p></article></div>
+	<div id="sidebar"><article><p>Second</p></article></div>
+</body>`;
+
+		expect(htmlToMarkdown(html)).toBe("First\n\nSecond");
+	});
+});
+
+describe("renderRawContent", () => {
+	test("fails when HTML has no text", () => {
+		expect(() =>
+			renderRawContent({
+				label: "Empty",
+				source: "news",
+				format: "html",
+				content: "<nav><a href='/'>Home</a></nav>",
+			}),
+		).toThrow("HTML content has no text");
+	});
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createGreptor } from "../src/lib/greptor.js";
+import { createHttpServer } from "../src/lib/server/http.js";
+import { createMemoryStorageBackend } from "../src/lib/storage/memory-backend.js";
+
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+	const greptor = await createGreptor({
+		storage: createMemoryStorageBackend(),
+		topic: "Investing",
+		model: {
+			provider: "@ai-sdk/openai",
+			model: "gpt-4o-mini",
+			options: { apiKey: "test" },
+		},
+		tagSchema: [
+			{
+				name: "ticker",
+				type: "string",
+				description: "Stock ticker",
+				enumValues: null,
+			},
+		],
+	});
+	server = createHttpServer({ greptor });
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+function postDocuments(body: unknown): Promise<Response> {
+	return fetch(`${baseUrl}/documents`, {
+		method: "POST",
+		headers: { "content-type": "application/json" },
+		body: JSON.stringify(body),
+	});
+}
+
+describe("POST /documents", () => {
+	test("accepts threads with dates as strings", async () => {
+		const res = await postDocuments({
+			label: "NVDA earnings thread",
+			source: "reddit",
+			format: "thread",
+			creationDate: "2025-11-20T10:00:00Z",
+			content: {
+				post: {
+					author: "op",
+					content: "Thoughts on the quarter?",
+					createdAt: "2025-11-20T10:00:00Z",
+				},
+				comments: [
+					{
+						author: "a",
+						content: "Strong guidance",
+						createdAt: "2025-11-20T11:00:00Z",
+						children: [
+							{
+								author: "b",
+								content: "Agreed",
+								createdAt: "2025-11-20T12:00:00Z",
+							},
+						],
+					},
+				],
+			},
+		});
+
+		expect(res.status).toBe(201);
+		const { ref } = (await res.json()) as { ref: string };
+		const document = (await (
+			await fetch(`${baseUrl}/documents/${ref}?layer=raw`)
+		).json()) as { content: string };
+		expect(document.content).toContain("2025-11-20T12:00:00.000Z");
+	});
+
+	test("rejects invalid dates", async () => {
+		const res = await postDocuments([
+			{
+				label: "Thread",
+				source: "reddit",
+				format: "thread",
+				content: {
+					post: { author: "op", content: "Post" },
+					comments: [{ author: "a", content: "Hi", createdAt: "yesterday" }],
+				},
+			},
+		]);
+
+		expect(res.status).toBe(400);
+		expect(((await res.json()) as { error: string }).error).toContain(
+			"Document 0 is invalid",
+		);
+	});
+});
+
+describe("GET /documents/:ref", () => {
+	test("rejects malformed refs", async () => {
+		const res = await fetch(`${baseUrl}/documents/%E0%A4%A`);
+
+		expect(res.status).toBe(400);
+		expect(((await res.json()) as { error: string }).error).toBe(
+			"Malformed document ref",
+		);
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import {
+	createDocumentLayout,
+	sanitizePathSegment,
+} from "../src/lib/storage/layout.js";
+
+const document = {
+	source: "YouTube",
+	publisher: "Some Channel!",
+	id: "abc_123",
+	label: "NVDA Earnings: Q3 2025",
+	timestamp: new Date("2025-12-31T23:00:00Z"),
+};
+
+describe("document layout", () => {
+	test("formats the default layout", () => {
+		const layout = createDocumentLayout();
+
+		expect(layout.format(document)).toBe(
+			"youtube/some-channel/2025-12/2025-12-31-nvda-earnings-q3-2025.md",
+		);
+		expect(layout.format({ ...document, publisher: undefined })).toBe(
+			"youtube/2025-12/2025-12-31-nvda-earnings-q3-2025.md",
+		);
+	});
+
+	test("fills tags, weeks and length limits", () => {
+		const layout = createDocumentLayout("{source}/{ticker}/{week}/{slug:8}.md");
+
+		expect(
+			layout.format({ ...document, tags: { ticker: ["NVDA", "AMD"] } }),
+		).toBe("youtube/nvda-amd/2026-W01/nvda-ear.md");
+		// Optional tag folders are left out, slugs fall back to the ID.
+		expect(layout.format({ ...document, label: "!!!" })).toBe(
+			"youtube/2026-W01/abc-123.md",
+		);
+	});
+
+	test("parses refs back into placeholder values", () => {
+		const layout = createDocumentLayout();
+
+		expect(
+			layout.parse(
+				"youtube/some-channel/2025-12/2025-12-31-nvda-earnings-q3-2025.md",
+			),
+		).toEqual({
+			source: "youtube",
+			publisher: "some-channel",
+			yyyy: "2025",
+			mm: "12",
+			date: "2025-12-31",
+			slug: "nvda-earnings-q3-2025",
+		});
+		expect(layout.parse("youtube/2025-12/2025-12-31-nvda.md")).toEqual({
+			source: "youtube",
+			yyyy: "2025",
+			mm: "12",
+			date: "2025-12-31",
+			slug: "nvda",
+		});
+		expect(layout.parse("youtube/notes.md")).toBeUndefined();
+	});
+
+	test("globs refs by placeholder values", () => {
+		const layout = createDocumentLayout();
+
+		expect(layout.glob({ source: "youtube", yyyy: "2025", mm: "12" })).toBe(
+			"youtube/**/2025-12/*.md",
+		);
+		expect(
+			createDocumentLayout("{source}/{date}-{slug}.md").glob({
+				yyyy: "2025",
+				mm: "12",
+			}),
+		).toBe("**/2025-12-*.md");
+	});
+
+	test("rejects invalid templates", () => {
+		expect(() => createDocumentLayout("{source}/{slug}.txt")).toThrow(
+			"it must end with .md",
+		);
+		expect(() => createDocumentLayout("{source}/../{slug}.md")).toThrow(
+			"empty or relative path segment",
+		);
+		expect(() => createDocumentLayout("{source}/{slug.md")).toThrow(
+			"malformed placeholder in '{slug.md'",
+		);
+	});
+});
+
+describe("sanitizePathSegment", () => {
+	test("keeps lowercase letters, digits and single dashes", () => {
+		expect(sanitizePathSegment("  Hello, World!  ")).toBe("hello-world");
+		expect(sanitizePathSegment("a".repeat(60))).toHaveLength(50);
+		expect(sanitizePathSegment("???")).toBe("unknown");
+	});
+});
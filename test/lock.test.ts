@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { createFsStorageBackend } from "../src/lib/storage/fs-backend.js";
+import {
+	LEASES_PREFIX,
+	LOCK_KEY,
+	createDocumentLeases,
+	createWorkspaceLock,
+} from "../src/lib/storage/lock.js";
+import { createMemoryStorageBackend } from "../src/lib/storage/memory-backend.js";
+
+const run = promisify(execFile);
+const worker = path.join(import.meta.dir, "fixtures", "lock-worker.ts");
+
+async function withTempDir(fn: (dir: string) => Promise<void>): Promise<void> {
+	const dir = await mkdtemp(path.join(tmpdir(), "greptor-lock-"));
+	try {
+		await fn(dir);
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
+
+describe("workspace lock", () => {
+	test("two processes never hold it at once, even taking over a stale lock", async () => {
+		await withTempDir(async (dir) => {
+			// A crashed holder left a lock that doesn't parse.
+			const lockPath = path.join(dir, ...LOCK_KEY.split("/"));
+			await createFsStorageBackend(dir).write(LOCK_KEY, "");
+			const past = new Date(Date.now() - 60_000);
+			await utimes(lockPath, past, past);
+
+			await Promise.all([
+				run(process.execPath, [worker, dir, "40"]),
+				run(process.execPath, [worker, dir, "40"]),
+			]);
+
+			expect(await readFile(path.join(dir, "counter"), "utf8")).toBe("80");
+		});
+	}, 60_000);
+
+	test("a fresh lock that doesn't parse is held", async () => {
+		await withTempDir(async (dir) => {
+			const backend = createFsStorageBackend(dir);
+			await backend.write(LOCK_KEY, "");
+			const lock = createWorkspaceLock(backend, {
+				staleMs: 10_000,
+				timeoutMs: 100,
+			});
+
+			await expect(lock.withLock(async () => {})).rejects.toThrow(
+				"Timed out waiting for the workspace lock",
+			);
+		});
+	});
+
+	test("releasing doesn't remove a lock taken over by another process", async () => {
+		const backend = createMemoryStorageBackend();
+		const lock = createWorkspaceLock(backend);
+
+		await lock.withLock(async () => {
+			await backend.write(LOCK_KEY, "taken over");
+		});
+
+		expect(await backend.read(LOCK_KEY)).toBe("taken over");
+	});
+});
+
+describe("document leases", () => {
+	test("only one instance gets a lease", async () => {
+		const backend = createMemoryStorageBackend();
+		const first = createDocumentLeases(
+			backend,
+			createWorkspaceLock(backend, { owner: "first" }),
+		);
+		const second = createDocumentLeases(
+			backend,
+			createWorkspaceLock(backend, { owner: "second" }),
+		);
+
+		expect(await first.acquire("a.md")).toBe(true);
+		expect(await second.acquire("a.md")).toBe(false);
+		await first.release("a.md");
+		expect(await second.acquire("a.md")).toBe(true);
+	});
+
+	test("a lease that doesn't parse is held until it is a TTL old", async () => {
+		const backend = createMemoryStorageBackend();
+		const leases = createDocumentLeases(backend, createWorkspaceLock(backend), {
+			ttlMs: 50,
+		});
+		expect(await leases.acquire("a.md")).toBe(true);
+		const [key] = await backend.list(LEASES_PREFIX);
+		if (!key) throw new Error("No lease file");
+
+		await backend.write(key, "{");
+		const other = createDocumentLeases(
+			backend,
+			createWorkspaceLock(backend, { owner: "other" }),
+			{ ttlMs: 50 },
+		);
+		expect(await other.acquire("a.md")).toBe(false);
+
+		await new Promise((resolve) => setTimeout(resolve, 80));
+		expect(await other.acquire("a.md")).toBe(true);
+	});
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { PassThrough } from "node:stream";
+import {
+	JSON_RPC_ERRORS,
+	type JsonRpcHandler,
+	serveJsonRpc,
+} from "../src/lib/mcp/protocol.js";
+import { createMcpServer } from "../src/lib/mcp/server.js";
+import { createFileStorage } from "../src/lib/storage/file-storage.js";
+import { createMemoryStorageBackend } from "../src/lib/storage/memory-backend.js";
+
+/** Sends the messages over a stdio-like stream pair and collects the responses by ID. */
+async function exchange(
+	handler: JsonRpcHandler,
+	messages: unknown[],
+): Promise<Map<unknown, Record<string, unknown>>> {
+	const input = new PassThrough();
+	const output = new PassThrough();
+	const chunks: Buffer[] = [];
+	output.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+	const serving = serveJsonRpc(handler, input, output);
+	for (const message of messages) {
+		input.write(`${JSON.stringify(message)}\n`);
+	}
+	input.end();
+	await serving;
+
+	const responses = Buffer.concat(chunks)
+		.toString("utf8")
+		.split("\n")
+		.filter(Boolean)
+		.map((line) => JSON.parse(line) as Record<string, unknown>);
+	return new Map(responses.map((response) => [response.id, response]));
+}
+
+describe("MCP server over stdio", () => {
+	test("initializes, lists and calls tools", async () => {
+		const storage = await createFileStorage(createMemoryStorageBackend());
+		const saved = await storage.saveRawContent({
+			label: "NVDA earnings",
+			source: "news",
+			format: "text",
+			content: "Revenue grew.",
+		});
+		if (saved.type !== "added") throw new Error(`Not added: ${saved.type}`);
+		const server = createMcpServer({
+			storage,
+			tagSchema: [
+				{
+					name: "ticker",
+					type: "string",
+					description: "Stock ticker",
+					enumValues: null,
+				},
+			],
+			domain: "Investing",
+		});
+
+		const responses = await exchange(server, [
+			{
+				jsonrpc: "2.0",
+				id: 1,
+				method: "initialize",
+				params: { protocolVersion: "2025-06-18" },
+			},
+			{ jsonrpc: "2.0", method: "notifications/initialized" },
+			{ jsonrpc: "2.0", id: 2, method: "tools/list" },
+			{
+				jsonrpc: "2.0",
+				id: 3,
+				method: "tools/call",
+				params: {
+					name: "read_document",
+					arguments: { ref: saved.ref, layer: "raw" },
+				},
+			},
+		]);
+
+		expect(responses.size).toBe(3);
+		expect(responses.get(1)?.result).toMatchObject({
+			protocolVersion: "2025-06-18",
+			serverInfo: { name: "greptor" },
+		});
+		const { tools } = responses.get(2)?.result as { tools: { name: string }[] };
+		expect(tools.map((tool) => tool.name)).toContain("search_chunks");
+		const { content } = responses.get(3)?.result as {
+			content: { text: string }[];
+		};
+		expect(content[0]?.text).toContain("Revenue grew.");
+	});
+
+	test("answers a failing handler with an internal error", async () => {
+		const responses = await exchange(async () => {
+			throw new Error("Storage is gone");
+		}, [
+			{ jsonrpc: "2.0", id: 1, method: "tools/list" },
+			{ jsonrpc: "2.0", method: "notifications/initialized" },
+		]);
+
+		expect([...responses.values()]).toEqual([
+			{
+				jsonrpc: "2.0",
+				id: 1,
+				error: {
+					code: JSON_RPC_ERRORS.internalError,
+					message: "Storage is gone",
+				},
+			},
+		]);
+	});
+});
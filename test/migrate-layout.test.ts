@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import { createProcessingQueue } from "../src/lib/processing/queue.js";
+import { createFileStorage } from "../src/lib/storage/file-storage.js";
+import { createDocumentLayout } from "../src/lib/storage/layout.js";
+import { createMemoryStorageBackend } from "../src/lib/storage/memory-backend.js";
+import { migrateLayout } from "../src/lib/storage/migrate-layout.js";
+
+describe("migrateLayout", () => {
+	test("swaps documents through a temporary ref", async () => {
+		const backend = createMemoryStorageBackend();
+		const storage = await createFileStorage(backend, {
+			layout: "{source}/{id}.md",
+		});
+		const queue = await createProcessingQueue({ backend });
+		for (const [id, label] of [
+			["a", "b"],
+			["b", "a"],
+		] as const) {
+			await storage.saveRawContent({
+				id,
+				label,
+				source: "news",
+				format: "text",
+				content: `Document ${id}`,
+			});
+		}
+		await queue.enqueueMany(["news/a.md", "news/b.md"]);
+
+		await migrateLayout({
+			storage,
+			queue,
+			layout: createDocumentLayout("{source}/{slug}.md"),
+		});
+
+		expect(storage.getDocument("news/a.md")?.id).toBe("b");
+		expect(storage.getDocument("news/b.md")?.id).toBe("a");
+		expect(storage.listDocuments().map((entry) => entry.ref)).toHaveLength(2);
+		expect((await storage.readRawContent("news/a.md")).content).toContain(
+			"Document b",
+		);
+		expect(queue.has("news/a.md") && queue.has("news/b.md")).toBe(true);
+	});
+});
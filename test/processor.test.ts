@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { createRateLimiter } from "../src/lib/llm/rate-limiter.js";
+import { startBackgroundWorkers } from "../src/lib/processing/processor.js";
+import {
+	QUEUE_KEY,
+	createProcessingQueue,
+} from "../src/lib/processing/queue.js";
+import type { StorageBackend } from "../src/lib/storage/backend.js";
+import { createFileStorage } from "../src/lib/storage/file-storage.js";
+import { createMemoryStorageBackend } from "../src/lib/storage/memory-backend.js";
+import type { DocumentProcessingCompletedEvent } from "../src/lib/types.js";
+
+/** Memory backend whose queue writes fail once `failing` is set. */
+function createFailingBackend(): StorageBackend & { failing: boolean } {
+	const backend = createMemoryStorageBackend();
+	const failing = {
+		...backend,
+		failing: false,
+		async write(key: string, content: string | Uint8Array) {
+			if (failing.failing && key === QUEUE_KEY) {
+				throw new Error("Backend unavailable");
+			}
+			await backend.write(key, content);
+		},
+	};
+	return failing;
+}
+
+describe("background workers", () => {
+	test("keep running when queue bookkeeping fails", async () => {
+		const backend = createFailingBackend();
+		const storage = await createFileStorage(backend);
+		const queue = await createProcessingQueue({
+			backend,
+			retry: { baseDelayMs: 0 },
+		});
+		// Documents without raw content fail, so the worker records a failure.
+		await queue.enqueue("news/missing.md");
+		backend.failing = true;
+
+		const events: DocumentProcessingCompletedEvent[] = [];
+		const workers = startBackgroundWorkers({
+			ctx: {
+				domain: "Investing",
+				tagSchema: [],
+				model: "gpt-4o-mini",
+				modelConfig: { provider: "@ai-sdk/openai", model: "gpt-4o-mini" },
+				rateLimiter: createRateLimiter(),
+				storage,
+				hooks: {
+					onDocumentProcessingCompleted: (event) => events.push(event),
+				},
+			},
+			queue,
+			idleSleepMs: 50,
+			refreshIntervalMs: 50,
+		});
+
+		while (events.length < 2) {
+			await Bun.sleep(20);
+		}
+		await workers.stop();
+
+		expect(events[0]).toMatchObject({
+			success: false,
+			error: "Backend unavailable",
+			willRetry: true,
+		});
+		expect(queue.has("news/missing.md")).toBe(true);
+	});
+});
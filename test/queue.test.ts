@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { createProcessingQueue } from "../src/lib/processing/queue.js";
+import { createMemoryStorageBackend } from "../src/lib/storage/memory-backend.js";
+
+describe("processing queue", () => {
+	test("schedules retries with exponential backoff", async () => {
+		const queue = await createProcessingQueue({
+			backend: createMemoryStorageBackend(),
+			retry: { baseDelayMs: 1000, maxDelayMs: 3000 },
+		});
+		await queue.enqueue("news/a.md");
+		expect(queue.dequeue()).toBe("news/a.md");
+
+		const delays: number[] = [];
+		for (let i = 0; i < 3; i++) {
+			const startedAt = Date.now();
+			const outcome = await queue.fail("news/a.md", "Timeout");
+			if (outcome.type !== "retry") throw new Error(outcome.type);
+			delays.push(Date.parse(outcome.nextAttemptAt) - startedAt);
+		}
+		// Not due yet.
+		expect(queue.dequeue()).toBeUndefined();
+
+		expect(delays.map((delay) => Math.round(delay / 1000))).toEqual([1, 2, 3]);
+	});
+
+	test("dead-letters documents after the last attempt", async () => {
+		const backend = createMemoryStorageBackend();
+		const queue = await createProcessingQueue({
+			backend,
+			retry: { maxAttempts: 2, baseDelayMs: 0 },
+		});
+		await queue.enqueue("news/a.md");
+
+		queue.dequeue();
+		expect(await queue.fail("news/a.md", "Timeout")).toMatchObject({
+			type: "retry",
+			attempts: 1,
+		});
+		queue.dequeue();
+		expect(await queue.fail("news/a.md", "Invalid output")).toEqual({
+			type: "dead-letter",
+			attempts: 2,
+		});
+
+		expect(queue.size()).toBe(0);
+		expect(queue.getDeadLetters()).toMatchObject([
+			{ ref: "news/a.md", attempts: 2, lastError: "Invalid output" },
+		]);
+		// Dead-lettered documents aren't queued again by a rescan.
+		expect(await queue.enqueue("news/a.md")).toBe(false);
+
+		const reopened = await createProcessingQueue({ backend });
+		expect(reopened.getDeadLetters()).toHaveLength(1);
+		expect(await reopened.requeueDeadLetters()).toEqual(["news/a.md"]);
+		expect(reopened.getDeadLetters()).toEqual([]);
+		expect(reopened.dequeue()).toBe("news/a.md");
+	});
+
+	test("keeps documents that crashed mid-attempt", async () => {
+		const backend = createMemoryStorageBackend();
+		const queue = await createProcessingQueue({ backend });
+		await queue.enqueueMany(["news/a.md", "news/b.md"]);
+		expect(queue.dequeue()).toBe("news/a.md");
+
+		const reopened = await createProcessingQueue({ backend });
+		expect(reopened.dequeue()).toBe("news/a.md");
+	});
+
+	test("queues documents changed during an attempt again", async () => {
+		const queue = await createProcessingQueue({
+			backend: createMemoryStorageBackend(),
+		});
+		await queue.enqueue("news/a.md");
+		queue.dequeue();
+
+		expect(await queue.enqueue("news/a.md")).toBe(true);
+		await queue.complete("news/a.md");
+
+		expect(queue.has("news/a.md")).toBe(true);
+		expect(queue.dequeue()).toBe("news/a.md");
+	});
+});
@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import { APICallError } from "ai";
+import { createRateLimiter } from "../src/lib/llm/rate-limiter.js";
+import type { RateLimitedEvent } from "../src/lib/types.js";
+
+function rateLimitError(headers: Record<string, string>): APICallError {
+	return new APICallError({
+		message: "Too many requests",
+		url: "https://api.test/v1/chat",
+		requestBodyValues: {},
+		statusCode: 429,
+		responseHeaders: headers,
+	});
+}
+
+async function waitForEvents(
+	events: RateLimitedEvent[],
+	count: number,
+): Promise<void> {
+	while (events.length < count) {
+		await Bun.sleep(5);
+	}
+}
+
+describe("rate limiter", () => {
+	test("waits for the oldest request to leave the window", async () => {
+		const events: RateLimitedEvent[] = [];
+		const limiter = createRateLimiter({ requestsPerMinute: 2 }, (event) =>
+			events.push(event),
+		);
+		const call = () => Promise.resolve("ok");
+
+		await limiter.run(10, call, () => 10);
+		await limiter.run(10, call, () => 10);
+		// Blocked for a minute, the test only checks the reported wait.
+		void limiter.run(10, call, () => 10);
+		await waitForEvents(events, 1);
+
+		expect(events[0]?.reason).toBe("requests_per_minute");
+		expect(events[0]?.waitMs).toBeGreaterThan(59_000);
+		expect(events[0]?.waitMs).toBeLessThanOrEqual(60_000);
+	});
+
+	test("waits until enough tokens leave the window", async () => {
+		const events: RateLimitedEvent[] = [];
+		const limiter = createRateLimiter({ tokensPerMinute: 1000 }, (event) =>
+			events.push(event),
+		);
+		const call = () => Promise.resolve("ok");
+
+		await limiter.run(600, call, () => 600);
+		void limiter.run(600, call, () => 600);
+		await waitForEvents(events, 1);
+
+		expect(events[0]?.reason).toBe("tokens_per_minute");
+		expect(events[0]?.waitMs).toBeGreaterThan(59_000);
+	});
+
+	test("retries after the provider's Retry-After", async () => {
+		const events: RateLimitedEvent[] = [];
+		const limiter = createRateLimiter({}, (event) => events.push(event));
+		const errors = [
+			rateLimitError({ "Retry-After": "0.05" }),
+			rateLimitError({ "retry-after-ms": "20" }),
+			rateLimitError({ "retry-after": new Date(0).toUTCString() }),
+		];
+
+		const result = await limiter.run(
+			10,
+			async () => {
+				const error = errors.shift();
+				if (error) throw error;
+				return "ok";
+			},
+			() => 10,
+		);
+
+		expect(result).toBe("ok");
+		expect(events.map((event) => event.statusCode)).toEqual([429, 429, 429]);
+		expect(events.map((event) => event.attempt)).toEqual([1, 2, 3]);
+		// Retry-After plus up to 10% jitter.
+		expect(events[0]?.waitMs).toBeWithin(50, 56);
+		expect(events[1]?.waitMs).toBeWithin(20, 23);
+		expect(events[2]?.waitMs).toBe(0);
+	});
+
+	test("gives up after the last retry", async () => {
+		const limiter = createRateLimiter({ maxRetries: 1 });
+		let calls = 0;
+
+		await expect(
+			limiter.run(
+				10,
+				async () => {
+					calls++;
+					throw rateLimitError({ "retry-after-ms": "1" });
+				},
+				() => 10,
+			),
+		).rejects.toThrow("Too many requests");
+		expect(calls).toBe(2);
+	});
+
+	test("doesn't retry other errors", async () => {
+		const limiter = createRateLimiter();
+		let calls = 0;
+
+		await expect(
+			limiter.run(
+				10,
+				async () => {
+					calls++;
+					throw new Error("Invalid prompt");
+				},
+				() => 10,
+			),
+		).rejects.toThrow("Invalid prompt");
+		expect(calls).toBe(1);
+	});
+});
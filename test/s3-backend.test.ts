@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import { createS3StorageBackend } from "../src/lib/storage/s3-backend.js";
+
+interface StoredObject {
+	body: string;
+	etag: string;
+	lastModified: Date;
+	metadata: Record<string, string>;
+}
+
+/** In-memory S3 speaking the subset of the API the backend uses. */
+function createFakeS3() {
+	const objects = new Map<string, StoredObject>();
+	const requests: string[] = [];
+	let version = 0;
+
+	function objectHeaders(object: StoredObject): Record<string, string> {
+		return {
+			etag: `"${object.etag}"`,
+			"last-modified": object.lastModified.toUTCString(),
+			...object.metadata,
+		};
+	}
+
+	const fetchFn = async (
+		input: string | URL | Request,
+		init?: RequestInit,
+	): Promise<Response> => {
+		const url = new URL(String(input));
+		const method = init?.method ?? "GET";
+		const headers = (init?.headers ?? {}) as Record<string, string>;
+		const key = decodeURIComponent(url.pathname.replace(/^\/bucket\//, ""));
+		requests.push(`${method} ${url.searchParams.get("prefix") ?? key}`);
+
+		if (method === "GET" && url.searchParams.get("list-type") === "2") {
+			const prefix = url.searchParams.get("prefix") ?? "";
+			const contents = [...objects]
+				.filter(([name]) => name.startsWith(prefix))
+				.map(
+					([name, object]) =>
+						`<Contents><Key>${name}</Key><LastModified>${object.lastModified.toISOString()}</LastModified></Contents>`,
+				);
+			return new Response(
+				`<ListBucketResult><IsTruncated>false</IsTruncated>${contents.join("")}</ListBucketResult>`,
+			);
+		}
+
+		const object = objects.get(key);
+		switch (method) {
+			case "GET":
+			case "HEAD":
+				if (!object) return new Response(null, { status: 404 });
+				return new Response(method === "GET" ? object.body : null, {
+					headers: objectHeaders(object),
+				});
+			case "PUT":
+				if (headers["if-none-match"] === "*" && object) {
+					return new Response(null, { status: 412 });
+				}
+				objects.set(key, {
+					body: String(init?.body ?? ""),
+					etag: String(++version),
+					lastModified: new Date(),
+					metadata: Object.fromEntries(
+						Object.entries(headers).filter(([name]) =>
+							name.startsWith("x-amz-meta-"),
+						),
+					),
+				});
+				return new Response(null, { status: 200 });
+			case "DELETE":
+				if (
+					headers["if-match"] &&
+					headers["if-match"] !== `"${object?.etag}"`
+				) {
+					return new Response(null, { status: 412 });
+				}
+				objects.delete(key);
+				return new Response(null, { status: 204 });
+			default:
+				return new Response(null, { status: 405 });
+		}
+	};
+
+	const backend = createS3StorageBackend({
+		endpoint: "http://s3.test",
+		bucket: "bucket",
+		accessKeyId: "key",
+		secretAccessKey: "secret",
+		fetch: fetchFn as typeof fetch,
+	});
+	return { backend, objects, requests };
+}
+
+describe("S3 backend", () => {
+	test("appends without reading the object back", async () => {
+		const { backend, objects, requests } = createFakeS3();
+		await backend.append("manifest.jsonl", "line 0\n");
+
+		requests.length = 0;
+		for (let i = 1; i <= 10; i++) {
+			await backend.append("manifest.jsonl", `line ${i}\n`);
+		}
+
+		expect(requests.filter((r) => r === "GET manifest.jsonl")).toEqual([]);
+		expect(objects.get("manifest.jsonl")?.body).toBe("");
+		expect(await backend.read("manifest.jsonl")).toBe(
+			Array.from({ length: 11 }, (_, i) => `line ${i}\n`).join(""),
+		);
+	});
+
+	test("folds segments into the object and hides them from listings", async () => {
+		const { backend, objects } = createFakeS3();
+		const lines = Array.from({ length: 150 }, (_, i) => `line ${i}\n`);
+		for (const line of lines) {
+			await backend.append("manifest.jsonl", line);
+		}
+
+		expect(objects.size).toBeLessThan(70);
+		expect(await backend.read("manifest.jsonl")).toBe(lines.join(""));
+		expect(await backend.list("")).toEqual(["manifest.jsonl"]);
+		expect(await backend.exists("manifest.jsonl")).toBe(true);
+	});
+
+	test("a write replaces appended content", async () => {
+		const { backend } = createFakeS3();
+		await backend.append("manifest.jsonl", "old\n");
+		await backend.write("manifest.jsonl", "compacted\n");
+		expect(await backend.read("manifest.jsonl")).toBe("compacted\n");
+
+		await backend.append("manifest.jsonl", "new\n");
+		expect(await backend.read("manifest.jsonl")).toBe("compacted\nnew\n");
+	});
+
+	test("appends update the modification time", async () => {
+		const { backend, objects } = createFakeS3();
+		await backend.append("manifest.jsonl", "a\n");
+		const base = objects.get("manifest.jsonl");
+		if (!base) throw new Error("No base object");
+		base.lastModified = new Date(0);
+
+		await backend.append("manifest.jsonl", "b\n");
+		const modified = await backend.lastModified("manifest.jsonl");
+		expect(modified?.getTime()).toBeGreaterThan(0);
+	});
+});
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { TagSchema } from "../src/lib/config.js";
+import { parseTagFilters, searchChunks } from "../src/lib/search/search.js";
+import {
+	type FileStorage,
+	createFileStorage,
+} from "../src/lib/storage/file-storage.js";
+import { createMemoryStorageBackend } from "../src/lib/storage/memory-backend.js";
+import type { SearchQuery } from "../src/lib/types.js";
+
+const tagSchema: TagSchema = [
+	{
+		name: "ticker",
+		type: "string[]",
+		description: "Stock tickers",
+		enumValues: null,
+	},
+	{
+		name: "sentiment",
+		type: "enum",
+		description: "Market sentiment",
+		enumValues: ["bullish", "bearish", "neutral"],
+	},
+	{
+		name: "report_date",
+		type: "date",
+		description: "Date of the report",
+		enumValues: null,
+	},
+];
+
+let storage: FileStorage;
+
+async function addDocument(
+	label: string,
+	creationDate: string,
+	processed: string,
+): Promise<void> {
+	const saved = await storage.saveRawContent({
+		label,
+		source: "news",
+		publisher: "Wire",
+		format: "text",
+		content: label,
+		creationDate: new Date(creationDate),
+	});
+	if (saved.type !== "added") throw new Error(`Not added: ${saved.type}`);
+	await storage.saveProcessedContent(saved.ref, processed);
+}
+
+function search(query: SearchQuery) {
+	return searchChunks({ storage, tagSchema, query });
+}
+
+beforeEach(async () => {
+	storage = await createFileStorage(createMemoryStorageBackend());
+	await addDocument(
+		"October",
+		"2025-10-15T00:00:00Z",
+		`---
+report_date: 2025-10-14
+---
+## 01 Chips rally
+ticker=NVDA,AMD
+sentiment=bullish
+Chip stocks rallied.
+
+## 02 Banks slip
+ticker=JPM
+sentiment=bearish
+Banks slipped.`,
+	);
+	await addDocument(
+		"November",
+		"2025-11-20T00:00:00Z",
+		`---
+title: November
+---
+## 01 Earnings
+ticker=NVDA
+sentiment=neutral
+report_date=2025-11-19
+NVDA reported earnings.`,
+	);
+});
+
+describe("parseTagFilters", () => {
+	test("collects comma-separated and repeated values", () => {
+		expect(
+			parseTagFilters(["ticker=NVDA, AMD", "sentiment=bullish", "ticker=JPM"]),
+		).toEqual({
+			ticker: ["NVDA", "AMD", "JPM"],
+			sentiment: ["bullish"],
+		});
+	});
+
+	test("rejects filters without a name or value", () => {
+		expect(() => parseTagFilters(["ticker"])).toThrow(
+			"Invalid tag filter 'ticker', expected name=value",
+		);
+		expect(() => parseTagFilters(["=NVDA"])).toThrow("Invalid tag filter");
+		expect(() => parseTagFilters(["ticker=,"])).toThrow("Invalid tag filter");
+	});
+});
+
+describe("searchChunks", () => {
+	test("returns the newest documents first with typed tags", async () => {
+		const results = await search({ tags: { ticker: "nvda" } });
+
+		expect(results.map((result) => result.title)).toEqual([
+			"Earnings",
+			"Chips rally",
+		]);
+		expect(results[1]).toMatchObject({
+			chunk: 1,
+			tags: { ticker: ["NVDA", "AMD"], sentiment: "bullish" },
+			source: "news",
+			publisher: "Wire",
+		});
+	});
+
+	test("matches enums case-insensitively and excludes tags", async () => {
+		const results = await search({
+			tags: { sentiment: ["Bullish", "BEARISH"] },
+			excludeTags: { ticker: "JPM" },
+		});
+
+		expect(results.map((result) => result.title)).toEqual(["Chips rally"]);
+	});
+
+	test("matches dates by prefix, falling back to the frontmatter", async () => {
+		const october = await search({ tags: { report_date: "2025-10" } });
+		expect(october.map((result) => result.title)).toEqual([
+			"Chips rally",
+			"Banks slip",
+		]);
+
+		const november = await search({ tags: { report_date: "2025-11-19" } });
+		expect(november.map((result) => result.title)).toEqual(["Earnings"]);
+	});
+
+	test("filters by text, creation date and limit", async () => {
+		expect(
+			(await search({ text: "BANKS" })).map((result) => result.title),
+		).toEqual(["Banks slip"]);
+		expect(
+			(await search({ from: "2025-11" })).map((result) => result.title),
+		).toEqual(["Earnings"]);
+		expect(
+			(await search({ to: "2025-10" })).map((result) => result.title),
+		).toEqual(["Chips rally", "Banks slip"]);
+		expect(await search({ limit: 1 })).toHaveLength(1);
+	});
+
+	test("rejects values the schema doesn't allow", async () => {
+		await expect(search({ tags: { sentiment: "euphoric" } })).rejects.toThrow(
+			"Invalid value 'euphoric' for enum field 'sentiment'. Allowed values: bullish, bearish, neutral",
+		);
+	});
+});
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { splitIntoSegments } from "../src/lib/processing/segmenter.js";
+
+describe("splitIntoSegments", () => {
+	test("keeps content that fits in one segment", () => {
+		const content = "Revenue grew.\n\nMargins held up.";
+
+		expect(splitIntoSegments(content, 100)).toEqual([content]);
+	});
+
+	test("splits along paragraphs", () => {
+		const paragraphs = ["a", "b", "c"].map((letter) => letter.repeat(30));
+
+		expect(splitIntoSegments(paragraphs.join("\n\n"), 10)).toEqual(paragraphs);
+	});
+
+	test("starts a new segment at a heading once half full", () => {
+		const content = `${"a".repeat(60)}\n\n# Outlook\n\n${"b".repeat(20)}`;
+
+		expect(splitIntoSegments(content, 20)).toEqual([
+			"a".repeat(60),
+			`# Outlook\n\n${"b".repeat(20)}`,
+		]);
+	});
+
+	test("keeps code blocks with blank lines together", () => {
+		const code = "```\nconst a = 1;\n\nconst b = 2;\n```";
+
+		expect(splitIntoSegments(`${code}\n\n${"c".repeat(40)}`, 10)).toEqual([
+			code,
+			"c".repeat(40),
+		]);
+	});
+
+	test("splits oversized paragraphs by sentences, then at spaces", () => {
+		expect(splitIntoSegments("One two three. Four five six.", 5)).toEqual([
+			"One two three.",
+			"Four five six.",
+		]);
+		expect(splitIntoSegments("word ".repeat(10).trim(), 5)).toEqual([
+			"word word word word",
+			"word word word word",
+			"word word",
+		]);
+	});
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import type { TagSchema } from "../src/lib/config.js";
+import {
+	createChunkSchema,
+	toProcessedChunks,
+} from "../src/lib/processing/structured.js";
+
+const tagSchema: TagSchema = [
+	{
+		name: "ticker",
+		type: "string[]",
+		description: "Stock tickers",
+		enumValues: null,
+	},
+	{
+		name: "sentiment",
+		type: "enum",
+		description: "Market sentiment",
+		enumValues: ["bullish", "bearish"],
+	},
+	{
+		name: "price_target",
+		type: "number",
+		description: "Price target in USD",
+		enumValues: null,
+	},
+];
+
+describe("structured output", () => {
+	test("requires every field but allows null", () => {
+		const schema = createChunkSchema(tagSchema);
+		const chunk = {
+			title: "NVDA beats",
+			tags: { ticker: ["NVDA"], sentiment: "bullish", price_target: null },
+			content: "Revenue grew.",
+		};
+
+		expect(schema.safeParse({ chunks: [chunk] }).success).toBe(true);
+		expect(
+			schema.safeParse({
+				chunks: [{ ...chunk, tags: { ticker: ["NVDA"], sentiment: "up" } }],
+			}).success,
+		).toBe(false);
+	});
+
+	test("accepts time ranges of timed formats", () => {
+		const schema = createChunkSchema(tagSchema, { allowTimeRange: true });
+		const tags = { ticker: null, sentiment: null, price_target: null };
+
+		expect(
+			schema.safeParse({
+				chunks: [
+					{
+						title: "Intro",
+						tags: { ...tags, time_range: "00:00:00-00:01:30" },
+						content: "Welcome.",
+					},
+				],
+			}).success,
+		).toBe(true);
+		expect(
+			schema.safeParse({
+				chunks: [
+					{
+						title: "Intro",
+						tags: { ...tags, time_range: "1:30" },
+						content: "",
+					},
+				],
+			}).success,
+		).toBe(false);
+	});
+
+	test("converts chunks and drops empty tags", () => {
+		expect(
+			toProcessedChunks({
+				chunks: [
+					{
+						title: "NVDA beats",
+						tags: {
+							ticker: ["NVDA", "AMD"],
+							sentiment: null,
+							price_target: 1200,
+						},
+						content: "Revenue grew.",
+					},
+					{ title: "Banks", tags: { ticker: [] }, content: "Banks slipped." },
+				],
+			}),
+		).toEqual([
+			{
+				number: 1,
+				title: "NVDA beats",
+				tags: [
+					{ name: "ticker", value: "NVDA,AMD" },
+					{ name: "price_target", value: "1200" },
+				],
+				content: "Revenue grew.",
+			},
+			{ number: 2, title: "Banks", tags: [], content: "Banks slipped." },
+		]);
+	});
+});
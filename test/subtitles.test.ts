@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { srtToMarkdown, vttToMarkdown } from "../src/lib/formats/index.js";
+
+describe("vttToMarkdown", () => {
+	test("removes rolling caption overlap", () => {
+		const vtt = `WEBVTT
+
+00:00:01.000 --> 00:00:03.000
+welcome back to the show
+
+00:00:03.000 --> 00:00:05.000
+welcome back to the show
+today we talk about chips
+
+00:00:05.000 --> 00:00:05.010
+today we talk about chips
+
+00:00:05.010 --> 00:00:07.000
+today we talk about chips
+and <c>earnings</c>`;
+
+		expect(vttToMarkdown(vtt)).toBe(
+			"[00:00:01-00:00:07] welcome back to the show today we talk about chips and earnings",
+		);
+	});
+
+	test("keeps single words repeated across cues", () => {
+		const vtt = `WEBVTT
+
+00:00:01.000 --> 00:00:02.000
+<v Ann>I said no
+
+00:00:02.000 --> 00:00:03.000
+no way.
+
+00:00:03.000 --> 00:00:04.000
+Yes.
+
+00:00:04.000 --> 00:00:05.000
+Yes.`;
+
+		expect(vttToMarkdown(vtt)).toBe(
+			"[00:00:01-00:00:05] Ann: I said no no way. Yes. Yes.",
+		);
+	});
+
+	test("requires the WEBVTT header", () => {
+		expect(() => vttToMarkdown("00:00:01.000 --> 00:00:02.000\nHi")).toThrow(
+			"missing WEBVTT header",
+		);
+	});
+});
+
+describe("srtToMarkdown", () => {
+	test("keeps cue text intact and splits paragraphs on pauses", () => {
+		const srt = `1
+00:00:01,000 --> 00:00:02,000
+Revenue grew this quarter
+
+2
+00:00:02,000 --> 00:00:03,000
+Revenue grew this quarter
+
+3
+00:00:10,000 --> 00:00:12,500
+<i>Margins</i> held up.`;
+
+		expect(srtToMarkdown(srt)).toBe(
+			[
+				"[00:00:01-00:00:03] Revenue grew this quarter Revenue grew this quarter",
+				"[00:00:10-00:00:12] Margins held up.",
+			].join("\n\n"),
+		);
+	});
+
+	test("fails without cues", () => {
+		expect(() => srtToMarkdown("just text")).toThrow("no subtitle cues found");
+	});
+});
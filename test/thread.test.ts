@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { threadToMarkdown } from "../src/lib/formats/index.js";
+import type { ThreadContent } from "../src/lib/types.js";
+
+describe("threadToMarkdown", () => {
+	test("nests replies under their comments", () => {
+		expect(
+			threadToMarkdown({
+				post: {
+					title: "NVDA earnings",
+					author: "op",
+					score: 120,
+					createdAt: new Date("2025-11-20T10:00:00Z"),
+					url: "https://reddit.test/r/stocks/1",
+					content: "Thoughts on the quarter?",
+				},
+				comments: [
+					{
+						author: "a",
+						score: 10,
+						content: "Strong guide.\n\nData center carried it.",
+						children: [{ author: "", content: "Agreed" }],
+					},
+				],
+			}),
+		).toBe(
+			[
+				"# NVDA earnings",
+				"",
+				"**op** · score: 120 · 2025-11-20T10:00:00.000Z",
+				"https://reddit.test/r/stocks/1",
+				"",
+				"Thoughts on the quarter?",
+				"",
+				"## Comments (2)",
+				"",
+				"- **a** · score: 10",
+				"  Strong guide.",
+				"",
+				"  Data center carried it.",
+				"  - **unknown**",
+				"    Agreed",
+			].join("\n"),
+		);
+	});
+
+	test("fails without post text", () => {
+		expect(() =>
+			threadToMarkdown({ post: { author: "op" } } as unknown as ThreadContent),
+		).toThrow("Thread must have a post with text content");
+	});
+
+	test("fails on comments without text", () => {
+		expect(() =>
+			threadToMarkdown({
+				post: { author: "op", content: "Post" },
+				comments: [{ author: "a" }],
+			} as unknown as ThreadContent),
+		).toThrow("Comment by 'a' has no text content (depth 0)");
+	});
+});
@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+import type { TagSchema } from "../src/lib/config.js";
+import { parseChunks, renderChunks } from "../src/lib/processing/chunks.js";
+import { validateChunks } from "../src/lib/processing/validation.js";
+
+const schema: TagSchema = [
+	{
+		name: "ticker",
+		type: "string[]",
+		description: "Stock tickers",
+		enumValues: null,
+	},
+	{
+		name: "sentiment",
+		type: "enum",
+		description: "Market sentiment",
+		enumValues: ["bullish", "bearish", "neutral"],
+	},
+	{
+		name: "price_target",
+		type: "number",
+		description: "Price target in USD",
+		enumValues: null,
+	},
+	{
+		name: "report_date",
+		type: "date",
+		description: "Date of the report",
+		enumValues: null,
+	},
+];
+
+describe("validateChunks", () => {
+	test("repairs names and values and removes what can't be repaired", () => {
+		const { chunks } = parseChunks(`## 02 NVDA beats
+Sentiment=Bullish
+ticker=NVDA
+price-target=1,200
+ticker=AMD, NVDA
+report_date=2025-11-20T10:00:00Z
+rating=buy
+Revenue grew 94%.`);
+
+		const result = validateChunks(chunks, schema);
+
+		expect(renderChunks(result.chunks)).toBe(`## 01 NVDA beats
+ticker=NVDA,AMD
+sentiment=bullish
+price_target=1200
+report_date=2025-11-20
+Revenue grew 94%.`);
+		expect(result.issues).toEqual([
+			{
+				chunk: 2,
+				action: "repaired",
+				message: "Renumbered chunk 2 to 1",
+			},
+			{
+				chunk: 1,
+				field: "sentiment",
+				action: "repaired",
+				message: "Renamed field 'Sentiment' to 'sentiment'",
+			},
+			{
+				chunk: 1,
+				field: "price_target",
+				action: "repaired",
+				message: "Renamed field 'price-target' to 'price_target'",
+			},
+			{
+				chunk: 1,
+				field: "ticker",
+				action: "repaired",
+				message: "Merged duplicate field",
+			},
+			{
+				chunk: 1,
+				field: "rating",
+				action: "removed",
+				message: "Unknown field 'rating'",
+			},
+			{
+				chunk: 1,
+				field: "ticker",
+				action: "repaired",
+				message: "Normalized 'NVDA,AMD,NVDA' to 'NVDA,AMD'",
+			},
+			{
+				chunk: 1,
+				field: "sentiment",
+				action: "repaired",
+				message: "Normalized 'Bullish' to 'bullish'",
+			},
+			{
+				chunk: 1,
+				field: "price_target",
+				action: "repaired",
+				message: "Normalized '1,200' to '1200'",
+			},
+			{
+				chunk: 1,
+				field: "report_date",
+				action: "repaired",
+				message: "Normalized '2025-11-20T10:00:00Z' to '2025-11-20'",
+			},
+		]);
+	});
+
+	test("removes invalid values and empty chunks", () => {
+		const { chunks } = parseChunks(`## 01
+sentiment=euphoric
+price_target=soon
+Guidance raised for the next quarter.
+
+## 02 Empty
+ticker=NVDA`);
+
+		const result = validateChunks(chunks, schema);
+
+		expect(result.chunks).toEqual([
+			{
+				number: 1,
+				title: "Guidance raised for the next quarter.",
+				tags: [],
+				content: "Guidance raised for the next quarter.",
+			},
+		]);
+		expect(result.issues.map((issue) => issue.message)).toEqual([
+			"Added missing chunk title",
+			"Invalid enum value 'euphoric'",
+			"Invalid number value 'soon'",
+			"Removed chunk without content",
+		]);
+	});
+
+	test("keeps valid time ranges of timed formats only", () => {
+		const { chunks } = parseChunks(`## 01 Intro
+time_range=00:01:00-00:02:30
+time_range=00:03:00-00:04:00
+Welcome.
+
+## 02 Outro
+time_range=soon
+Bye.`);
+
+		const timed = validateChunks(chunks, schema, { allowTimeRange: true });
+		expect(timed.chunks.map((chunk) => chunk.tags)).toEqual([
+			[{ name: "time_range", value: "00:01:00-00:02:30" }],
+			[],
+		]);
+		expect(timed.issues).toContainEqual({
+			chunk: 2,
+			field: "time_range",
+			action: "removed",
+			message: "Invalid time range 'soon'",
+		});
+
+		const untimed = validateChunks(chunks, schema);
+		expect(untimed.chunks.every((chunk) => chunk.tags.length === 0)).toBe(true);
+	});
+});